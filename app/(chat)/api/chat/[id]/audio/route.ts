@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { getChatById } from '@/db/queries';
+import { AudioConverter } from '@/lib/audio/audio-helpers';
+import { getCachedConversationMarkers, getConversationAudio, markersToWebVTT } from '@/lib/audio/conversation-audio';
+import { TTS_SAMPLE_RATE } from '@/lib/audio/tts-cache';
+
+// Exports a whole chat as one WAV file. ?userTurns=true reads the learner's
+// turns too, ?markers=json|vtt returns the turn timestamps instead of the audio
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { searchParams } = req.nextUrl;
+  const markersFormat = searchParams.get('markers');
+
+  if (markersFormat && markersFormat !== 'json' && markersFormat !== 'vtt') {
+    return new Response('Bad Request: markers must be json or vtt.', { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session || !session.user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById({ id });
+    if (!chat) {
+      return new Response('Not Found', { status: 404 });
+    }
+    if (chat.userId !== session.user.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const includeUserTurns = searchParams.get('userTurns') === 'true';
+    const filename = `conversation-${id}`;
+
+    // Markers are timed from cached audio only, they never start a synthesis
+    if (markersFormat) {
+      const timing = await getCachedConversationMarkers(chat.messages, chat.language, { includeUserTurns });
+      if (!timing) {
+        return new Response('Conflict: Some turns have no audio yet, download the recording first.', { status: 409 });
+      }
+      if (timing.markers.length === 0) {
+        return new Response('Not Found: Chat has no speakable text.', { status: 404 });
+      }
+
+      if (markersFormat === 'json') {
+        return new Response(JSON.stringify(timing), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Disposition': `attachment; filename="${filename}.json"`,
+          },
+        });
+      }
+      return new Response(markersToWebVTT(timing.markers), {
+        headers: {
+          'Content-Type': 'text/vtt; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.vtt"`,
+        },
+      });
+    }
+
+    const { pcm } = await getConversationAudio(chat.messages, chat.language, { includeUserTurns });
+    if (pcm.length === 0) {
+      return new Response('Not Found: Chat has no speakable text.', { status: 404 });
+    }
+
+    const encoding = searchParams.get('encoding') === 'mulaw' ? 'mulaw' : 'pcm16';
+    const wav = AudioConverter.pcm16ToWav(pcm, TTS_SAMPLE_RATE, 1, encoding);
+
+    return new Response(new Uint8Array(wav), {
+      headers: {
+        'Content-Type': 'audio/wav',
+        'Content-Length': wav.length.toString(),
+        'Content-Disposition': `attachment; filename="${filename}.wav"`,
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error: any) {
+    console.error('Failed to export conversation audio:', error);
+    return new Response('An error occurred while processing your request', { status: 500 });
+  }
+}
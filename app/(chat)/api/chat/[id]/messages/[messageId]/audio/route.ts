@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { getChatById } from '@/db/queries';
+import { AudioConverter } from '@/lib/audio/audio-helpers';
+import { getMessageAudio } from '@/lib/audio/message-audio';
+import { TTS_SAMPLE_RATE } from '@/lib/audio/tts-cache';
+
+// Downloads an assistant message's speech as a WAV file, μ-law encoded with ?encoding=mulaw
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const { id, messageId } = await params;
+
+  const session = await auth();
+  if (!session || !session.user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById({ id });
+    if (!chat) {
+      return new Response('Not Found', { status: 404 });
+    }
+    if (chat.userId !== session.user.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const message = chat.messages.find((m) => m.id === messageId && m.role === 'assistant');
+    if (!message) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    const pcm = await getMessageAudio(message.content, chat.language);
+    if (pcm.length === 0) {
+      return new Response('Not Found: Message has no speakable text.', { status: 404 });
+    }
+
+    const encoding = req.nextUrl.searchParams.get('encoding') === 'mulaw' ? 'mulaw' : 'pcm16';
+    const wav = AudioConverter.pcm16ToWav(pcm, TTS_SAMPLE_RATE, 1, encoding);
+
+    return new Response(new Uint8Array(wav), {
+      headers: {
+        'Content-Type': 'audio/wav',
+        'Content-Length': wav.length.toString(),
+        'Content-Disposition': `attachment; filename="message-${messageId.replace(/[^\w-]/g, '')}.wav"`,
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error: any) {
+    console.error('Failed to build message audio:', error);
+    return new Response('An error occurred while processing your request', { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { getChatById } from '@/db/queries';
+import { getCachedMessageDuration } from '@/lib/audio/message-audio';
+import {
+  toHTMLTranscript,
+  toMarkdownTranscript,
+  toSRT,
+  toWebVTT,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  transcriptCues,
+} from '@/lib/export/transcript';
+import { convertToUIMessages, UIMessage } from '@/lib/utils';
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+// Exports a chat as subtitles (?format=vtt|srt) or a bilingual transcript (?format=md|html)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const format = (req.nextUrl.searchParams.get('format') ?? 'vtt') as TranscriptFormat;
+
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    return new Response(`Bad Request: format must be one of ${TRANSCRIPT_FORMATS.join(', ')}.`, { status: 400 });
+  }
+
+  const session = await auth();
+  if (!session || !session.user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById({ id });
+    if (!chat) {
+      return new Response('Not Found', { status: 404 });
+    }
+    if (chat.userId !== session.user.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const messages: UIMessage[] = convertToUIMessages(chat.messages);
+    // Replies already spoken have cached audio to time them by
+    const durations = await Promise.all(
+      messages.map((message) =>
+        message.role === 'assistant' ? getCachedMessageDuration(message.content, chat.language) : undefined
+      )
+    );
+    const cues = transcriptCues(messages, durations);
+
+    const date = new Date(chat.createdAt).toISOString().slice(0, 10);
+    const title = chat.language
+      ? `${chat.language[0].toUpperCase()}${chat.language.slice(1)} practice session, ${date}`
+      : `Practice session, ${date}`;
+    const options = { title, language: chat.language };
+
+    const body = {
+      vtt: () => toWebVTT(cues),
+      srt: () => toSRT(cues),
+      md: () => toMarkdownTranscript(cues, options),
+      html: () => toHTMLTranscript(cues, options),
+    }[format]();
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="transcript-${id}.${format}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Failed to export transcript:', error);
+    return new Response('An error occurred while processing your request', { status: 500 });
+  }
+}
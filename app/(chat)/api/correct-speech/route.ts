@@ -1,22 +1,40 @@
 // /api/correct-speech/route.ts - Backend API
+import { Schema, Type } from '@google/genai';
 import gemini from '@/lib/gemini';
-import { generateObject } from 'ai';
-import { z } from 'zod';
+import { getLLMProvider } from '@/lib/llm';
+
+const CORRECTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    corrected: { type: Type.STRING },
+    confidence: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+    changes: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['corrected', 'confidence', 'changes'],
+};
 
 export async function POST(req: Request) {
   const { transcript, messages } = await req.json();
-  
-  const { object } = await generateObject({
+
+  const llm = getLLMProvider();
+  const configurationError = llm.checkConfiguration();
+  if (configurationError) {
+    return Response.json({ error: configurationError }, { status: 500 });
+  }
+
+  const object: any = await llm.generateStructured({
     model: gemini.flash2Lite,
-    schema: z.object({
-      corrected: z.string(),
-      confidence: z.number().min(0).max(1),
-      changes: z.array(z.string())
-    }),
-    prompt: buildCorrectionPrompt(transcript, messages)
+    history: [{ role: 'user', text: buildCorrectionPrompt(transcript, messages ?? []) }],
+    responseSchema: CORRECTION_SCHEMA,
+  });
+
+  // A malformed response leaves the transcript as it was heard
+  const confidence = Number(object?.confidence);
+  return Response.json({
+    corrected: typeof object?.corrected === 'string' ? object.corrected : transcript,
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0,
+    changes: Array.isArray(object?.changes) ? object.changes.filter((change: unknown) => typeof change === 'string') : [],
   });
-  
-  return Response.json(object);
 };
 
 
@@ -43,4 +61,4 @@ Return JSON:
   "changes": ["list of corrections made"]
 }
     `.trim();
-  }
\ No newline at end of file
+  }
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
-import { genAI } from "@/lib/gemini";
+import { ChatTurn, getLLMProvider } from "@/lib/llm";
 
 // Store WebSocket server instance
 let wss: WebSocketServer | null = null;
@@ -57,10 +57,12 @@ async function handleWebSocketConnection(ws: any, request: IncomingMessage) {
 }
 
 async function handleChatRequest(ws: any, message: any) {
-  if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+  const llm = getLLMProvider();
+  const configurationError = llm.checkConfiguration();
+  if (configurationError) {
     ws.send(JSON.stringify({
       type: 'error',
-      error: 'GOOGLE_GENERATIVE_AI_API_KEY not set'
+      error: configurationError
     }));
     return;
   }
@@ -77,9 +79,9 @@ async function handleChatRequest(ws: any, message: any) {
     }
 
     // Convert OpenAI-style messages to Gemini format
-    const history = messages.map((msg: any) => ({
+    const history: ChatTurn[] = messages.map((msg: any) => ({
       role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
+      text: msg.content,
     }));
 
     // Send stream start event
@@ -89,16 +91,15 @@ async function handleChatRequest(ws: any, message: any) {
     }));
 
     try {
-      const result = await genAI.models.generateContentStream({
+      const result = llm.streamText({
         model: "gemini-2.0-flash-exp",
-        contents: history,
+        history,
       });
 
       let fullResponse = '';
 
       // Stream response chunks
-      for await (const chunk of result) {
-        const text = chunk.text;
+      for await (const text of result) {
         if (text) {
           fullResponse += text;
           
@@ -168,8 +169,10 @@ export async function GET(req: NextRequest) {
 
 // Alternative: Server-Sent Events approach (recommended for Next.js)
 export async function POST(req: NextRequest) {
-  if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-    return new NextResponse("GOOGLE_GENERATIVE_AI_API_KEY not set", { status: 500 });
+  const llm = getLLMProvider();
+  const configurationError = llm.checkConfiguration();
+  if (configurationError) {
+    return new NextResponse(configurationError, { status: 500 });
   }
 
   try {
@@ -185,18 +188,18 @@ export async function POST(req: NextRequest) {
     }
 
     // Convert OpenAI-style messages to Gemini format
-    const history = messages.map((msg: any) => ({
+    const history: ChatTurn[] = messages.map((msg: any) => ({
       role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
+      text: msg.content,
     }));
 
     // Create a readable stream for streaming response
     const stream = new ReadableStream({
       async start(controller) {
         try {
-          const result = await genAI.models.generateContentStream({
+          const result = llm.streamText({
             model: "gemini-2.0-flash-exp",
-            contents: history,
+            history,
           });
 
           // Send stream start event
@@ -210,8 +213,7 @@ export async function POST(req: NextRequest) {
           let fullResponse = '';
 
           // Stream response chunks
-          for await (const chunk of result) {
-            const text = chunk.text;
+          for await (const text of result) {
             if (text) {
               fullResponse += text;
               controller.enqueue(new TextEncoder().encode(
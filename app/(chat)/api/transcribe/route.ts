@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { getSTTProvider } from '@/lib/audio/stt';
+
+// Longest utterance accepted in one request
+const MAX_SECONDS = 30;
+
+// Reads the body up to `maxBytes`, null once it is longer
+async function readBody(req: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(req.headers.get('content-length')) > maxBytes) return null;
+  if (!req.body) return new Uint8Array(0);
+
+  const reader = req.body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    length += result.value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(result.value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return body;
+}
+
+// Transcribes raw PCM16 mono audio posted as the request body.
+// ?sampleRate= gives its rate, ?locale= the language the learner is speaking
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session || !session.user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { searchParams } = req.nextUrl;
+  const sampleRate = Number(searchParams.get('sampleRate') ?? 16000);
+  if (!Number.isInteger(sampleRate) || sampleRate < 8000 || sampleRate > 48000) {
+    return new Response('Bad Request: sampleRate must be between 8000 and 48000.', { status: 400 });
+  }
+
+  // Checked while reading, so an oversized body is never buffered
+  const audio = await readBody(req, MAX_SECONDS * sampleRate * 2);
+  if (!audio) {
+    return new Response(`Payload Too Large: At most ${MAX_SECONDS} seconds of audio.`, { status: 413 });
+  }
+  if (audio.length % 2 !== 0) {
+    return new Response('Bad Request: Body must be PCM16 audio.', { status: 400 });
+  }
+  if (audio.length === 0) {
+    return Response.json({ text: '' });
+  }
+
+  try {
+    const { text } = await getSTTProvider().transcribe({
+      audio,
+      sampleRate,
+      locale: searchParams.get('locale'),
+    });
+    return Response.json({ text });
+  } catch (error: any) {
+    console.error('Transcription failed:', error);
+    return new Response('An error occurred while processing your request', { status: 500 });
+  }
+}
@@ -1,18 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ApiError, GoogleGenAI, Modality } from "@google/genai";
-import * as AudioHelpers from '@/lib/audio/audio-helpers'; 
-
-const genAI = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-});
+import { getTTSVoice } from '@/lib/gemini';
+import { getLLMProvider } from '@/lib/llm';
+import { joinSentences, prepareSpeechSentences } from '@/lib/audio/tts-text';
+import { isLanguageName } from '@/lib/utils';
+import { speakWithCache } from '@/lib/audio/cached-speech';
+import { AUDIO_FRAMES_TYPE, encodeAudioFrame } from '@/lib/audio/audio-frames';
+import { TTS_SAMPLE_RATE } from '@/lib/audio/tts-cache';
 
 export async function POST(req: NextRequest) {
   const encoder = new TextEncoder();
+  // Barge-in aborts the fetch, which cancels this stream
+  const generation = new AbortController();
+  req.signal.addEventListener('abort', () => generation.abort());
+  let streamCancelled = false;
+  // Binary frames instead of base64 in SSE, when the client asks for them
+  const framed = req.headers.get('accept')?.includes(AUDIO_FRAMES_TYPE) ?? false;
+
   const readableStream = new ReadableStream({
+    cancel() {
+      streamCancelled = true;
+      generation.abort();
+    },
     async start(controller) {
       try {
         const message = await req.json();
-        const { text, parentRequestId, requestId } = message;
+        const { text, parentRequestId, requestId, chunkIndex, language, isSegment } = message;
+        // Position of this text within the parent reply, echoed so the client can order segments
+        const segmentIndex = typeof chunkIndex === 'number' ? chunkIndex : 0;
+
+        const sendEvent = (event: string, data: object) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        const sendChunk = (pcm: Uint8Array, audioChunkIndex: number) => {
+          if (framed) {
+            controller.enqueue(encodeAudioFrame({ requestId: String(requestId ?? ''), segmentIndex, chunkIndex: audioChunkIndex, sampleRate: TTS_SAMPLE_RATE }, pcm));
+            return;
+          }
+          const content = Buffer.from(pcm).toString('base64');
+          sendEvent('tts_stream_chunk', { content, chunkIndex: audioChunkIndex, segmentIndex, parentRequestId, finish_reason: null, requestId });
+        };
+        const sendComplete = (totalChunks: number, details: object) => {
+          if (framed) {
+            controller.enqueue(encodeAudioFrame({ requestId: String(requestId ?? ''), segmentIndex, chunkIndex: totalChunks, sampleRate: TTS_SAMPLE_RATE, end: true }));
+            return;
+          }
+          sendEvent('tts_stream_complete', { totalChunks, segmentIndex, ...details, parentRequestId, finish_reason: "stop", requestId });
+        };
+        const sendError = (event: 'error' | 'tts_error', error: string) => {
+          if (framed) {
+            controller.enqueue(encodeAudioFrame({ requestId: String(requestId ?? ''), segmentIndex, chunkIndex: 0, error }));
+            return;
+          }
+          sendEvent(event, { error, parentRequestId, requestId });
+        };
 
         console.log(`
           ╔════════════════════════════════════════╗
@@ -20,129 +60,97 @@ export async function POST(req: NextRequest) {
           ╠════════════════════════════════════════╣
           ║ Parent (Chat) Request ID: ${parentRequestId}
           ║ TTS Request ID: ${requestId}
+          ║ Segment: ${isSegment ? segmentIndex : 'N/A'}
+          ║ Language: ${language || 'N/A'}
           ║ Text Length: ${text?.length || 0} chars
           ║ Text Preview: ${text?.substring(0, 80) || 'N/A'}
           ╚════════════════════════════════════════╝
         `);
 
-        if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-          controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: 'GOOGLE_GENERATIVE_AI_API_KEY not set', parentRequestId, requestId })}\n\n`));
+        const llm = getLLMProvider();
+        const configurationError = llm.checkConfiguration();
+        if (configurationError) {
+          sendError('error', configurationError);
           controller.close();
           return;
         }
 
         if (!text) {
-          controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: 'Missing or invalid text', parentRequestId, requestId })}\n\n`));
+          sendError('error', 'Missing or invalid text');
           controller.close();
           return;
         }
 
-        controller.enqueue(encoder.encode(`event: tts_stream_start\ndata: ${JSON.stringify({ message: "Starting TTS generation", parentRequestId, requestId })}\n\n`));
+        if (!framed) sendEvent('tts_stream_start', { message: "Starting TTS generation", parentRequestId, requestId });
 
         try {
           const startTime = Date.now();
 
-          const cleanedText = text.replace(/[\n\r*]+/g, '').replace(/[^\x20-\x7E]+/g, '');
+          const speechLanguage = isLanguageName(language) ? language : null;
+          const sentences = prepareSpeechSentences(text, speechLanguage);
+          const cleanedText = joinSentences(sentences, speechLanguage);
           console.log('Original text length:', cleanedText.length);
 
-          const isFullLengthText = process.env.FULL_LENGTH_AUDIO_PLAYBACK == 'true' ? true : false;
+          // A segment is one sentence of a longer reply and is always spoken in full
+          const isFullLengthText = isSegment || process.env.FULL_LENGTH_AUDIO_PLAYBACK == 'true' ? true : false;
           let limitedText: string;
           if (isFullLengthText) {
             limitedText = cleanedText;
           } else {
+            // Speak whole sentences until there are at least 30 characters, capped at 200
+            const MIN_TTS_LENGTH = 30;
             const MAX_TTS_LENGTH = 200;
-            function findFirstSentenceEnd(str: string): number | null {
-              const match = str.match(/[.!?]/);
-              return match ? (match.index! + 1) : null;
+            const spoken: string[] = [];
+            for (const sentence of sentences) {
+              spoken.push(sentence);
+              if (joinSentences(spoken, speechLanguage).length >= MIN_TTS_LENGTH) break;
             }
+            limitedText = [...joinSentences(spoken, speechLanguage)].slice(0, MAX_TTS_LENGTH).join('');
+          }
+          console.log('Limited text length:', limitedText.length);
+
+          if (!limitedText) {
+            sendError('error', 'No speakable text');
+            return;
+          }
+
+          const voiceName = getTTSVoice(language);
+          const { cacheKey, audioUrl, cached, chunks } = await speakWithCache(llm, { text: limitedText, voiceName, language, signal: generation.signal });
 
-            if (cleanedText.length <= 30) {
-              limitedText = cleanedText;
-            } else {
-              const after30 = cleanedText.slice(30);
-              const sentenceEnd = findFirstSentenceEnd(after30);
-
-              if (sentenceEnd !== null) {
-                limitedText = cleanedText.slice(0, 30 + sentenceEnd);
-              } else {
-                const firstSentenceEnd = findFirstSentenceEnd(cleanedText);
-                if (firstSentenceEnd !== null && firstSentenceEnd <= MAX_TTS_LENGTH) {
-                  limitedText = cleanedText.slice(0, firstSentenceEnd);
-                } else {
-                  limitedText = cleanedText.slice(0, MAX_TTS_LENGTH);
-                }
-              }
+          if (cached) {
+            // Same events as a fresh synthesis
+            let cachedChunkIndex = 0;
+            for await (const audioChunk of chunks) {
+              sendChunk(audioChunk, cachedChunkIndex);
+              cachedChunkIndex++;
             }
+
+            console.log(`🗄️ Served ${cachedChunkIndex} cached chunks for ${cacheKey}`);
+            sendComplete(cachedChunkIndex, { audioUrl, cached: true });
+            return;
           }
-          console.log('Limited text length:', limitedText.length);
 
           console.log('Sending text to generate audio: ', limitedText);
 
-          const result = await genAI.models.generateContentStream({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: limitedText }] }],
-            config: {
-              candidateCount: 1,
-              responseModalities: [Modality.AUDIO],
-              speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName: 'Charon' }
-                },
-              },
-            },
-          })
-            .catch((e: ApiError) => {
-              console.error('error name: ', e.name);
-              console.error('error message: ', e.message);
-              console.error('error status: ', e.status);
-              throw e;
-            });
-
           let audioChunkIndex = 0;
           let totalBytesReceived = 0;
           const chunkTimings: number[] = [];
 
-          for await (const chunk of result) {
+          for await (const audioChunk of chunks) {
+            if (generation.signal.aborted) break;
             const chunkStartTime = Date.now();
-            const candidate = chunk.candidates?.[0];
-            console.log(`🎤 Starting to receive audio chunks from Gemini...`);
-
-            if (candidate && candidate.content?.parts) {
-              for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-
-                  const isValidBase64 = AudioHelpers.AudioDebugger.validate(
-                    part.inlineData.data,
-                    AudioHelpers.AudioFormat.BASE64_STRING
-                  );
-
-                  if (!isValidBase64) {
-                    console.error(`❌ Invalid base64 in chunk ${audioChunkIndex}`);
-                    controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: `Invalid base64 data in chunk ${audioChunkIndex}`, parentRequestId, requestId })}\n\n`));
-                    controller.close();
-                    return;
-                  }
-
-                  const chunkInfo = {
-                    index: audioChunkIndex,
-                    base64Length: part.inlineData.data.length,
-                    mimeType: part.inlineData.mimeType,
-                    decodedBytes: Buffer.from(part.inlineData.data, 'base64').length
-                  };
+            console.log(`📦 Chunk ${audioChunkIndex}:`, { index: audioChunkIndex, decodedBytes: audioChunk.length });
 
-                  console.log(`📦 Chunk ${audioChunkIndex}:`, chunkInfo);
+            sendChunk(audioChunk, audioChunkIndex);
 
-                  controller.enqueue(encoder.encode(`event: tts_stream_chunk\ndata: ${JSON.stringify({ content: part.inlineData.data, chunkIndex: audioChunkIndex, parentRequestId, finish_reason: null, requestId })}\n\n`));
-
-                  audioChunkIndex++;
-
-                  const audioChunk = Buffer.from(part.inlineData.data, 'base64');
-                  totalBytesReceived += audioChunk.length;
+            audioChunkIndex++;
+            totalBytesReceived += audioChunk.length;
+            chunkTimings.push(Date.now() - chunkStartTime);
+          }
 
-                  chunkTimings.push(Date.now() - chunkStartTime);
-                }
-              }
-            }
+          if (generation.signal.aborted) {
+            console.log(`TTS request ${requestId} cancelled after ${audioChunkIndex} chunks`);
+            return;
           }
 
           const totalTime = Date.now() - startTime;
@@ -161,9 +169,10 @@ export async function POST(req: NextRequest) {
             ╚════════════════════════════════════════╝
           `);
 
-          controller.enqueue(encoder.encode(`event: tts_stream_complete\ndata: ${JSON.stringify({ totalChunks: audioChunkIndex, parentRequestId, finish_reason: "stop", requestId })}\n\n`));
+          sendComplete(audioChunkIndex, { audioUrl });
 
         } catch (error: any) {
+          if (generation.signal.aborted) return;
           console.error(`
             ╔════════════════════════════════════════╗
             ║   SERVER: TTS GENERATION ERROR         ║
@@ -175,7 +184,7 @@ export async function POST(req: NextRequest) {
             ╚════════════════════════════════════════╝
           `);
 
-          controller.enqueue(encoder.encode(`event: tts_error\ndata: ${JSON.stringify({ error: error?.message || "Error generating tts response", parentRequestId, requestId })}\n\n`));
+          sendError('tts_error', error?.message || "Error generating tts response");
         }
       } catch (error: any) {
         console.error(`
@@ -187,16 +196,20 @@ export async function POST(req: NextRequest) {
           ╚════════════════════════════════════════╝
         `);
 
-        controller.enqueue(encoder.encode(`event: tts_error\ndata: ${JSON.stringify({ error: error?.message || "Error processing tts request", requestId: (await req.json()).requestId })}\n\n`));
+        if (framed) {
+          controller.enqueue(encodeAudioFrame({ requestId: '', chunkIndex: 0, error: error?.message || "Error processing tts request" }));
+        } else {
+          controller.enqueue(encoder.encode(`event: tts_error\ndata: ${JSON.stringify({ error: error?.message || "Error processing tts request", requestId: (await req.json()).requestId })}\n\n`));
+        }
       } finally {
-        controller.close();
+        if (!streamCancelled) controller.close();
       }
     },
   });
 
   return new NextResponse(readableStream, {
     headers: {
-      'Content-Type': 'text/event-stream',
+      'Content-Type': framed ? AUDIO_FRAMES_TYPE : 'text/event-stream',
       'Cache-Control': 'no-cache, no-transform',
       'Connection': 'keep-alive',
     },
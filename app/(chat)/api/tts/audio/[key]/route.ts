@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { AudioConverter } from '@/lib/audio/audio-helpers';
+import { isTTSCacheKey, TTS_SAMPLE_RATE, ttsCache } from '@/lib/audio/tts-cache';
+
+// Serves cached TTS audio as WAV, or the raw PCM16 with ?format=pcm
+export async function GET(req: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isTTSCacheKey(key)) {
+    return new Response('Bad Request: Invalid audio key.', { status: 400 });
+  }
+
+  const pcm = await ttsCache.get(key);
+  if (!pcm) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const isPcm = req.nextUrl.searchParams.get('format') === 'pcm';
+  const body = isPcm ? pcm : AudioConverter.pcm16ToWav(pcm, TTS_SAMPLE_RATE);
+
+  return new Response(new Uint8Array(body), {
+    headers: {
+      'Content-Type': isPcm ? 'audio/pcm' : 'audio/wav',
+      'Content-Length': body.length.toString(),
+      // Content-addressed, so the bytes behind a key never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
@@ -1,72 +1,94 @@
-import { Modality } from '@google/genai';
-import gemini, { genAI } from '@/lib/gemini';
+import { getLLMProvider } from '@/lib/llm';
+import { TTS_SAMPLE_RATE, ttsAudioUrl, ttsCache, ttsCacheKey } from '@/lib/audio/tts-cache';
+import { AUDIO_FRAMES_TYPE, encodeAudioFrame } from '@/lib/audio/audio-frames';
+
+const VOICE_NAME = 'Algenib';
 
 export async function POST(req: Request) {
   try {
-    const { text } = await req.json();
+    const { text, requestId = '' } = await req.json();
     const isPartial = new URL(req.url).searchParams.get('partial') === 'true';
+    // Raw PCM by default, frames with chunk indices and an end marker when asked for
+    const framed = req.headers.get('accept')?.includes(AUDIO_FRAMES_TYPE) ?? false;
+    const frame = (chunkIndex: number, pcm?: Uint8Array, end = false) =>
+      encodeAudioFrame({ requestId: String(requestId), chunkIndex, sampleRate: TTS_SAMPLE_RATE, end }, pcm);
 
     if (!text) {
       return new Response('Bad Request: Text is required.', { status: 400 });
     }
+
+    const cacheKey = ttsCacheKey({ text, voiceName: VOICE_NAME });
+    const cachedAudio = await ttsCache.get(cacheKey);
+    if (cachedAudio) {
+      let body = new Uint8Array(cachedAudio);
+      if (framed) {
+        // One-second frames, like the chunked replay in /api/tts-refactor
+        const frames: Uint8Array[] = [];
+        for (let offset = 0; offset < cachedAudio.length; offset += TTS_SAMPLE_RATE * 2) {
+          frames.push(frame(frames.length, cachedAudio.subarray(offset, offset + TTS_SAMPLE_RATE * 2)));
+        }
+        frames.push(frame(frames.length, undefined, true));
+        body = new Uint8Array(Buffer.concat(frames));
+      }
+      return new Response(body, {
+        headers: {
+          'Content-Type': framed ? AUDIO_FRAMES_TYPE : 'audio/pcm',
+          'Cache-Control': 'no-cache',
+          'X-Content-Type-Options': 'nosniff',
+          'X-Audio-Url': ttsAudioUrl(cacheKey),
+          'X-TTS-Cache': 'hit',
+        },
+      });
+    }
+
     // Create a readable stream for audio data
     const stream = new ReadableStream({
       async start(controller) {
         try {
 
-          const session = await genAI.models.generateContentStream({
-            model: gemini.flash25TTS,
-            contents: [{ parts: [{ text }] }],
-            config: {
-              maxOutputTokens: 1000,
-              responseModalities: [Modality.AUDIO],
-              speechConfig: {
-                voiceConfig: { 
-                  prebuiltVoiceConfig: { voiceName: 'Algenib' } 
-                },
-              },
-            },
-          });
+          const session = getLLMProvider().streamSpeech({ text, voiceName: VOICE_NAME, maxOutputTokens: 1000 });
 
           let chunkCount = 0;
           const MIN_CHUNK_SIZE = 4096; // Buffer small chunks for smoother delivery
           let buffer = new Uint8Array(0);
+          const audioParts: Buffer[] = [];
 
-          for await (const chunk of session) {
-            const candidate = chunk.candidates?.[0];
-            if (candidate && candidate.content?.parts) {
-              for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                  const audioBuffer = Buffer.from(part.inlineData.data, 'base64');
+          for await (const audioBuffer of session) {
+            audioParts.push(Buffer.from(audioBuffer));
 
-                  // Accumulate into buffer
-                  const combined = new Uint8Array(buffer.length + audioBuffer.length);
-                  combined.set(buffer);
-                  combined.set(audioBuffer, buffer.length);
-                  buffer = combined;
+            // Accumulate into buffer
+            const combined = new Uint8Array(buffer.length + audioBuffer.length);
+            combined.set(buffer);
+            combined.set(audioBuffer, buffer.length);
+            buffer = combined;
 
-                  // Send when buffer reaches minimum size OR if this is the last chunk
-                  if (buffer.length >= MIN_CHUNK_SIZE) {
-                    controller.enqueue(new Uint8Array(buffer));
-                    chunkCount++;
-                    buffer = new Uint8Array(0); // Reset buffer
-                  }
-                }
-              }
+            // Send when buffer reaches minimum size OR if this is the last chunk
+            if (buffer.length >= MIN_CHUNK_SIZE) {
+              controller.enqueue(framed ? frame(chunkCount, buffer) : new Uint8Array(buffer));
+              chunkCount++;
+              buffer = new Uint8Array(0); // Reset buffer
             }
           }
 
           // Flush any remaining buffer
           if (buffer.length > 0) {
-            controller.enqueue(new Uint8Array(buffer));
+            controller.enqueue(framed ? frame(chunkCount, buffer) : new Uint8Array(buffer));
             chunkCount++;
           }
+          if (framed) controller.enqueue(frame(chunkCount, undefined, true));
           
           console.log(`TTS completed: ${chunkCount} chunks sent`);
+          await ttsCache.set(cacheKey, Buffer.concat(audioParts));
           controller.close();
 
         } catch (error: any) {
           console.error('Error in TTS stream:', error);
+          if (framed) {
+            // Frames can carry the error, the client sees it instead of a broken stream
+            controller.enqueue(encodeAudioFrame({ requestId: String(requestId), chunkIndex: 0, error: `Failed to generate TTS: ${error.message}` }));
+            controller.close();
+            return;
+          }
           controller.error(new Error(`Failed to generate TTS: ${error.message}`));
         }
       },
@@ -77,10 +99,12 @@ export async function POST(req: Request) {
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'audio/pcm',
+        'Content-Type': framed ? AUDIO_FRAMES_TYPE : 'audio/pcm',
         'Transfer-Encoding': 'chunked',
         'Cache-Control': 'no-cache',
         'X-Content-Type-Options': 'nosniff',
+        'X-Audio-Url': ttsAudioUrl(cacheKey),
+        'X-TTS-Cache': 'miss',
       },
     });
 
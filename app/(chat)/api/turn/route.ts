@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTTSVoice } from '@/lib/gemini';
+import { getLLMProvider } from '@/lib/llm';
+import { createSentenceSegmenter, joinSentences, prepareSpeechSentences } from '@/lib/audio/tts-text';
+import { speakWithCache } from '@/lib/audio/cached-speech';
+import { AUDIO_FRAMES_TYPE, encodeAudioFrame, encodeEventFrame } from '@/lib/audio/audio-frames';
+import { isLanguageName } from '@/lib/utils';
+import { completeTutorReply, createTurnPersister, streamTutorReply, toStoredMessage } from '@/lib/tutor-reply';
+
+// One tutor turn on one stream: the reply is generated, cut into sentences
+// and spoken here, so the client only plays what arrives.
+//
+// Events, all tagged with the requestId:
+//   text_delta        { content, chunkIndex }
+//   meta              { metadata }  rating, corrections and difficulty, before the text
+//   sentence_start    { sentenceIndex, text }
+//   audio_chunk       { sentenceIndex, chunkIndex, content }  base64 PCM16 at 24 kHz
+//   sentence_complete { sentenceIndex, totalChunks, audioUrl, cached?, error? }
+//   turn_complete     { content, metadata, totalSentences }
+//   error             { error }
+//
+// Sentences are synthesized as soon as they are complete, in parallel, but
+// their audio is sent strictly in sentence order.
+//
+// With `Accept: application/x-audio-frames` the same events come as JSON
+// event frames, and each audio_chunk as a binary audio frame instead,
+// segmentIndex being the sentence.
+export async function POST(req: NextRequest) {
+  const encoder = new TextEncoder();
+  const framed = req.headers.get('accept')?.includes(AUDIO_FRAMES_TYPE) ?? false;
+  // Barge-in aborts the fetch, which stops generation and every synthesis
+  const generation = new AbortController();
+  req.signal.addEventListener('abort', () => generation.abort());
+  let streamCancelled = false;
+
+  const readableStream = new ReadableStream({
+    cancel() {
+      streamCancelled = true;
+      generation.abort();
+    },
+    async start(controller) {
+      let requestId: unknown;
+      // Sentences still being spoken after an error must not write to a closed stream
+      let closed = false;
+      const send = (event: string, data: object) => {
+        if (streamCancelled || closed) return;
+        controller.enqueue(framed
+          ? encodeEventFrame(String(requestId ?? ''), event, { ...data, requestId })
+          : encoder.encode(`event: ${event}\ndata: ${JSON.stringify({ ...data, requestId })}\n\n`));
+      };
+      const sendAudio = (sentenceIndex: number, chunkIndex: number, pcm: Uint8Array) => {
+        if (!framed) {
+          send('audio_chunk', { sentenceIndex, chunkIndex, content: Buffer.from(pcm).toString('base64') });
+        } else if (!streamCancelled && !closed) {
+          controller.enqueue(encodeAudioFrame({ requestId: String(requestId ?? ''), segmentIndex: sentenceIndex, chunkIndex }, pcm));
+        }
+      };
+
+      try {
+        const message = await req.json();
+        requestId = message.requestId;
+        const { messages, chatId, assistantMessageId, language, level, outputFormat } = message;
+
+        const llm = getLLMProvider();
+        const configurationError = llm.checkConfiguration();
+        if (configurationError) {
+          send('error', { error: configurationError });
+          return;
+        }
+
+        if (!messages || !Array.isArray(messages)) {
+          send('error', { error: 'Missing or invalid messages' });
+          return;
+        }
+
+        const persistTurns = await createTurnPersister(chatId);
+        await persistTurns(messages.filter((msg: any) => typeof msg?.id === 'string').map(toStoredMessage));
+
+        const speechLanguage = isLanguageName(language) ? language : null;
+        const voiceName = getTTSVoice(language);
+        const segmenter = createSentenceSegmenter(speechLanguage);
+        let totalSentences = 0;
+        // Resolves once every sentence so far has been sent
+        let spoken: Promise<void> = Promise.resolve();
+
+        const speakSentence = (text: string) => {
+          const speechText = joinSentences(prepareSpeechSentences(text, speechLanguage), speechLanguage);
+          if (!speechText) return;
+          const sentenceIndex = totalSentences++;
+
+          // Synthesis starts now, its chunks wait here until the earlier sentences are sent
+          const chunks: Uint8Array[] = [];
+          let done = false;
+          let wake = null as (() => void) | null;
+          let audioUrl: string | undefined;
+          let cached: boolean | undefined;
+          let error: string | undefined;
+          (async () => {
+            try {
+              const speech = await speakWithCache(llm, { text: speechText, voiceName, language, signal: generation.signal });
+              ({ audioUrl, cached } = speech);
+              for await (const chunk of speech.chunks) {
+                chunks.push(chunk);
+                wake?.();
+              }
+            } catch (synthesisError: any) {
+              // A sentence that can't be spoken is skipped, the rest of the reply still plays
+              if (!generation.signal.aborted) console.error(`Turn ${requestId} sentence ${sentenceIndex} TTS failed:`, synthesisError);
+              error = synthesisError?.message || 'Error generating tts response';
+            } finally {
+              done = true;
+              wake?.();
+            }
+          })();
+
+          spoken = spoken.then(async () => {
+            send('sentence_start', { sentenceIndex, text });
+            let chunkIndex = 0;
+            for (;;) {
+              for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+                sendAudio(sentenceIndex, chunkIndex++, chunk);
+              }
+              if (done) break;
+              await new Promise<void>((resolve) => { wake = resolve; });
+              wake = null;
+            }
+            send('sentence_complete', error ? { sentenceIndex, totalChunks: chunkIndex, error } : { sentenceIndex, totalChunks: chunkIndex, audioUrl, cached });
+          });
+        };
+
+        try {
+          const reply = streamTutorReply(llm, { messages, language, level, outputFormat, signal: generation.signal });
+          let chunkIndex = 0;
+
+          for await (const update of reply) {
+            if (update.type === 'meta') {
+              // Translations follow with turn_complete, once their audio has been looked up
+              const { translations, text, ...metadata } = update.data;
+              send('meta', { metadata });
+            }
+
+            if (update.type === 'stream') {
+              send('text_delta', { content: update.delta, chunkIndex: chunkIndex++ });
+              segmenter.push(update.delta).forEach(speakSentence);
+            }
+
+            if (update.type === 'complete') {
+              segmenter.flush().forEach(speakSentence);
+              const { metadata, turns } = await completeTutorReply(update.data, { messages, assistantMessageId, language });
+              await persistTurns(turns);
+              await spoken;
+              send('turn_complete', { content: update.data.text, metadata, totalSentences });
+            }
+          }
+
+          if (generation.signal.aborted) {
+            console.log(`Turn ${requestId} cancelled, stopped generating`);
+          }
+        } catch (streamError: any) {
+          if (generation.signal.aborted) return;
+          console.error('Turn generation error:', streamError);
+          // Stop speaking a reply that won't complete
+          generation.abort();
+          send('error', { error: streamError?.message || 'Error generating response' });
+        }
+      } catch (error: any) {
+        console.error('Turn request error:', error);
+        send('error', { error: error?.message || 'Error processing turn request' });
+      } finally {
+        closed = true;
+        if (!streamCancelled) controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(readableStream, {
+    headers: {
+      'Content-Type': framed ? AUDIO_FRAMES_TYPE : 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
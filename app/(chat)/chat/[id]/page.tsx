@@ -1,11 +1,10 @@
-import { CoreMessage } from "ai";
 import { notFound } from "next/navigation";
 
 import { auth } from "@/auth"
 import { Chat as PreviewChat } from "@/components/chat/chat";
 import { getChatById } from "@/db/queries";
 import { Chat } from "@/db/schema";
-import { convertToUIMessages } from "@/lib/utils";
+import { convertToUIMessages, isCefrLevel, isLanguageName } from "@/lib/utils";
 
 export default async function Page({ params }: { params: any; }) {
   const { id } = params;
@@ -15,10 +14,10 @@ export default async function Page({ params }: { params: any; }) {
     notFound();
   }
 
-  // type casting and converting messages to UI messages
+  // converting Message rows to UI messages
   const chat: Chat = {
     ...chatFromDb,
-    messages: convertToUIMessages(chatFromDb.messages as Array<CoreMessage>),
+    messages: convertToUIMessages(chatFromDb.messages),
   };
 
   const session = await auth()
@@ -31,5 +30,12 @@ export default async function Page({ params }: { params: any; }) {
     return notFound();
   }
 
-  return <PreviewChat id={chat.id} initialMessages={chat.messages} />;
+  return (
+    <PreviewChat
+      id={chat.id}
+      initialMessages={chat.messages}
+      initialLanguage={isLanguageName(chat.language) ? chat.language : null}
+      initialLevel={isCefrLevel(chat.level) ? chat.level : null}
+    />
+  );
 }
@@ -0,0 +1,21 @@
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth"
+import { loadProgressHistory } from "@/app/actions/progress";
+import { ProgressDashboard } from "@/components/progress/progress-dashboard";
+
+export default async function Page() {
+  const session = await auth()
+
+  if (!session || !session.user) {
+    redirect("/login");
+  }
+
+  const { turns, words } = await loadProgressHistory();
+
+  return (
+    <div className="flex flex-row justify-center min-h-dvh bg-background">
+      <ProgressDashboard turns={turns} words={words} />
+    </div>
+  );
+}
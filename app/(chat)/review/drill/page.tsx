@@ -0,0 +1,18 @@
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth"
+import { PronunciationDrill } from "@/components/review/pronunciation-drill";
+
+export default async function Page() {
+  const session = await auth()
+
+  if (!session || !session.user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="flex flex-row justify-center h-dvh bg-background">
+      <PronunciationDrill />
+    </div>
+  );
+}
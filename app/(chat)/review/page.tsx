@@ -0,0 +1,18 @@
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth"
+import { FlashcardReview } from "@/components/review/flashcard-review";
+
+export default async function Page() {
+  const session = await auth()
+
+  if (!session || !session.user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="flex flex-row justify-center h-dvh bg-background">
+      <FlashcardReview />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use server';
+
+import { saveChatLanguage } from '@/db/queries';
+import { auth } from 'auth';
+import { isCefrLevel, isLanguageName } from '@/lib/utils';
+
+// Actions for managing chat settings
+
+/**
+ * Persist the target language (and optional CEFR level) for a chat
+ */
+export async function setChatLanguage(
+  chatId: string,
+  language: string,
+  level?: string | null
+): Promise<void> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  if (!isLanguageName(language)) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+
+  if (level && !isCefrLevel(level)) {
+    throw new Error(`Invalid CEFR level: ${level}`);
+  }
+
+  await saveChatLanguage({
+    id: chatId,
+    userId: session.user.id,
+    language,
+    level,
+  });
+}
@@ -0,0 +1,54 @@
+'use server';
+
+import { db } from '@/db/queries';
+import { chat, message, translations } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { auth } from 'auth';
+import { ProgressTurn, ProgressWord } from '@/lib/progress/stats';
+
+// Raw history for the progress dashboard. Days and streaks are computed
+// on the client so they follow the learner's local time zone.
+
+export async function loadProgressHistory(): Promise<{ turns: ProgressTurn[]; words: ProgressWord[] }> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  const userId = session.user.id;
+
+  const turnRows = await db
+    .select({
+      language: chat.language,
+      role: message.role,
+      rating: message.rating,
+      difficulty: message.difficulty,
+      createdAt: message.createdAt,
+    })
+    .from(message)
+    .innerJoin(chat, eq(message.chatId, chat.id))
+    .where(eq(chat.userId, userId))
+    .orderBy(asc(message.createdAt));
+
+  const wordRows = await db
+    .select({
+      language: translations.language,
+      addedAt: translations.addedAt,
+    })
+    .from(translations)
+    .where(eq(translations.userId, userId));
+
+  return {
+    turns: turnRows.map(row => ({
+      language: row.language,
+      role: row.role === 'assistant' ? 'assistant' : 'user',
+      rating: row.rating,
+      difficulty: row.difficulty,
+      createdAt: row.createdAt.getTime(),
+    })),
+    words: wordRows.map(row => ({
+      language: row.language,
+      addedAt: row.addedAt.getTime(),
+    })),
+  };
+}
@@ -1,13 +1,83 @@
 'use server';
 
 import { db } from '@/db/queries';
-import { translations } from '@/db/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { Translation, translationReviews, translations } from '@/db/schema';
+import { eq, and, asc, desc, lte, sql } from 'drizzle-orm';
+import { after } from 'next/server';
+import { headers } from 'next/headers';
 import { auth } from 'auth';
 import { TranslationData } from '@/lib/utils';
+import { isReviewGrade, ReviewAttempt, ReviewGrade, scheduleReview } from '@/lib/review/scheduler';
+import { isTTSAudioUrl, ttsAudioUrl, ttsCache } from '@/lib/audio/tts-cache';
+import { synthesizeSpeech } from '@/lib/llm';
+import { WordAudioJob, WordAudioQueue, wordAudioKey, wordAudioPrompt } from '@/lib/audio/word-audio';
+import {
+  parseVocabularyFile,
+  planVocabularyImport,
+  toVocabularyFile,
+  VOCABULARY_FORMATS,
+  VocabularyFormat,
+  VocabularyImportReport,
+} from '@/lib/export/vocabulary';
 
 // Actions for managing a store of language words
 
+/**
+ * Synthesize a word's clip unless it is already cached, then point the
+ * user's translation row at it
+ */
+async function generateWordAudio(job: WordAudioJob): Promise<void> {
+  if (!(await ttsCache.has(job.key))) {
+    const pcm = await synthesizeSpeech(wordAudioPrompt(job.word, job.example), job.language);
+    if (pcm.length === 0) {
+      throw new Error('TTS returned no audio');
+    }
+    await ttsCache.set(job.key, pcm);
+  }
+
+  await db
+    .update(translations)
+    .set({ audioUrl: ttsAudioUrl(job.key), updatedAt: new Date() })
+    .where(
+      and(
+        eq(translations.userId, job.userId),
+        eq(translations.language, job.language),
+        eq(translations.word, job.word)
+      )
+    );
+}
+
+const wordAudioQueue = new WordAudioQueue(generateWordAudio);
+
+/**
+ * Match a user's row for a word by its unique (user, language, word) key,
+ * ignoring case the way the store keys its words
+ */
+function whereWord(userId: string, language: string, word: string) {
+  return and(
+    eq(translations.userId, userId),
+    eq(translations.language, language),
+    sql`lower(${translations.word}) = ${word.toLowerCase()}`
+  );
+}
+
+function toTranslationData(row: Translation): TranslationData {
+  return {
+    word: row.word,
+    language: row.language,
+    translation: row.english,
+    phonetic: row.phonetic,
+    audioUrl: row.audioUrl,
+    usageCount: row.usageCount,
+    addedAt: row.addedAt.getTime(),
+    easeFactor: row.easeFactor,
+    interval: row.interval,
+    repetitions: row.repetitions,
+    dueAt: row.dueAt.getTime(),
+    lastReviewedAt: row.lastReviewedAt?.getTime(),
+  };
+}
+
 /**
  * Load all translations for a user's language
  */
@@ -29,44 +99,34 @@ export async function loadTranslations(language: string): Promise<Record<string,
 
   const translationsMap: Record<string, TranslationData> = {};
   results.forEach(row => {
-    translationsMap[row.word.toLowerCase()] = {
-      word: row.word,
-      language: row.language,
-      translation: row.english,
-      phonetic: row.phonetic,
-      audioUrl: row.audioUrl,
-      usageCount: row.usageCount,
-      addedAt: row.addedAt.getTime(),
-    };
+    translationsMap[row.word.toLowerCase()] = toTranslationData(row);
   });
 
   return translationsMap;
 }
 
 /**
- * Save or update translations for a language
+ * Insert or update a user's words, then queue audio for those without any
+ * unless `queueAudio` is off. Shared by saving from a chat and importing a deck.
  */
-export async function saveTranslations(
-  language: string, 
-  newTranslations: Record<string, TranslationData>
+async function upsertTranslations(
+  userId: string,
+  language: string,
+  entries: TranslationData[],
+  { queueAudio = true }: { queueAudio?: boolean } = {}
 ): Promise<void> {
-  const session = await auth();
-  if (!session?.user?.id) {
-    throw new Error('Unauthorized');
-  }
-
-  const userId = session.user.id;
   const now = new Date();
 
   // Use upsert (insert or update on conflict)
-  const values = Object.values(newTranslations).map(t => ({
-    id: `${userId}_${language}_${t.word.toLowerCase()}`,
+  const values = entries.map(t => ({
+    // Only used for new rows, existing words keep theirs on conflict
+    id: crypto.randomUUID(),
     userId,
     language,
     word: t.word,
-    translation: t.translation,
+    english: t.translation,
     phonetic: t.phonetic,
-    audioUrl: t.audioUrl,
+    audioUrl: isTTSAudioUrl(t.audioUrl) ? t.audioUrl : '',
     usageCount: t.usageCount || 0,
     addedAt: now,
     updatedAt: now,
@@ -83,10 +143,151 @@ export async function saveTranslations(
       set: {
         english: sql`excluded.english`,
         phonetic: sql`excluded.phonetic`,
-        audioUrl: sql`excluded.audio_url`,
+        // Keep generated audio when the incoming word has none
+        audioUrl: sql`coalesce(nullif(excluded.audio_url, ''), translations.audio_url)`,
         updatedAt: now,
       },
     });
+
+  if (!queueAudio) return;
+
+  // Words without real audio get it generated after the response is sent
+  const jobs = entries
+    .filter(t => !isTTSAudioUrl(t.audioUrl))
+    .map(t => ({
+      key: wordAudioKey(t.word, language, t.example),
+      userId,
+      language,
+      word: t.word,
+      example: t.example,
+    }));
+
+  if (jobs.length > 0) {
+    after(() => wordAudioQueue.enqueue(jobs));
+  }
+}
+
+/**
+ * Save or update translations for a language
+ */
+export async function saveTranslations(
+  language: string, 
+  newTranslations: Record<string, TranslationData>
+): Promise<void> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  await upsertTranslations(session.user.id, language, Object.values(newTranslations));
+}
+
+/**
+ * Export a language's words as an Anki-compatible TSV or CSV file
+ */
+export async function exportTranslations(language: string, format: VocabularyFormat = 'tsv'): Promise<string> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  if (!VOCABULARY_FORMATS.includes(format)) {
+    throw new Error(`Invalid export format: ${format}`);
+  }
+
+  const rows = await db
+    .select()
+    .from(translations)
+    .where(
+      and(
+        eq(translations.userId, session.user.id),
+        eq(translations.language, language)
+      )
+    );
+
+  // Audio links in the file have to work outside the app
+  const requestHeaders = await headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host');
+  const baseUrl = host ? `${requestHeaders.get('x-forwarded-proto') ?? 'https'}://${host}` : '';
+
+  return toVocabularyFile(rows.map(toTranslationData), format, { baseUrl });
+}
+
+/**
+ * Import a TSV/CSV deck into a language. With `dryRun` (the default) nothing
+ * is written and the report previews what the import would do.
+ */
+export async function importTranslations(
+  language: string,
+  file: string,
+  { dryRun = true }: { dryRun?: boolean } = {}
+): Promise<VocabularyImportReport> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  const userId = session.user.id;
+  const { rows, skipped } = parseVocabularyFile(file);
+
+  const existing = await db
+    .select()
+    .from(translations)
+    .where(
+      and(
+        eq(translations.userId, userId),
+        eq(translations.language, language)
+      )
+    );
+
+  const plan = planVocabularyImport(rows, existing.map(toTranslationData));
+  const report: VocabularyImportReport = {
+    dryRun,
+    new: plan.new.length,
+    updated: plan.updated.length,
+    skipped: [...skipped, ...plan.skipped].sort((a, b) => a.line - b.line),
+  };
+
+  if (!dryRun) {
+    // A deck can hold thousands of words, so their audio is generated when
+    // each one is first played or reviewed (see generateWordAudioOnDemand)
+    await upsertTranslations(userId, language, [...plan.new, ...plan.updated].map((row) => ({
+      word: row.word,
+      language,
+      translation: row.translation,
+      phonetic: row.phonetic,
+      // Our own exported links come back absolute
+      audioUrl: row.audio.replace(/^https?:\/\/[^/]+/, ''),
+    })), { queueAudio: false });
+  }
+
+  return report;
+}
+
+/**
+ * Generate a word's audio now if it has none yet, returns its audio URL
+ */
+export async function generateWordAudioOnDemand(language: string, word: string): Promise<string> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  const userId = session.user.id;
+
+  const [row] = await db
+    .select()
+    .from(translations)
+    .where(whereWord(userId, language, word));
+
+  if (!row) {
+    throw new Error(`Translation not found: ${word}`);
+  }
+  if (isTTSAudioUrl(row.audioUrl)) return row.audioUrl;
+
+  const key = wordAudioKey(row.word, language);
+  await generateWordAudio({ key, userId, language, word: row.word });
+  return ttsAudioUrl(key);
 }
 
 /**
@@ -98,15 +299,152 @@ export async function incrementUsageCount(language: string, word: string): Promi
     throw new Error('Unauthorized');
   }
 
-  const id = `${session.user.id}_${language}_${word.toLowerCase()}`;
-
   await db
     .update(translations)
     .set({
       usageCount: sql`${translations.usageCount} + 1`,
       updatedAt: new Date(),
     })
-    .where(eq(translations.id, id));
+    .where(whereWord(session.user.id, language, word));
+}
+
+/**
+ * Get the words that are due for review, most overdue first
+ */
+export async function getDueTranslations(language: string, limit: number = 20): Promise<TranslationData[]> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  const results = await db
+    .select()
+    .from(translations)
+    .where(
+      and(
+        eq(translations.userId, session.user.id),
+        eq(translations.language, language),
+        lte(translations.dueAt, new Date())
+      )
+    )
+    .orderBy(asc(translations.dueAt))
+    .limit(limit);
+
+  return results.map(toTranslationData);
+}
+
+/**
+ * Record a graded review answer and reschedule the word.
+ * Drill attempts also pass their pronunciation score and transcript.
+ */
+export async function recordReview(
+  language: string,
+  word: string,
+  grade: ReviewGrade,
+  attempt: ReviewAttempt = {}
+): Promise<TranslationData> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  if (!isReviewGrade(grade)) {
+    throw new Error(`Invalid review grade: ${grade}`);
+  }
+
+  const userId = session.user.id;
+
+  return await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(translations)
+      .where(whereWord(userId, language, word));
+
+    if (!row) {
+      throw new Error(`Translation not found: ${word}`);
+    }
+
+    const now = Date.now();
+    const next = scheduleReview(
+      {
+        easeFactor: row.easeFactor,
+        interval: row.interval,
+        repetitions: row.repetitions,
+        dueAt: row.dueAt.getTime(),
+      },
+      grade,
+      now
+    );
+
+    const [updated] = await tx
+      .update(translations)
+      .set({
+        easeFactor: next.easeFactor,
+        interval: next.interval,
+        repetitions: next.repetitions,
+        dueAt: new Date(next.dueAt),
+        lastReviewedAt: new Date(now),
+        updatedAt: new Date(now),
+      })
+      .where(eq(translations.id, row.id))
+      .returning();
+
+    await tx.insert(translationReviews).values({
+      translationId: row.id,
+      userId,
+      grade,
+      source: attempt.source ?? 'flashcard',
+      score: attempt.score,
+      transcript: attempt.transcript,
+      easeFactor: next.easeFactor,
+      interval: next.interval,
+      reviewedAt: new Date(now),
+    });
+
+    return toTranslationData(updated);
+  });
+}
+
+/**
+ * Add an attempt to a word's review history without rescheduling it, for
+ * drill retries after the word has been graded
+ */
+export async function recordAttempt(
+  language: string,
+  word: string,
+  grade: ReviewGrade,
+  attempt: ReviewAttempt = {}
+): Promise<void> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error('Unauthorized');
+  }
+
+  if (!isReviewGrade(grade)) {
+    throw new Error(`Invalid review grade: ${grade}`);
+  }
+
+  const userId = session.user.id;
+
+  const [row] = await db
+    .select()
+    .from(translations)
+    .where(whereWord(userId, language, word));
+
+  if (!row) {
+    throw new Error(`Translation not found: ${word}`);
+  }
+
+  await db.insert(translationReviews).values({
+    translationId: row.id,
+    userId,
+    grade,
+    source: attempt.source ?? 'flashcard',
+    score: attempt.score,
+    transcript: attempt.transcript,
+    easeFactor: row.easeFactor,
+    interval: row.interval,
+  });
 }
 
 /**
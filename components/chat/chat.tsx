@@ -10,13 +10,17 @@ import React, {
 } from "react";
 import { toast } from "sonner";
 import {
-  buildUIMessage, generateMessageId, getSSEUrls, TranslationData, UIMessage
+  buildUIMessage, CefrLevel, generateMessageId, getLanguageLocale, getSSEUrls, LanguageName, parseTranslations, UIMessage
 } from "@/lib/utils";
+import { setChatLanguage } from "@/app/actions/chat";
+import { parseCorrections } from "@/lib/corrections";
+import { heardText } from "@/lib/audio/tts-text";
+import { toPCM16 } from "@/lib/audio/audio-frames";
 import { useAudioManager } from "@/hooks/use-audio-manager";
 import { SSEClient } from "@/lib/sse-client";
 import { Message } from "./message";
 import { MultimodalInput } from "./multimodal-input";
-import { AudioDebugger, AudioFormat, TTSDebugLogger } from "@/shared/audio/audio-helpers";
+import { AudioConverter, AudioDebugger, TTSDebugLogger } from "@/shared/audio/audio-helpers";
 
 /**
  * Performance/memo improvements & scroll-to-bottom bugfix rationale:
@@ -36,6 +40,8 @@ type State = {
   error: string;
   isLoading: boolean;
   attachments: Array<any>;
+  language: LanguageName | null;
+  level: CefrLevel | null;
 };
 type Actions =
   | { type: 'setMessages', payload: UIMessage[] }
@@ -45,12 +51,16 @@ type Actions =
   | { type: 'setIsConnected', payload: boolean }
   | { type: 'setError', payload: string }
   | { type: 'setIsLoading', payload: boolean }
-  | { type: 'setAttachments', payload: any[] };
+  | { type: 'setAttachments', payload: any[] }
+  | { type: 'setLanguage', payload: { language: LanguageName; level: CefrLevel | null } };
 
 function stateReducer(state: State, action: Actions): State {
   switch (action.type) {
     case 'setMessages': return { ...state, messages: action.payload };
-    case 'addMessage': return { ...state, messages: [...state.messages, action.payload] };
+    // A message that is already there is kept, so streams can add theirs on every chunk
+    case 'addMessage':
+      if (state.messages.some((m) => m.id === action.payload.id)) return state;
+      return { ...state, messages: [...state.messages, action.payload] };
     case 'updateMessage':
       return {
         ...state,
@@ -63,6 +73,7 @@ function stateReducer(state: State, action: Actions): State {
     case 'setError': return { ...state, error: action.payload };
     case 'setIsLoading': return { ...state, isLoading: action.payload };
     case 'setAttachments': return { ...state, attachments: action.payload };
+    case 'setLanguage': return { ...state, language: action.payload.language, level: action.payload.level };
     default: return state;
   }
 }
@@ -118,9 +129,13 @@ const MessageList = memo(function MessageList({
 export function Chat({
   id,
   initialMessages,
+  initialLanguage = null,
+  initialLevel = null,
 }: {
   id: string;
   initialMessages: Array<UIMessage>;
+  initialLanguage?: LanguageName | null;
+  initialLevel?: CefrLevel | null;
 }) {
   const [state, dispatch] = useReducer(stateReducer, {
     messages: initialMessages,
@@ -129,6 +144,8 @@ export function Chat({
     error: '',
     isLoading: false,
     attachments: [],
+    language: initialLanguage,
+    level: initialLevel,
   });
 
   const messagesContainerRef = useRef<HTMLDivElement | null>(null);
@@ -172,11 +189,13 @@ export function Chat({
     isListening,
     isPlaying,
     currentlyPlayingMessageId,
-    enqueueAudioChunk,
+    enqueueAudioSamples,
+    markSegmentComplete,
     markRequestComplete,
     playMessageAudio,
     playAudioDirect,
     stopPlayback,
+    interruptPlayback,
     stopRequest,
     startListening,
     stopListening,
@@ -185,10 +204,16 @@ export function Chat({
     setTranscript,
     interimTranscript,
     setInterimTranscript,
+    isUserSpeaking,
+    conversationState,
+    startConversation,
+    stopConversation,
+    sendConversationEvent,
     playFallbackSpeech,
     getQueueStats,
     setAllowConcurrentRequests,
     setInterimResultDelay,
+    setRecognitionLanguage,
   } = useAudioManager();
 
   // Stable callbacks
@@ -220,12 +245,40 @@ export function Chat({
     };
   }, []);
 
+  // Listen for the chat's target language instead of the browser default
   useEffect(() => {
-    if (isPlaying && isListening && interimTranscript) {
-      console.info('User input detected. Interrupting audio playback.')
-      stopPlayback();
+    const locale = getLanguageLocale(state.language);
+    if (locale) setRecognitionLanguage(locale);
+  }, [state.language, setRecognitionLanguage]);
+
+  // The reply being generated and spoken, and the sentences sent to TTS so far
+  const activeReplyRef = useRef<{ requestId: string; messageId: string; sentences: string[] } | null>(null);
+
+  // Barge-in: the learner starting to speak cuts the tutor off, without waiting for a transcript.
+  // The rest of the reply is never generated, and the message remembers what was heard.
+  const interruptReply = useCallback(() => {
+    const interruption = interruptPlayback();
+    const reply = activeReplyRef.current;
+    if (!reply || !interruption || interruption.messageId !== reply.messageId) return;
+
+    activeReplyRef.current = null;
+    clientRef.current?.cancelRequest(reply.requestId);
+    dispatch({ type: 'setIsLoading', payload: false });
+
+    const heardContent = heardText(reply.sentences, interruption.segmentIndex, interruption.fraction, state.language);
+    dispatch({
+      type: 'updateMessage',
+      id: reply.messageId,
+      updater: (msg: UIMessage) => ({ ...msg, heardContent }),
+    });
+  }, [interruptPlayback, state.language]);
+
+  useEffect(() => {
+    if (isPlaying && isListening && isUserSpeaking) {
+      console.info('User speech detected. Interrupting the reply.')
+      interruptReply();
     }
-  }, [isPlaying, isListening, interimTranscript, stopPlayback]);
+  }, [isPlaying, isListening, isUserSpeaking, interruptReply]);
 
   const handleSubmitMessageRef = useRef<any>();
   useEffect(() => { handleSubmitMessageRef.current = handleSubmitMessage; });
@@ -239,8 +292,14 @@ export function Chat({
     dispatch({ type: 'setIsLoading', payload: false });
     stopListening();
     stopPlayback();
-    stopRequest(currentlyPlayingMessageId!);
-  }, [stopListening, stopPlayback, stopRequest, currentlyPlayingMessageId]);
+    // Audio is queued under the chat request, stop generating it too
+    const reply = activeReplyRef.current;
+    if (reply) {
+      clientRef.current?.cancelRequest(reply.requestId);
+      stopRequest(reply.requestId);
+      activeReplyRef.current = null;
+    }
+  }, [stopListening, stopPlayback, stopRequest]);
 
   const handleSubmitMessage = useCallback(async (text: string, isAudio = false) => {
     if (!text.trim() || state.isLoading || !clientRef.current?.isConnected) return;
@@ -256,70 +315,61 @@ export function Chat({
     dispatch({ type: 'setIsLoading', payload: true });
     setAllowConcurrentRequests(true);
 
-    try {
-      const chatRequestId = clientRef.current.sendChatMessage(updatedMessages, {
-        onStreamStart: (message) => {
-          TTSDebugLogger.startSession(message.requestId, assistantMessageId); // Use message.requestId for session
-          TTSDebugLogger.logStage(message.requestId, 'Chat stream started', { requestId: message.requestId });
-        },
+    // The server generates the reply, cuts it into sentences and speaks each
+    // one on the same stream. Sentence indices are the audio queue's segment
+    // indices, so sentences play in order.
+    // Samples per sentence, joined into the message's replayable audio at the end
+    const segmentAudio: Float32Array[][] = [];
+    const spokenSentences: string[] = [];
+    let turnRequestId = '';
+
+    const finishSpokenReply = () => {
+      markRequestComplete(turnRequestId);
+      TTSDebugLogger.logStage(turnRequestId, 'Marked request complete in audio queue');
+
+      const chunks = segmentAudio.flatMap((segment) => (segment ?? []).filter(Boolean));
+      if (chunks.length > 0) {
+        const audioData = AudioConverter.uint8ArrayToBase64(toPCM16(chunks));
+        dispatch({
+          type: 'updateMessage',
+          id: assistantMessageId,
+          updater: (msg: UIMessage) =>
+            ({ ...msg, audioData }),
+        });
+      }
+      TTSDebugLogger.printSummary(turnRequestId);
+      AudioDebugger.printSummary();
+      AudioDebugger.clearLogs();
+      TTSDebugLogger.clearSession(turnRequestId);
+    };
 
-        onChunk: async (requestId, textChunk, chunkIndex) => {
-          TTSDebugLogger.updateSession(chatRequestId, {
+    try {
+      turnRequestId = clientRef.current.sendTurn(updatedMessages, {
+        onTextDelta: (requestId, textChunk, chunkIndex) => {
+          TTSDebugLogger.updateSession(turnRequestId, {
             textChunksReceived: chunkIndex + 1
           });
-          TTSDebugLogger.logStage(chatRequestId, `Text chunk ${chunkIndex} received`, {
+          TTSDebugLogger.logStage(turnRequestId, `Text chunk ${chunkIndex} received`, {
             length: textChunk.length,
             preview: textChunk.substring(0, 50)
           });
 
           dispatch({ type: 'setIsLoading', payload: true });
+          dispatch({ type: 'addMessage', payload: buildUIMessage({ id: assistantMessageId, role: 'assistant', content: '' }) });
           dispatch({
             type: 'updateMessage',
             id: assistantMessageId,
             updater: (msg: UIMessage) =>
               ({ ...msg, content: (msg.content ?? '') + textChunk }),
           });
-          if (!state.messages.some(m => m.id === assistantMessageId)) {
-            dispatch({ type: 'addMessage', payload: buildUIMessage({ id: assistantMessageId, role: 'assistant', content: textChunk }) });
-          }
         },
 
-        onComplete: (fullResponse, message) => {
-          TTSDebugLogger.logStage(chatRequestId, 'Text generation complete', {
-            fullResponseLength: fullResponse.length,
-            preview: fullResponse.substring(0, 100),
-            message: message
-          });
-
-          let { metadata } = message;
-          let { rating, difficulty, translations } = metadata;
-
-          if (typeof translations === 'string' && translations.trim().length > 0) {
-            try {
-              const parsedTranslations = JSON.parse(translations);
-              if (
-                parsedTranslations &&
-                typeof parsedTranslations === 'object' &&
-                !Array.isArray(parsedTranslations) &&
-                Object.keys(parsedTranslations).length > 0
-              ) {
-                translations = parsedTranslations as TranslationData;
-              } else {
-                translations = undefined;
-              }
-            } catch {
-              translations = undefined;
-            }
-          } else if (
-            !translations ||
-            typeof translations !== 'object' ||
-            Array.isArray(translations) ||
-            Object.keys(translations).length === 0
-          ) {
-            translations = undefined;
-          }
+        // Feedback on the user's message arrives before the reply text
+        onMeta: (metadata) => {
+          const { rating } = metadata;
+          const corrections = parseCorrections(metadata.corrections);
 
-          if (!Number.isNaN(rating)) {
+          if (typeof rating === 'number' && !Number.isNaN(rating)) {
             dispatch({
               type: 'updateMessage',
               id: userMessageId,
@@ -328,202 +378,108 @@ export function Chat({
             });
           }
 
-          setTranscript('');
-          dispatch({ type: 'setIsLoading', payload: false });
-
-          TTSDebugLogger.logStage(chatRequestId, 'Sending TTS request');
-          // The SSEClient's sendTTSRequest returns the requestId it generates internally
-          const ttsRequestId = clientRef.current?.sendTTSRequest(
-            fullResponse,
-            0,
-            chatRequestId, // parentRequestId
-            { // Pass callbacks directly for TTS
-              onTTSStreamStart(message) {
-                TTSDebugLogger.logStage(chatRequestId, 'TTS stream started', message);
-              },
-              onTTSChunk(parentRequestId, audioChunk, audioChunkIndex) {
-                TTSDebugLogger.updateSession(chatRequestId, {
-                  audioChunksReceived: audioChunkIndex + 1
-                });
-                console.group(`📥 TTS Chunk ${audioChunkIndex}`);
-                TTSDebugLogger.logStage(chatRequestId, `Audio chunk ${audioChunkIndex} received`, {
-                  requestId: parentRequestId, // Use parentRequestId for logging context
-                  base64Length: audioChunk?.length,
-                  chunkIndex: audioChunkIndex
-                });
-
-                try {
-                  if (!AudioDebugger.validate(audioChunk, AudioFormat.BASE64_STRING)) {
-                    throw new Error('Invalid base64 audio data');
-                  }
-                  AudioDebugger.log('Raw audio chunk', audioChunk, AudioFormat.BASE64_STRING, {
-                    chunkIndex: audioChunkIndex,
-                    requestId: parentRequestId // Use parentRequestId for logging context
-                  });
-                  enqueueAudioChunk(
-                    parentRequestId, // Use parentRequestId for enqueueing
-                    audioChunkIndex,
-                    audioChunk,
-                    assistantMessageId
-                  );
-                  TTSDebugLogger.logStage(chatRequestId, `Enqueued chunk ${audioChunkIndex} for playback`);
-                  console.groupEnd();
-                } catch (error: any) {
-                  TTSDebugLogger.logError(chatRequestId, `Chunk ${audioChunkIndex} processing failed: ${error.message}`, {
-                    audioChunkIndex,
-                    error: error.stack
-                  });
-                  console.groupEnd();
-                  AudioDebugger.printSummary();
-                }
-              },
-              onTTSComplete(parentRequestId, fullAudio, totalChunks) {
-                TTSDebugLogger.logStage(chatRequestId, 'TTS generation complete', {
-                  requestId: parentRequestId, // Use parentRequestId for logging context
-                  totalChunks,
-                  fullAudioLength: fullAudio?.length
-                });
-                console.group(`✅ TTS Complete`);
-                try {
-                  markRequestComplete(chatRequestId);
-                  TTSDebugLogger.logStage(chatRequestId, 'Marked request complete in audio queue');
-                  dispatch({
-                    type: 'updateMessage',
-                    id: assistantMessageId,
-                    updater: (msg: UIMessage) =>
-                      ({ ...msg, audioData: fullAudio }),
-                  });
-                  TTSDebugLogger.printSummary(chatRequestId);
-                  AudioDebugger.printSummary();
-                  AudioDebugger.clearLogs();
-                  TTSDebugLogger.clearSession(chatRequestId);
-                  console.groupEnd();
-                } catch (error: any) {
-                  TTSDebugLogger.logError(chatRequestId, `TTS complete processing failed: ${error.message}`, {
-                    error: error.stack
-                  });
-                  console.groupEnd();
-                }
-              },
-              onError: (errorMsg) => {
-                TTSDebugLogger.logError(chatRequestId, errorMsg);
-                TTSDebugLogger.printSummary(chatRequestId);
-                AudioDebugger.printSummary();
-                dispatch({ type: 'setError', payload: errorMsg });
-                dispatch({ type: 'setIsLoading', payload: false });
-                setTranscript('');
-                toast.error(errorMsg);
-              }
-            }
-          );
-          // The SSEClient's sendTTSRequest returns the requestId it generates internally,
-          // but we need to update the session with the parentRequestId for consistency.
-          TTSDebugLogger.updateSession(chatRequestId, { ttsRequestId });
-
-          dispatch({
-            type: 'updateMessage',
-            id: assistantMessageId,
-            updater: (msg: UIMessage) =>
-              ({ ...msg, content: fullResponse, translations }),
-          });
-        },
-
-        onTTSStreamStart(message) {
-          TTSDebugLogger.logStage(chatRequestId, 'TTS stream started', message);
+          if (corrections) {
+            dispatch({
+              type: 'updateMessage',
+              id: userMessageId,
+              updater: (msg: UIMessage) =>
+                ({ ...msg, corrections }),
+            });
+          }
         },
 
-        onTTSChunk(requestId, audioChunk, audioChunkIndex) {
-          TTSDebugLogger.updateSession(chatRequestId, {
-            audioChunksReceived: audioChunkIndex + 1
+        onSentenceStart: (sentenceIndex, sentence) => {
+          spokenSentences[sentenceIndex] = sentence;
+          segmentAudio[sentenceIndex] = [];
+          TTSDebugLogger.logStage(turnRequestId, `Speaking sentence ${sentenceIndex}`, {
+            preview: sentence.substring(0, 50)
           });
+        },
 
-          console.group(`📥 TTS Chunk ${audioChunkIndex}`);
-          TTSDebugLogger.logStage(chatRequestId, `Audio chunk ${audioChunkIndex} received`, {
+        onAudioFrame: (requestId, samples, audioChunkIndex, sentenceIndex, sampleRate) => {
+          TTSDebugLogger.logStage(turnRequestId, `Audio frame ${sentenceIndex}.${audioChunkIndex} received`, {
             requestId,
-            base64Length: audioChunk?.length,
+            samples: samples.length,
             chunkIndex: audioChunkIndex
           });
 
-          try {
-            if (!AudioDebugger.validate(audioChunk, AudioFormat.BASE64_STRING)) {
-              throw new Error('Invalid base64 audio data');
-            }
-
-            AudioDebugger.log('Raw audio chunk', audioChunk, AudioFormat.BASE64_STRING, {
-              chunkIndex: audioChunkIndex,
-              requestId
-            });
-
-            enqueueAudioChunk(
-              requestId,
-              audioChunkIndex,
-              audioChunk,
-              assistantMessageId
-            );
-
-            TTSDebugLogger.logStage(chatRequestId, `Enqueued chunk ${audioChunkIndex} for playback`);
-            console.groupEnd();
-          } catch (error: any) {
-            TTSDebugLogger.logError(chatRequestId, `Chunk ${audioChunkIndex} processing failed: ${error.message}`, {
+          segmentAudio[sentenceIndex][audioChunkIndex] = samples;
+          enqueueAudioSamples(
+            requestId,
+            audioChunkIndex,
+            samples,
+            sampleRate,
+            assistantMessageId,
+            sentenceIndex
+          ).then(() => {
+            TTSDebugLogger.logStage(turnRequestId, `Enqueued frame ${sentenceIndex}.${audioChunkIndex} for playback`);
+          }).catch((error: any) => {
+            TTSDebugLogger.logError(turnRequestId, `Frame ${sentenceIndex}.${audioChunkIndex} processing failed: ${error.message}`, {
               audioChunkIndex,
               error: error.stack
             });
-            console.groupEnd();
-            AudioDebugger.printSummary();
+          });
+        },
+
+        onSentenceComplete: (sentenceIndex, totalChunks, message) => {
+          if (message.error) {
+            // The server skipped the sentence, the ones after it still play
+            TTSDebugLogger.logError(turnRequestId, `Sentence ${sentenceIndex}: ${message.error}`);
+            toast.error(message.error);
+          } else {
+            TTSDebugLogger.logStage(turnRequestId, `TTS generation complete for sentence ${sentenceIndex}`, { totalChunks });
           }
+          markSegmentComplete(turnRequestId, sentenceIndex, totalChunks, assistantMessageId);
         },
 
-        onTTSComplete(requestId, fullAudio, totalChunks) {
-          TTSDebugLogger.logStage(chatRequestId, 'TTS generation complete', {
-            requestId,
-            totalChunks,
-            fullAudioLength: fullAudio?.length
+        onTurnComplete: (fullResponse, message) => {
+          TTSDebugLogger.logStage(turnRequestId, 'Turn complete', {
+            fullResponseLength: fullResponse.length,
+            preview: fullResponse.substring(0, 100),
+            totalSentences: message.totalSentences
           });
 
-          console.group(`✅ TTS Complete`);
-
-          try {
-            markRequestComplete(chatRequestId);
-            TTSDebugLogger.logStage(chatRequestId, 'Marked request complete in audio queue');
-
-            dispatch({
-              type: 'updateMessage',
-              id: assistantMessageId,
-              updater: (msg: UIMessage) =>
-                ({ ...msg, audioData: fullAudio }),
-            });
+          const { difficulty } = message.metadata;
+          const translations = parseTranslations(message.metadata.translations);
 
-            TTSDebugLogger.printSummary(chatRequestId);
-            AudioDebugger.printSummary();
-            AudioDebugger.clearLogs();
-            TTSDebugLogger.clearSession(chatRequestId);
+          setTranscript('');
+          dispatch({ type: 'setIsLoading', payload: false });
+          finishSpokenReply();
 
-            console.groupEnd();
-          } catch (error: any) {
-            TTSDebugLogger.logError(chatRequestId, `TTS complete processing failed: ${error.message}`, {
-              error: error.stack
-            });
-            console.groupEnd();
-          }
+          dispatch({
+            type: 'updateMessage',
+            id: assistantMessageId,
+            updater: (msg: UIMessage) =>
+              ({
+                ...msg,
+                content: fullResponse,
+                translations,
+                difficulty: typeof difficulty === 'number' ? difficulty : undefined,
+              }),
+          });
         },
+
         onError: (errorMsg) => {
-          TTSDebugLogger.logError(chatRequestId, errorMsg);
-          TTSDebugLogger.printSummary(chatRequestId);
+          TTSDebugLogger.logError(turnRequestId, errorMsg);
+          TTSDebugLogger.printSummary(turnRequestId);
           AudioDebugger.printSummary();
 
           dispatch({ type: 'setError', payload: errorMsg });
           dispatch({ type: 'setIsLoading', payload: false });
           setTranscript('');
+          sendConversationEvent('reply-failed');
 
           toast.error(errorMsg);
         }
-      });
+      }, { chatId: id, assistantMessageId, language: state.language, level: state.level, transport: 'frames' });
+      TTSDebugLogger.startSession(turnRequestId, assistantMessageId);
+      activeReplyRef.current = { requestId: turnRequestId, messageId: assistantMessageId, sentences: spokenSentences };
     } catch (err: any) {
       console.error('Submit message error:', err);
       dispatch({ type: 'setError', payload: err.message || 'Failed to send message' });
       dispatch({ type: 'setIsLoading', payload: false });
     }
-  }, [enqueueAudioChunk, markRequestComplete, setTranscript, setAllowConcurrentRequests, state.messages, state.isLoading]);
+  }, [id, enqueueAudioSamples, markSegmentComplete, markRequestComplete, setTranscript, setAllowConcurrentRequests, sendConversationEvent, state.messages, state.isLoading, state.language, state.level]);
 
   const handleStartListening = useCallback(() => {
     try {
@@ -538,8 +494,23 @@ export function Chat({
     stopListening();
   }, [stopListening]);
 
-  const launchLanguageConversation = useCallback((language: string) => {
+  const toggleConversation = useCallback(() => {
+    if (conversationState === 'idle' || conversationState === 'paused') {
+      startConversation();
+    } else {
+      stopConversation();
+    }
+  }, [conversationState, startConversation, stopConversation]);
+
+  const launchLanguageConversation = useCallback((language: string, level: CefrLevel | null = null) => {
     try {
+      const languageName = language.toLowerCase() as LanguageName;
+      dispatch({ type: 'setLanguage', payload: { language: languageName, level } });
+      setChatLanguage(id, languageName, level).catch((error) => {
+        // Signed-out users can still chat, the language just isn't saved
+        console.warn('Failed to save chat language:', error);
+      });
+
       const assistantMessageId = generateMessageId();
       const content = "Hi, I'm Chatter! What would you like to discuss in " + language + "?";
 
@@ -563,43 +534,30 @@ export function Chat({
             TTSDebugLogger.logStage(chatRequestId, 'TTS stream started', message);
           },
 
-          onTTSChunk(requestId, audioChunk, audioChunkIndex) {
+          onTTSFrame(requestId, samples, audioChunkIndex, _segmentIndex, sampleRate) {
             TTSDebugLogger.updateSession(chatRequestId, {
               audioChunksReceived: audioChunkIndex + 1
             });
-            TTSDebugLogger.logStage(chatRequestId, `Audio chunk ${audioChunkIndex} received`, {
+            TTSDebugLogger.logStage(chatRequestId, `Audio frame ${audioChunkIndex} received`, {
               requestId,
-              base64Length: audioChunk?.length,
+              samples: samples.length,
               chunkIndex: audioChunkIndex
             });
 
-            try {
-              if (!AudioDebugger.validate(audioChunk, AudioFormat.BASE64_STRING)) {
-                throw new Error('Invalid base64 audio data');
-              }
-
-              AudioDebugger.log('Raw audio chunk', audioChunk, AudioFormat.BASE64_STRING, {
-                chunkIndex: audioChunkIndex,
-                requestId
-              });
-
-              enqueueAudioChunk(
-                chatRequestId,
-                audioChunkIndex,
-                audioChunk,
-                assistantMessageId
-              );
-
-              TTSDebugLogger.logStage(chatRequestId, `Enqueued chunk ${audioChunkIndex} for playback`);
-              console.groupEnd();
-            } catch (error: any) {
-              TTSDebugLogger.logError(chatRequestId, `Chunk ${audioChunkIndex} processing failed: ${error.message}`, {
+            enqueueAudioSamples(
+              chatRequestId,
+              audioChunkIndex,
+              samples,
+              sampleRate,
+              assistantMessageId
+            ).then(() => {
+              TTSDebugLogger.logStage(chatRequestId, `Enqueued frame ${audioChunkIndex} for playback`);
+            }).catch((error: any) => {
+              TTSDebugLogger.logError(chatRequestId, `Frame ${audioChunkIndex} processing failed: ${error.message}`, {
                 audioChunkIndex,
                 error: error.stack
               });
-              console.groupEnd();
-              AudioDebugger.printSummary();
-            }
+            });
           },
 
           onTTSComplete(requestId, fullAudio, totalChunks) {
@@ -644,14 +602,15 @@ export function Chat({
             dispatch({ type: 'setIsLoading', payload: false });
             setTranscript('');
           }
-        }
+        },
+        { language: languageName, transport: 'frames' }
       );
     } catch (err: any) {
       console.error('Launch language conversation error:', err);
       dispatch({ type: 'setError', payload: err.message || 'Failed to launch language conversation' });
       dispatch({ type: 'setIsLoading', payload: false });
     }
-  }, [markRequestComplete, enqueueAudioChunk, setTranscript, setAllowConcurrentRequests]);
+  }, [id, markRequestComplete, enqueueAudioSamples, setTranscript, setAllowConcurrentRequests]);
 
   // ----- Memoized input, interim, loading, overview -----
   const renderedInterimTranscript = React.useMemo(() => (
@@ -702,11 +661,14 @@ export function Chat({
       handleStopListening={handleStopListening}
       interimTranscript={interimTranscript}
       isPlaying={isPlaying}
+      conversationState={conversationState}
+      toggleConversation={toggleConversation}
     />
   ), [
     state.input, setInput, state.isLoading, stop, state.attachments,
     setAttachments, state.messages, handleSubmitMessage,
-    isListening, handleStartListening, handleStopListening, interimTranscript, isPlaying
+    isListening, handleStartListening, handleStopListening, interimTranscript, isPlaying,
+    conversationState, toggleConversation
   ]);
 
   return (
@@ -0,0 +1,45 @@
+import { HeadphonesIcon } from "lucide-react";
+import { Button } from "../ui/button";
+import { cn } from "@/lib/utils";
+import { ConversationState } from "@/lib/audio/conversation-state";
+
+const LABELS: Record<ConversationState, string> = {
+  idle: "Hands-free",
+  listening: "Listening...",
+  thinking: "Thinking...",
+  speaking: "Speaking...",
+  paused: "Paused, tap to resume",
+};
+
+const DOTS: Record<ConversationState, string> = {
+  idle: "",
+  listening: "bg-red-500 animate-pulse",
+  thinking: "bg-amber-500 animate-pulse",
+  speaking: "bg-blue-500",
+  paused: "bg-gray-400",
+};
+
+// Turns hands-free conversation on and off, and shows whose turn it is
+export const ConversationIndicator = ({
+  state,
+  onToggle,
+}: {
+  state: ConversationState;
+  onToggle: () => void;
+}) => (
+  <Button
+    type="button"
+    variant={state === "idle" || state === "paused" ? "outline" : "default"}
+    onClick={onToggle}
+    className="gap-2"
+    aria-live="polite"
+    title={state === "idle" ? "Talk without pressing the microphone button" : "Stop hands-free conversation"}
+  >
+    {state === "idle" ? (
+      <HeadphonesIcon size={16} />
+    ) : (
+      <span className={cn("w-2 h-2 rounded-full", DOTS[state])} />
+    )}
+    {LABELS[state]}
+  </Button>
+);
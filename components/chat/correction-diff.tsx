@@ -0,0 +1,61 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import { buildCorrectionDiff, Correction } from "@/lib/corrections";
+
+interface CorrectionDiffProps {
+  text: string;
+  corrections: Correction[];
+}
+
+// Inline strike/insert view of a corrected user message, explanations listed below
+export const CorrectionDiff = memo(function CorrectionDiff({
+  text,
+  corrections,
+}: CorrectionDiffProps) {
+  const segments = useMemo(
+    () => buildCorrectionDiff(text, corrections),
+    [text, corrections]
+  );
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <p className="whitespace-pre-line">
+        {segments.map((segment, index) => {
+          if (segment.type === "removed") {
+            return (
+              <del
+                key={index}
+                className="line-through decoration-2 decoration-red-300 text-blue-100"
+                title={segment.correction.explanation}
+              >
+                {segment.text}
+              </del>
+            );
+          }
+          if (segment.type === "added") {
+            return (
+              <ins
+                key={index}
+                className="no-underline rounded bg-green-500/60 px-0.5 mx-0.5"
+                title={segment.correction.explanation}
+              >
+                {segment.text}
+              </ins>
+            );
+          }
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </p>
+
+      <ul className="flex flex-col gap-1 text-xs text-blue-100">
+        {corrections.map((correction, index) => (
+          <li key={index}>
+            <span className="uppercase tracking-wide opacity-70 mr-1">{correction.category}</span>
+            {correction.explanation}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
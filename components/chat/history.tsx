@@ -9,6 +9,8 @@ import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import useSWR from "swr";
 
+import { DownloadIcon } from "lucide-react";
+
 import { Chat } from "@/db/schema";
 import { fetcher, getTitleFromChat } from "@/lib/utils";
 
@@ -210,6 +212,24 @@ export const History = ({ user }: { user: User | undefined }) => {
                             <div>Delete</div>
                           </Button>
                         </DropdownMenuItem>
+                        {[
+                          { label: "Export audio", path: "audio" },
+                          { label: "Export audio with my turns", path: "audio?userTurns=true" },
+                          { label: "Export chapter markers", path: "audio?markers=vtt" },
+                          { label: "Export subtitles (SRT)", path: "transcript?format=srt" },
+                          { label: "Export bilingual transcript", path: "transcript?format=html" },
+                        ].map(({ label, path }) => (
+                          <DropdownMenuItem key={label} asChild>
+                            <a
+                              className="flex flex-row gap-2 items-center justify-start w-full h-fit font-normal p-1.5 rounded-sm text-sm cursor-pointer"
+                              href={`/api/chat/${chat.id}/${path}`}
+                              download
+                            >
+                              <DownloadIcon size={14} />
+                              <div>{label}</div>
+                            </a>
+                          </DropdownMenuItem>
+                        ))}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -4,12 +4,14 @@ import { motion } from "framer-motion";
 import { BotIcon, UserIcon } from "../custom/icons";
 import { Markdown } from "../custom/markdown";
 import { PreviewAttachment } from "./preview-attachment";
-import { PlayIcon, Volume2Icon } from "lucide-react";
+import { DownloadIcon, PlayIcon, Volume2Icon } from "lucide-react";
 import { Button } from "../ui/button";
 import { UIMessage } from "@/lib/utils";
 import Translation from "../language/translation";
 import { useState, memo, useCallback } from "react";
 import { LanguageRating } from "./language-rating";
+import { CorrectionDiff } from "./correction-diff";
+import { AudioConverter } from "@/shared/audio/audio-helpers";
 
 // Memoized attachment preview list for performance
 const MemoizedPreviewAttachmentList = memo(function MemoizedPreviewAttachmentList({
@@ -84,6 +86,30 @@ const MessageComponent: React.FC<MessageComponentProps> = ({
     setTimeout(() => setScrollY(y), 0);
   };
 
+  // Audio played in this session is saved straight from memory, older
+  // messages are rebuilt by the server from the TTS cache
+  const handleDownloadAudioClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const link = document.createElement("a");
+    const filename = `message-${message.id}.wav`;
+    let objectUrl: string | null = null;
+
+    if (message.audioData) {
+      const pcm = AudioConverter.base64ToUint8Array(message.audioData);
+      const wav = AudioConverter.pcm16ToWav(pcm, 24000);
+      objectUrl = URL.createObjectURL(new Blob([wav as BlobPart], { type: "audio/wav" }));
+      link.href = objectUrl;
+    } else {
+      link.href = `/api/chat/${chatId}/messages/${encodeURIComponent(message.id)}/audio`;
+    }
+
+    link.download = filename;
+    link.click();
+    if (objectUrl) setTimeout(() => URL.revokeObjectURL(objectUrl!), 0);
+  };
+
   return (
     <motion.div
       className="max-w-2xl w-full md:px-0 px-4 first-of-type:pt-20 flex justify-start"
@@ -113,33 +139,59 @@ const MessageComponent: React.FC<MessageComponentProps> = ({
           >
             {message.role === "assistant" ? <BotIcon /> : <UserIcon />}
           </span>
-          <Markdown
-            selectedWord={selectedWord}
-            translations={message.translations}
-            onWordClick={(word: string, e?: React.MouseEvent) =>
-              handleWordClick(word, e)
-            }
-          >
-            {message.content}
-          </Markdown>
+          {message.role === "user" && message.corrections?.length ? (
+            <CorrectionDiff
+              text={message.content}
+              corrections={message.corrections}
+            />
+          ) : (
+            <Markdown
+              selectedWord={selectedWord}
+              translations={message.translations}
+              onWordClick={(word: string, e?: React.MouseEvent) =>
+                handleWordClick(word, e)
+              }
+            >
+              {message.content}
+            </Markdown>
+          )}
         </div>
 
-        {message.role === "assistant" && message.audioData && (
+        {message.role === "assistant" && (
           <div className="flex justify-end items-center gap-2 mt-2">
+            {message.heardContent !== undefined && (
+              <span className="mr-auto text-xs text-zinc-500" title={`Heard: ${message.heardContent}`}>
+                Interrupted
+              </span>
+            )}
+            {message.audioData && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handlePlayAudioClick}
+                disabled={isPlayAudioDisabled}
+                className="text-xs"
+                tabIndex={0}
+                type="button"
+              >
+                {isCurrentlyPlaying ? (
+                  <Volume2Icon size={14} />
+                ) : (
+                  <PlayIcon size={14} />
+                )}
+              </Button>
+            )}
             <Button
               size="sm"
               variant="outline"
-              onClick={handlePlayAudioClick}
-              disabled={isPlayAudioDisabled}
+              onClick={handleDownloadAudioClick}
               className="text-xs"
               tabIndex={0}
               type="button"
+              aria-label="Download audio"
+              title="Download audio"
             >
-              {isCurrentlyPlaying ? (
-                <Volume2Icon size={14} />
-              ) : (
-                <PlayIcon size={14} />
-              )}
+              <DownloadIcon size={14} />
             </Button>
           </div>
         )}
@@ -19,6 +19,8 @@ import { Button } from "../ui/button";
 import { Textarea } from "../ui/textarea";
 import { SuggestedActions } from "./suggested-actions";
 import { VoiceInputButton } from "./voice-input-button";
+import { ConversationIndicator } from "./conversation-indicator";
+import { ConversationState } from "@/lib/audio/conversation-state";
 
 // Pure memoized component for VoiceInput and Submit button area
 const PureMemoizedControls = memo(function PureMemoizedControls({
@@ -32,6 +34,8 @@ const PureMemoizedControls = memo(function PureMemoizedControls({
   stop,
   submitForm,
   uploadQueue,
+  conversationState,
+  toggleConversation,
 }: {
   textareaRef: React.RefObject<HTMLTextAreaElement>;
   isListening?: boolean;
@@ -43,13 +47,20 @@ const PureMemoizedControls = memo(function PureMemoizedControls({
   stop?: () => void;
   submitForm: () => void;
   uploadQueue: Array<string>;
+  conversationState: ConversationState;
+  toggleConversation?: () => void;
 }) {
   return (
     <>
-      <VoiceInputButton
-        isListening={isListening || interimTranscript}
-        toggleVoiceInput={toggleVoiceInput}
-      />
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <VoiceInputButton
+          isListening={isListening || interimTranscript}
+          toggleVoiceInput={toggleVoiceInput}
+        />
+        {toggleConversation && (
+          <ConversationIndicator state={conversationState} onToggle={toggleConversation} />
+        )}
+      </div>
       <div className="relative">
         <Textarea
           ref={textareaRef}
@@ -116,6 +127,8 @@ type MultimodalInputProps = {
   handleStopListening: () => void;
   interimTranscript?: string;
   isPlaying?: boolean;
+  conversationState?: ConversationState;
+  toggleConversation?: () => void;
 };
 
 const MultimodalInputComponent = ({
@@ -132,6 +145,8 @@ const MultimodalInputComponent = ({
   handleStopListening,
   interimTranscript,
   isPlaying,
+  conversationState = 'idle',
+  toggleConversation,
 }: MultimodalInputProps) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { width } = useWindowSize();
@@ -244,6 +259,8 @@ const MultimodalInputComponent = ({
       stop,
       submitForm,
       uploadQueue,
+      conversationState,
+      toggleConversation,
     }),
     [
       textareaRef,
@@ -256,6 +273,8 @@ const MultimodalInputComponent = ({
       stop,
       submitForm,
       uploadQueue,
+      conversationState,
+      toggleConversation,
     ]
   );
 
@@ -325,7 +344,9 @@ export const MultimodalInput = memo(
       prevProps.handleStartListening === nextProps.handleStartListening &&
       prevProps.handleStopListening === nextProps.handleStopListening &&
       prevProps.interimTranscript === nextProps.interimTranscript &&
-      prevProps.isPlaying === nextProps.isPlaying
+      prevProps.isPlaying === nextProps.isPlaying &&
+      prevProps.conversationState === nextProps.conversationState &&
+      prevProps.toggleConversation === nextProps.toggleConversation
     );
   }
 );
@@ -45,6 +45,21 @@ export default async function Navbar() {
               <DropdownMenuItem>
                 <ThemeToggle />
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/review" className="w-full px-1 py-0.5">
+                  Review vocabulary
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/review/drill" className="w-full px-1 py-0.5">
+                  Pronunciation drill
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/progress" className="w-full px-1 py-0.5">
+                  Progress
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem className="p-1 z-50">
                 <form
                   className="w-full"
@@ -3,6 +3,7 @@ import { motion } from "framer-motion";
 import { BotIcon, MessageIcon } from "./icons";
 import { FlagIcon, FlagIconCode } from "react-flag-kit";
 import { Button } from "../ui/button";
+import { CEFR_LEVELS, CefrLevel } from "@/lib/utils";
 
 interface LanguageConfig {
   code: string;
@@ -40,9 +41,10 @@ const languagesAndInstructors: LanguageConfig[] = [
 export const Overview = ({
   launchConversation,
 }: {
-  launchConversation: (args: any) => void;
+  launchConversation: (language: string, level: CefrLevel | null) => void;
 }) => {
   const [selectedLang, setSelectedLang] = useState<string | null>(null);
+  const [selectedLevel, setSelectedLevel] = useState<CefrLevel | null>(null);
 
   // Helpful hint on hover or selection
   const getSubtitle = () => {
@@ -87,13 +89,29 @@ export const Overview = ({
               selected={selectedLang === l.code}
               onPress={() => {
                 setSelectedLang(l.code);
-                setTimeout(() => launchConversation(l.language), 250);
+                setTimeout(() => launchConversation(l.language, selectedLevel), 250);
               }}
               onHover={() => setSelectedLang(l.code)}
               onBlur={() => setSelectedLang(null)}
             />
           ))}
         </div>
+        <div className="flex flex-row flex-wrap justify-center items-center gap-1 mt-3">
+          <span className="text-xs text-zinc-500 dark:text-zinc-400 mr-1">Level</span>
+          {CEFR_LEVELS.map((level) => (
+            <Button
+              key={`level-${level}`}
+              size="sm"
+              variant={selectedLevel === level ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setSelectedLevel(selectedLevel === level ? null : level)}
+              aria-pressed={selectedLevel === level}
+              type="button"
+            >
+              {level}
+            </Button>
+          ))}
+        </div>
         <span className="mt-3 text-xs text-center text-zinc-400 dark:text-zinc-500">
           You can always change your language later.
         </span>
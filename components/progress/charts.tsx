@@ -0,0 +1,95 @@
+"use client";
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+interface Series {
+  values: number[];
+  className: string;
+}
+
+function toPoints(values: number[], min: number, max: number): string {
+  const range = max - min || 1;
+  const step = values.length > 1 ? (WIDTH - PADDING * 2) / (values.length - 1) : 0;
+
+  return values
+    .map((value, index) => {
+      const x = PADDING + index * step;
+      const y = HEIGHT - PADDING - ((value - min) / range) * (HEIGHT - PADDING * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export const LineChart = ({
+  series,
+  min,
+  max,
+  label,
+}: {
+  series: Series[];
+  min: number;
+  max: number;
+  label: string;
+}) => (
+  <svg
+    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+    className="w-full h-40"
+    role="img"
+    aria-label={label}
+    preserveAspectRatio="none"
+  >
+    {series.map(({ values, className }, index) => (
+      <polyline
+        key={index}
+        points={toPoints(values, min, max)}
+        fill="none"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        className={className}
+      />
+    ))}
+  </svg>
+);
+
+export const BarChart = ({
+  values,
+  labels,
+  className,
+  label,
+}: {
+  values: number[];
+  labels: string[];
+  className: string;
+  label: string;
+}) => {
+  const max = Math.max(1, ...values);
+  const barWidth = (WIDTH - PADDING * 2) / Math.max(values.length, 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-40"
+      role="img"
+      aria-label={label}
+      preserveAspectRatio="none"
+    >
+      {values.map((value, index) => {
+        const height = (value / max) * (HEIGHT - PADDING * 2);
+        return (
+          <rect
+            key={labels[index]}
+            x={PADDING + index * barWidth + 1}
+            y={HEIGHT - PADDING - height}
+            width={Math.max(barWidth - 2, 1)}
+            height={height}
+            className={className}
+          >
+            <title>{`${labels[index]}: ${value}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
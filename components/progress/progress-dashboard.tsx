@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { FlameIcon } from "lucide-react";
+import { buildProgress, dayKey, DailyValue, ProgressTurn, ProgressWord } from "@/lib/progress/stats";
+import { Button } from "../ui/button";
+import { BarChart, LineChart } from "./charts";
+
+const RECENT_DAYS = 30;
+
+// Fill in the days without activity so bar charts keep a steady time axis
+function lastDays(series: DailyValue[], count: number, now: number): DailyValue[] {
+  const byDay = new Map(series.map((d) => [d.day, d.value]));
+  const today = new Date(now);
+
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (count - 1 - index));
+    const day = dayKey(date.getTime());
+    return { day, value: byDay.get(day) ?? 0 };
+  });
+}
+
+const StatCard = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="rounded-lg bg-muted/50 p-4 flex flex-col gap-1">
+    <span className="text-xs text-zinc-500 dark:text-zinc-400">{label}</span>
+    <span className="text-2xl font-semibold text-zinc-800 dark:text-zinc-100">{value}</span>
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="w-full rounded-2xl bg-muted/50 p-4 shadow-lg flex flex-col gap-2">
+    <span className="text-sm font-semibold text-zinc-700 dark:text-zinc-200">{title}</span>
+    {children}
+  </div>
+);
+
+const Empty = ({ children }: { children: React.ReactNode }) => (
+  <p className="text-sm text-zinc-500 dark:text-zinc-400">{children}</p>
+);
+
+export const ProgressDashboard = ({
+  turns,
+  words,
+}: {
+  turns: ProgressTurn[];
+  words: ProgressWord[];
+}) => {
+  const now = useMemo(() => Date.now(), []);
+  const progress = useMemo(() => buildProgress(turns, words, now), [turns, words, now]);
+  const [selected, setSelected] = useState<string | null>(progress[0]?.language ?? null);
+
+  const current = progress.find((p) => p.language === selected);
+
+  if (!current) {
+    return (
+      <div className="flex flex-col items-center gap-4 w-full max-w-2xl px-4 pt-20 pb-8">
+        <Empty>Practice a conversation to start tracking your progress.</Empty>
+      </div>
+    );
+  }
+
+  const recentWords = lastDays(current.wordsPerDay, RECENT_DAYS, now);
+  const recentPractice = lastDays(current.practiceMinutes, RECENT_DAYS, now);
+  const latestAverage = current.ratings[current.ratings.length - 1]?.average;
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full max-w-2xl px-4 pt-20 pb-8">
+      <div className="flex flex-row flex-wrap justify-center gap-2">
+        {progress.map(({ language }) => (
+          <Button
+            key={language}
+            size="sm"
+            variant={selected === language ? "default" : "outline"}
+            className="capitalize"
+            onClick={() => setSelected(language)}
+            type="button"
+          >
+            {language}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 w-full">
+        <StatCard
+          label="Current streak"
+          value={
+            <span className="flex items-center gap-1">
+              {current.streaks.current}
+              {current.streaks.current > 0 && <FlameIcon size={18} className="text-orange-500" />}
+            </span>
+          }
+        />
+        <StatCard label="Longest streak" value={current.streaks.longest} />
+        <StatCard label="Words saved" value={current.totalWords} />
+        <StatCard
+          label="Recent rating"
+          value={latestAverage === undefined ? "–" : Math.round(latestAverage)}
+        />
+      </div>
+
+      <Section title="Rating">
+        {current.ratings.length > 1 ? (
+          <>
+            <LineChart
+              label="Rating per message and moving average"
+              min={0}
+              max={100}
+              series={[
+                { values: current.ratings.map((r) => r.rating), className: "stroke-zinc-300 dark:stroke-zinc-600" },
+                { values: current.ratings.map((r) => r.average), className: "stroke-blue-500" },
+              ]}
+            />
+            <span className="text-xs text-zinc-500">
+              Each rated message, with the average of the last few in blue
+            </span>
+          </>
+        ) : (
+          <Empty>Not enough rated messages yet.</Empty>
+        )}
+      </Section>
+
+      <Section title="Difficulty">
+        {current.difficulty.length > 1 ? (
+          <LineChart
+            label="Average tutor difficulty per day"
+            min={1}
+            max={5}
+            series={[{ values: current.difficulty.map((d) => d.value), className: "stroke-green-500" }]}
+          />
+        ) : (
+          <Empty>The difficulty trend appears after a second day of practice.</Empty>
+        )}
+      </Section>
+
+      <Section title={`Words saved, last ${RECENT_DAYS} days`}>
+        <BarChart
+          label="Words saved per day"
+          values={recentWords.map((d) => d.value)}
+          labels={recentWords.map((d) => d.day)}
+          className="fill-purple-500"
+        />
+      </Section>
+
+      <Section title={`Minutes practiced, last ${RECENT_DAYS} days`}>
+        <BarChart
+          label="Minutes practiced per day"
+          values={recentPractice.map((d) => d.value)}
+          labels={recentPractice.map((d) => d.day)}
+          className="fill-orange-500"
+        />
+      </Section>
+    </div>
+  );
+};
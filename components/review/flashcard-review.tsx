@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { useTranslationStore } from "@/lib/store/translations";
+import { useAudioManager } from "@/hooks/use-audio-manager";
+import { LanguageName } from "@/lib/utils";
+import { REVIEW_GRADES, ReviewGrade } from "@/lib/review/scheduler";
+import Translation from "../language/translation";
+import { VoiceInputButton } from "../chat/voice-input-button";
+import { Button } from "../ui/button";
+import { LanguagePicker } from "./language-picker";
+import { VocabularyTransfer } from "./vocabulary-transfer";
+
+const GRADE_KEYS: Record<string, ReviewGrade> = {
+  "1": "again",
+  "2": "hard",
+  "3": "good",
+  "4": "easy",
+};
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: "bg-red-500 hover:bg-red-500/90",
+  hard: "bg-orange-500 hover:bg-orange-500/90",
+  good: "bg-blue-500 hover:bg-blue-500/90",
+  easy: "bg-green-500 hover:bg-green-500/90",
+};
+
+const SESSION_LIMIT = 20;
+
+// Match a spoken command against the grade names, last word wins ("uh... good")
+function parseSpokenGrade(transcript: string): ReviewGrade | null {
+  const words = transcript.toLowerCase().match(/[a-z]+/g) ?? [];
+  for (let i = words.length - 1; i >= 0; i--) {
+    const grade = REVIEW_GRADES.find((g) => g === words[i]);
+    if (grade) return grade;
+  }
+  return null;
+}
+
+function isSpokenFlip(transcript: string): boolean {
+  return /\b(flip|show|turn)\b/i.test(transcript);
+}
+
+type SessionSummary = Record<ReviewGrade, number>;
+
+const emptySummary = (): SessionSummary => ({ again: 0, hard: 0, good: 0, easy: 0 });
+
+export const FlashcardReview = () => {
+  const currentLanguage = useTranslationStore((state) => state.currentLanguage);
+  const isLoading = useTranslationStore((state) => state.isLoading);
+  const setCurrentLanguage = useTranslationStore((state) => state.setCurrentLanguage);
+  const getDueWords = useTranslationStore((state) => state.getDueWords);
+  const reviewWord = useTranslationStore((state) => state.reviewWord);
+  const loadWordAudio = useTranslationStore((state) => state.loadWordAudio);
+  const translations = useTranslationStore((state) =>
+    currentLanguage ? state.translations[currentLanguage] : undefined
+  );
+
+  // Session queue is a snapshot of lowercase word keys; "again" re-queues at the end
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [summary, setSummary] = useState<SessionSummary>(emptySummary);
+  const [sessionStarted, setSessionStarted] = useState(false);
+
+  const {
+    isListening,
+    transcript,
+    setTranscript,
+    startListening,
+    stopListening,
+  } = useAudioManager();
+
+  const startSession = useCallback((language: LanguageName) => {
+    const due = getDueWords(language, SESSION_LIMIT);
+    setQueue(due.map((t) => t.word.toLowerCase()));
+    setSummary(emptySummary());
+    setIsFlipped(false);
+    setSessionStarted(true);
+  }, [getDueWords]);
+
+  const selectLanguage = useCallback(async (language: LanguageName) => {
+    await setCurrentLanguage(language);
+    startSession(language);
+  }, [setCurrentLanguage, startSession]);
+
+  const currentWord = queue[0];
+  const currentCard = currentWord ? translations?.[currentWord] : undefined;
+
+  // Words without audio yet get it while their card is shown
+  const wordWithoutAudio = currentCard && !currentCard.audioUrl ? currentCard.word : null;
+  useEffect(() => {
+    if (!currentLanguage || !wordWithoutAudio) return;
+    loadWordAudio(currentLanguage, wordWithoutAudio).catch((error) => {
+      console.warn(`Failed to generate audio for ${wordWithoutAudio}:`, error);
+    });
+  }, [currentLanguage, wordWithoutAudio, loadWordAudio]);
+
+  const grade = useCallback((value: ReviewGrade) => {
+    if (!currentLanguage || !currentCard || !isFlipped) return;
+
+    reviewWord(currentLanguage, currentCard.word, value).catch((error) => {
+      toast.error(error.message || "Failed to save review");
+    });
+
+    setSummary((prev) => ({ ...prev, [value]: prev[value] + 1 }));
+    setQueue((prev) => {
+      const [head, ...rest] = prev;
+      return value === "again" ? [...rest, head] : rest;
+    });
+    setIsFlipped(false);
+  }, [currentLanguage, currentCard, isFlipped, reviewWord]);
+
+  // Keyboard: space/enter flips, 1-4 grades
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!currentCard) return;
+      if (event.key === " " || event.key === "Enter") {
+        event.preventDefault();
+        setIsFlipped((flipped) => !flipped);
+      } else if (GRADE_KEYS[event.key]) {
+        grade(GRADE_KEYS[event.key]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [currentCard, grade]);
+
+  // Voice: "flip"/"show" flips, grade names grade
+  useEffect(() => {
+    if (!transcript) return;
+    if (!isFlipped && isSpokenFlip(transcript)) {
+      setIsFlipped(true);
+    } else {
+      const spoken = parseSpokenGrade(transcript);
+      if (spoken) grade(spoken);
+    }
+    setTranscript("");
+  }, [transcript, isFlipped, grade, setTranscript]);
+
+  const toggleVoiceInput = useCallback(() => {
+    if (isListening) {
+      stopListening();
+    } else {
+      startListening();
+    }
+  }, [isListening, startListening, stopListening]);
+
+  const reviewedCount = useMemo(
+    () => Object.values(summary).reduce((a, b) => a + b, 0),
+    [summary]
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full max-w-2xl px-4 pt-20 pb-8">
+      <LanguagePicker
+        selected={currentLanguage}
+        disabled={isLoading}
+        onSelect={selectLanguage}
+      />
+
+      {isLoading && (
+        <div className="flex items-center gap-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
+          <span className="text-sm">Loading words...</span>
+        </div>
+      )}
+
+      {!sessionStarted && !isLoading && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Choose a language to review the words you have saved.
+        </p>
+      )}
+
+      {sessionStarted && currentCard && (
+        <motion.div
+          key={`${currentWord}-${isFlipped}`}
+          className="w-full flex flex-col items-center gap-4"
+          initial={{ rotateX: 90, opacity: 0 }}
+          animate={{ rotateX: 0, opacity: 1 }}
+          transition={{ duration: 0.2 }}
+        >
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {queue.length} remaining
+          </span>
+
+          {!isFlipped ? (
+            <button
+              type="button"
+              onClick={() => setIsFlipped(true)}
+              className="w-full min-h-[200px] rounded-2xl bg-muted/50 shadow-lg flex flex-col items-center justify-center gap-2"
+            >
+              <span className="text-3xl font-semibold text-zinc-800 dark:text-zinc-100">
+                {currentCard.word}
+              </span>
+              <span className="text-xs text-zinc-500">Press space or say &quot;flip&quot;</span>
+            </button>
+          ) : (
+            <Translation
+              translations={{ [currentWord]: currentCard }}
+              selectedWord={currentWord}
+              selectedLanguage={currentLanguage ?? undefined}
+            />
+          )}
+
+          {isFlipped && (
+            <div className="grid grid-cols-4 gap-2 w-full">
+              {REVIEW_GRADES.map((value, index) => (
+                <Button
+                  key={value}
+                  className={`capitalize text-white ${GRADE_STYLES[value]}`}
+                  onClick={() => grade(value)}
+                  type="button"
+                >
+                  {value} <span className="ml-1 text-xs opacity-70">{index + 1}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <VoiceInputButton
+            isListening={isListening}
+            toggleVoiceInput={toggleVoiceInput}
+          />
+        </motion.div>
+      )}
+
+      {sessionStarted && !currentCard && !isLoading && (
+        <div className="w-full rounded-2xl bg-muted/50 p-6 flex flex-col items-center gap-4 shadow-lg">
+          <p className="text-lg font-semibold text-zinc-700 dark:text-zinc-200">
+            {reviewedCount > 0 ? "Session complete" : "Nothing due right now"}
+          </p>
+          {reviewedCount > 0 && (
+            <div className="grid grid-cols-4 gap-4 text-center">
+              {REVIEW_GRADES.map((value) => (
+                <div key={value} className="flex flex-col">
+                  <span className="text-2xl font-semibold">{summary[value]}</span>
+                  <span className="text-xs capitalize text-zinc-500">{value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {currentLanguage && (
+            <Button variant="outline" onClick={() => startSession(currentLanguage)} type="button">
+              Check for more words
+            </Button>
+          )}
+        </div>
+      )}
+
+      {currentLanguage && !isLoading && !currentCard && (
+        <VocabularyTransfer language={currentLanguage} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+"use client";
+
+import { LANGUAGE_NAMES, LanguageName } from "@/lib/utils";
+import { Button } from "../ui/button";
+
+export const LanguagePicker = ({
+  selected,
+  disabled,
+  onSelect,
+}: {
+  selected: LanguageName | null;
+  disabled?: boolean;
+  onSelect: (language: LanguageName) => void;
+}) => (
+  <div className="flex flex-row flex-wrap justify-center gap-2">
+    {LANGUAGE_NAMES.map((language) => (
+      <Button
+        key={language}
+        size="sm"
+        variant={selected === language ? "default" : "outline"}
+        className="capitalize"
+        onClick={() => onSelect(language)}
+        disabled={disabled}
+        type="button"
+      >
+        {language}
+      </Button>
+    ))}
+  </div>
+);
@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { PlayIcon } from "lucide-react";
+import { toast } from "sonner";
+import { useTranslationStore } from "@/lib/store/translations";
+import { useAudioManager } from "@/hooks/use-audio-manager";
+import { getLanguageLocale, LanguageName, TranslationData } from "@/lib/utils";
+import { PronunciationResult, scorePronunciation } from "@/lib/review/pronunciation";
+import { VoiceInputButton } from "../chat/voice-input-button";
+import { Button } from "../ui/button";
+import { LanguagePicker } from "./language-picker";
+
+const SESSION_LIMIT = 10;
+
+// Play the saved audio, falling back to the browser voice for the target locale
+function playWord(word: TranslationData, locale?: string) {
+  if (word.audioUrl) {
+    new window.Audio(word.audioUrl).play().catch(() => speakWord(word, locale));
+    return;
+  }
+  speakWord(word, locale);
+}
+
+function speakWord(word: TranslationData, locale?: string) {
+  if (!("speechSynthesis" in window)) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(word.word);
+  if (locale) utterance.lang = locale;
+  utterance.rate = 0.8;
+  window.speechSynthesis.speak(utterance);
+}
+
+export const PronunciationDrill = () => {
+  const currentLanguage = useTranslationStore((state) => state.currentLanguage);
+  const isLoading = useTranslationStore((state) => state.isLoading);
+  const setCurrentLanguage = useTranslationStore((state) => state.setCurrentLanguage);
+  const getDueWords = useTranslationStore((state) => state.getDueWords);
+  const getLanguageTranslations = useTranslationStore((state) => state.getLanguageTranslations);
+  const recordDrillAttempt = useTranslationStore((state) => state.recordDrillAttempt);
+  const loadWordAudio = useTranslationStore((state) => state.loadWordAudio);
+
+  const [queue, setQueue] = useState<TranslationData[]>([]);
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [attempts, setAttempts] = useState<PronunciationResult[]>([]);
+  const [sessionStarted, setSessionStarted] = useState(false);
+
+  const {
+    isListening,
+    transcript,
+    setTranscript,
+    startListening,
+    stopListening,
+    setRecognitionLanguage,
+  } = useAudioManager();
+
+  const locale = getLanguageLocale(currentLanguage);
+  const currentWord = queue[0];
+  // The store's copy picks up audio generated after the session started
+  const storedWord = useTranslationStore((state) =>
+    currentWord && currentLanguage ? state.translations[currentLanguage]?.[currentWord.word.toLowerCase()] : undefined
+  );
+  // The word whose first attempt has been graded, later attempts are retries
+  const gradedWordRef = useRef<string | null>(null);
+
+  // Due words first; when nothing is due, drill the most recent words instead
+  const startSession = useCallback((language: LanguageName) => {
+    let words = getDueWords(language, SESSION_LIMIT);
+    if (words.length === 0) {
+      words = Object.values(getLanguageTranslations(language))
+        .sort((a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0))
+        .slice(0, SESSION_LIMIT);
+    }
+    setQueue(words);
+    gradedWordRef.current = null;
+    setAttempts([]);
+    setResult(null);
+    setSessionStarted(true);
+  }, [getDueWords, getLanguageTranslations]);
+
+  const selectLanguage = useCallback(async (language: LanguageName) => {
+    stopListening();
+    await setCurrentLanguage(language);
+    startSession(language);
+  }, [setCurrentLanguage, startSession, stopListening]);
+
+  useEffect(() => {
+    if (locale) setRecognitionLanguage(locale);
+  }, [locale, setRecognitionLanguage]);
+
+  // Play each new word once when it comes up. Words without audio yet are
+  // spoken by the browser while theirs is generated.
+  const lastPlayedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!currentWord || lastPlayedRef.current === currentWord.word) return;
+    lastPlayedRef.current = currentWord.word;
+    playWord(currentWord, locale);
+    if (currentLanguage && !currentWord.audioUrl) {
+      loadWordAudio(currentLanguage, currentWord.word).catch((error) => {
+        console.warn(`Failed to generate audio for ${currentWord.word}:`, error);
+      });
+    }
+  }, [currentWord, currentLanguage, locale, loadWordAudio]);
+
+  // Score the first final transcript of each attempt
+  useEffect(() => {
+    if (!transcript || !currentWord || !currentLanguage || result) return;
+
+    stopListening();
+    const scored = scorePronunciation(currentWord.word, transcript);
+    setResult(scored);
+    setAttempts((prev) => [...prev, scored]);
+    setTranscript("");
+
+    const retry = gradedWordRef.current === currentWord.word;
+    gradedWordRef.current = currentWord.word;
+    recordDrillAttempt(currentLanguage, currentWord.word, scored, { retry }).catch((error) => {
+      toast.error(error.message || "Failed to save attempt");
+    });
+  }, [transcript, currentWord, currentLanguage, result, recordDrillAttempt, setTranscript, stopListening]);
+
+  const retry = useCallback(() => {
+    setResult(null);
+    startListening();
+  }, [startListening]);
+
+  const next = useCallback(() => {
+    setResult(null);
+    setQueue((prev) => prev.slice(1));
+  }, []);
+
+  const toggleVoiceInput = useCallback(() => {
+    if (isListening) {
+      stopListening();
+    } else {
+      setResult(null);
+      startListening();
+    }
+  }, [isListening, startListening, stopListening]);
+
+  const averageScore = attempts.length
+    ? attempts.reduce((sum, a) => sum + a.score, 0) / attempts.length
+    : 0;
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full max-w-2xl px-4 pt-20 pb-8">
+      <LanguagePicker
+        selected={currentLanguage}
+        disabled={isLoading}
+        onSelect={selectLanguage}
+      />
+
+      {!sessionStarted && !isLoading && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Choose a language, listen to each word and say it back.
+        </p>
+      )}
+
+      {sessionStarted && currentWord && (
+        <motion.div
+          key={currentWord.word}
+          className="w-full flex flex-col items-center gap-4"
+          initial={{ y: 5, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+        >
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {queue.length} remaining
+          </span>
+
+          <div className="w-full min-h-[180px] rounded-2xl bg-muted/50 shadow-lg flex flex-col items-center justify-center gap-2 p-6">
+            <span className="text-3xl font-semibold text-zinc-800 dark:text-zinc-100">
+              {currentWord.word}
+            </span>
+            {currentWord.phonetic && (
+              <span className="text-sm font-mono text-zinc-500">/{currentWord.phonetic}/</span>
+            )}
+            <span className="text-sm text-zinc-600 dark:text-zinc-300">{currentWord.translation}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => playWord(storedWord ?? currentWord, locale)}
+              type="button"
+            >
+              <PlayIcon size={14} />
+            </Button>
+          </div>
+
+          {result && (
+            <div className={`w-full rounded-lg p-4 text-sm ${result.passed ? "bg-green-50 text-green-800 dark:bg-green-900/40 dark:text-green-200" : "bg-red-50 text-red-800 dark:bg-red-900/40 dark:text-red-200"}`}>
+              <p className="font-semibold">
+                {result.passed ? "Nice!" : "Not quite"} — {Math.round(result.score * 100)}%
+              </p>
+              <p>We heard: &quot;{result.transcript}&quot;</p>
+              <p className="text-xs opacity-70">
+                Spelling {Math.round(result.editSimilarity * 100)}% · Sound {Math.round(result.phoneticSimilarity * 100)}%
+              </p>
+            </div>
+          )}
+
+          {result ? (
+            <div className="flex flex-row gap-2">
+              <Button variant="outline" onClick={retry} type="button">Try again</Button>
+              <Button onClick={next} type="button">Next word</Button>
+            </div>
+          ) : (
+            <VoiceInputButton
+              isListening={isListening}
+              toggleVoiceInput={toggleVoiceInput}
+            />
+          )}
+        </motion.div>
+      )}
+
+      {sessionStarted && !currentWord && !isLoading && (
+        <div className="w-full rounded-2xl bg-muted/50 p-6 flex flex-col items-center gap-4 shadow-lg">
+          <p className="text-lg font-semibold text-zinc-700 dark:text-zinc-200">
+            {attempts.length > 0 ? "Drill complete" : "No saved words yet"}
+          </p>
+          {attempts.length > 0 && (
+            <p className="text-sm text-zinc-500">
+              {attempts.filter((a) => a.passed).length} of {attempts.length} attempts passed · average {Math.round(averageScore * 100)}%
+            </p>
+          )}
+          {currentLanguage && (
+            <Button variant="outline" onClick={() => startSession(currentLanguage)} type="button">
+              Drill again
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
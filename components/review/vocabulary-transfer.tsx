@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { DownloadIcon, UploadIcon } from "lucide-react";
+import { exportTranslations } from "@/app/actions/translations";
+import { useTranslationStore } from "@/lib/store/translations";
+import { VocabularyFormat, VocabularyImportReport } from "@/lib/export/vocabulary";
+import { LanguageName } from "@/lib/utils";
+import { Button } from "../ui/button";
+
+// Skip reasons shown in the preview before "and N more"
+const PREVIEW_SKIPPED = 5;
+
+export const VocabularyTransfer = ({ language }: { language: LanguageName }) => {
+  const importWords = useTranslationStore((state) => state.importWords);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<string | null>(null);
+  const [preview, setPreview] = useState<VocabularyImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const download = async (format: VocabularyFormat) => {
+    setIsBusy(true);
+    try {
+      const file = await exportTranslations(language, format);
+      const url = URL.createObjectURL(new Blob([file], { type: format === "tsv" ? "text/tab-separated-values" : "text/csv" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${language}-vocabulary.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to export words");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Every import starts as a dry run so the user sees what will change
+  const previewImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    setIsBusy(true);
+    try {
+      const file = await selected.text();
+      setPreview(await importWords(language, file, { dryRun: true }));
+      setPendingFile(file);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to read file");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!pendingFile) return;
+
+    setIsBusy(true);
+    try {
+      const report = await importWords(language, pendingFile, { dryRun: false });
+      toast.success(`Imported ${report.new} new and ${report.updated} updated words`);
+      setPreview(null);
+      setPendingFile(null);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to import words");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="flex flex-row flex-wrap justify-center gap-2">
+        {(["tsv", "csv"] as VocabularyFormat[]).map((format) => (
+          <Button
+            key={format}
+            size="sm"
+            variant="outline"
+            onClick={() => download(format)}
+            disabled={isBusy}
+            type="button"
+          >
+            <DownloadIcon size={14} className="mr-1" />
+            Export {format.toUpperCase()}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInput.current?.click()}
+          disabled={isBusy}
+          type="button"
+        >
+          <UploadIcon size={14} className="mr-1" />
+          Import
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".tsv,.csv,.txt,text/csv,text/tab-separated-values,text/plain"
+          className="hidden"
+          onChange={previewImport}
+        />
+      </div>
+
+      {preview && (
+        <div className="w-full rounded-2xl bg-muted/50 p-4 flex flex-col gap-3 text-sm">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            {([["new", preview.new], ["updated", preview.updated], ["skipped", preview.skipped.length]] as const).map(([label, count]) => (
+              <div key={label} className="flex flex-col">
+                <span className="text-2xl font-semibold">{count}</span>
+                <span className="text-xs capitalize text-zinc-500">{label}</span>
+              </div>
+            ))}
+          </div>
+
+          {preview.skipped.length > 0 && (
+            <ul className="text-xs text-zinc-500 dark:text-zinc-400">
+              {preview.skipped.slice(0, PREVIEW_SKIPPED).map((row) => (
+                <li key={row.line}>
+                  Line {row.line}{row.word ? ` (${row.word})` : ""}: {row.reason}
+                </li>
+              ))}
+              {preview.skipped.length > PREVIEW_SKIPPED && (
+                <li>and {preview.skipped.length - PREVIEW_SKIPPED} more</li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex flex-row justify-end gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => { setPreview(null); setPendingFile(null); }}
+              disabled={isBusy}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={confirmImport}
+              disabled={isBusy || preview.new + preview.updated === 0}
+              type="button"
+            >
+              Import {preview.new + preview.updated} words
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
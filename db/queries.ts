@@ -1,12 +1,12 @@
 import "server-only";
 
 import { genSaltSync, hashSync } from "bcrypt-ts";
-import { desc, eq } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 
-import { user, chat, User, reservation } from "./schema";
-import { generateUUID } from "@/lib/utils";
+import { user, chat, message, User, reservation, NewMessage } from "./schema";
+import { convertToUIMessages, generateUUID, mergeMessagesById, UIMessage } from "@/lib/utils";
 
 // Optionally, if not using email/pass login, you can
 // use the Drizzle adapter for Auth.js / NextAuth
@@ -71,6 +71,128 @@ export async function saveChat({
   }
 }
 
+export async function saveChatLanguage({
+  id,
+  userId,
+  language,
+  level,
+}: {
+  id: string;
+  userId: string;
+  language: string;
+  level?: string | null;
+}) {
+  try {
+    const selectedChats = await db.select().from(chat).where(eq(chat.id, id));
+
+    if (selectedChats.length > 0) {
+      return await db
+        .update(chat)
+        .set({
+          language,
+          level: level ?? null,
+        })
+        .where(and(eq(chat.id, id), eq(chat.userId, userId)));
+    }
+
+    return await db.insert(chat).values({
+      id,
+      createdAt: new Date(),
+      messages: [],
+      userId,
+      language,
+      level: level ?? null,
+    });
+  } catch (error: any) {
+    console.error("Failed to save chat language in database");
+    throw error;
+  }
+}
+
+export function toMessageRow(chatId: string, msg: UIMessage): NewMessage {
+  return {
+    id: msg.id,
+    chatId,
+    role: msg.role,
+    content: msg.content,
+    createdAt: new Date(msg.timestamp),
+    isAudio: msg.isAudio,
+    rating: msg.languageRating ?? null,
+    difficulty: msg.difficulty ?? null,
+    translations: msg.translations ?? null,
+    corrections: msg.corrections ?? null,
+    audioUrl: msg.audioUrl ?? null,
+    heardContent: msg.heardContent ?? null,
+  };
+}
+
+export async function saveChatMessages({
+  id,
+  userId,
+  messages,
+}: {
+  id: string;
+  userId: string;
+  messages: Array<UIMessage>;
+}) {
+  if (messages.length === 0) return;
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [selectedChat] = await tx
+        .select()
+        .from(chat)
+        .where(eq(chat.id, id))
+        .for("update");
+
+      if (!selectedChat) {
+        await tx.insert(chat).values({
+          id,
+          createdAt: new Date(),
+          messages: [],
+          userId,
+        });
+      } else if (selectedChat.userId !== userId) {
+        throw new Error("Chat belongs to another user");
+      }
+
+      // Merge with the stored turns so a partial resend never clears saved metadata
+      const storedMessages = await tx
+        .select()
+        .from(message)
+        .where(and(
+          eq(message.chatId, id),
+          inArray(message.id, messages.map((m) => m.id)),
+        ));
+      const merged = mergeMessagesById<UIMessage>(
+        convertToUIMessages(storedMessages),
+        messages,
+      );
+
+      return await tx
+        .insert(message)
+        .values(merged.map((m) => toMessageRow(id, m)))
+        .onConflictDoUpdate({
+          target: [message.chatId, message.id],
+          set: {
+            role: sql`excluded."role"`,
+            content: sql`excluded."content"`,
+            isAudio: sql`excluded."isAudio"`,
+            rating: sql`excluded."rating"`,
+            difficulty: sql`excluded."difficulty"`,
+            translations: sql`excluded."translations"`,
+            corrections: sql`excluded."corrections"`,
+            audioUrl: sql`excluded."audioUrl"`,
+            heardContent: sql`excluded."heardContent"`,
+          },
+        });
+    });
+  } catch (error: any) {
+    console.error("Failed to save chat messages in database");
+    throw error;
+  }
+}
+
 export async function deleteChatById({ id }: { id: string }) {
   try {
     return await db.delete(chat).where(eq(chat.id, id));
@@ -82,11 +204,25 @@ export async function deleteChatById({ id }: { id: string }) {
 
 export async function getChatsByUserId({ id }: { id: string }) {
   try {
-    return await db
+    const chats = await db
       .select()
       .from(chat)
       .where(eq(chat.userId, id))
       .orderBy(desc(chat.createdAt));
+
+    if (chats.length === 0) return [];
+
+    // The history list only needs each chat's first turn for its title
+    const firstMessages = await db
+      .selectDistinctOn([message.chatId])
+      .from(message)
+      .where(inArray(message.chatId, chats.map((c) => c.id)))
+      .orderBy(message.chatId, asc(message.createdAt));
+
+    return chats.map((c) => ({
+      ...c,
+      messages: firstMessages.filter((m) => m.chatId === c.id),
+    }));
   } catch (error: any) {
     console.error("Failed to get chats by user from database. User Id: ", id);
     throw error;
@@ -96,13 +232,29 @@ export async function getChatsByUserId({ id }: { id: string }) {
 export async function getChatById({ id }: { id: string }) {
   try {
     const [selectedChat] = await db.select().from(chat).where(eq(chat.id, id));
-    return selectedChat;
+    if (!selectedChat) return selectedChat;
+
+    const messages = await getMessagesByChatId({ id });
+    return { ...selectedChat, messages };
   } catch (error: any) {
     console.error("Failed to get chat by id from database");
     throw error;
   }
 }
 
+export async function getMessagesByChatId({ id }: { id: string }) {
+  try {
+    return await db
+      .select()
+      .from(message)
+      .where(eq(message.chatId, id))
+      .orderBy(asc(message.createdAt), asc(message.id));
+  } catch (error: any) {
+    console.error("Failed to get messages by chat id from database");
+    throw error;
+  }
+}
+
 export async function createReservation({
   id,
   userId,
@@ -11,6 +11,8 @@ import {
   uniqueIndex,
   text,
   index,
+  real,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 
 
@@ -26,10 +28,12 @@ export type User = InferSelectModel<typeof user>;
 export const chat = pgTable("Chat", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   createdAt: timestamp("createdAt").notNull(),
-  messages: json("messages").notNull(),
+  messages: json("messages").notNull(), // legacy blob, turns now live in the Message table
   userId: uuid("userId")
     .notNull()
     .references(() => user.id),
+  language: text("language"), // LanguageName, e.g. "german"
+  level: varchar("level", { length: 2 }), // CEFR level, e.g. "A2"
 });
 
 export type Chat = Omit<InferSelectModel<typeof chat>, "messages"> & {
@@ -37,6 +41,37 @@ export type Chat = Omit<InferSelectModel<typeof chat>, "messages"> & {
 };
 
 
+export const message = pgTable("Message", {
+  id: text("id").notNull(), // client-generated UIMessage id
+  chatId: uuid("chatId")
+    .notNull()
+    .references(() => chat.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 16 }).notNull(), // 'user' | 'assistant'
+  content: text("content").notNull(),
+  createdAt: timestamp("createdAt").notNull(),
+  isAudio: boolean("isAudio").default(false).notNull(),
+  rating: real("rating"), // tutor's rating of a user turn
+  difficulty: real("difficulty"), // difficulty of an assistant turn (1-5)
+  translations: json("translations"), // Record<string, TranslationData>
+  corrections: json("corrections"), // Correction[] for a user turn
+  audioUrl: text("audioUrl"),
+  heardContent: text("heardContent"), // what the learner heard of an interrupted reply
+}, (table) => ({
+  pk: primaryKey({ columns: [table.chatId, table.id] }),
+
+  // Index for loading a conversation in order
+  chatCreatedAtIdx: index("message_chat_created_at_idx")
+    .on(table.chatId, table.createdAt),
+
+  // Index for querying turns by rating across chats
+  ratingIdx: index("message_rating_idx")
+    .on(table.rating),
+}));
+
+export type Message = InferSelectModel<typeof message>;
+export type NewMessage = typeof message.$inferInsert;
+
+
 export const reservation = pgTable("Reservation", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   createdAt: timestamp("createdAt").notNull(),
@@ -51,7 +86,7 @@ export type Reservation = InferSelectModel<typeof reservation>;
 
 
 export const translations = pgTable('translations', {
-  id: uuid('id').primaryKey(), // Format: {userId}_{language}_{word}
+  id: uuid('id').primaryKey(),
   userId: uuid('user_id').notNull(),
   language: text('language').notNull(),
   word: text('word').notNull(),
@@ -61,6 +96,12 @@ export const translations = pgTable('translations', {
   usageCount: integer('usage_count').default(0).notNull(),
   addedAt: timestamp('added_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  // Spaced-repetition scheduling (see lib/review/scheduler.ts)
+  easeFactor: real('ease_factor').default(2.5).notNull(),
+  interval: integer('interval').default(0).notNull(), // days
+  repetitions: integer('repetitions').default(0).notNull(),
+  dueAt: timestamp('due_at').defaultNow().notNull(),
+  lastReviewedAt: timestamp('last_reviewed_at'),
 }, (table) => ({
   // Composite unique constraint: one translation per user/language/word
   userLanguageWordIdx: uniqueIndex('user_language_word_idx')
@@ -73,7 +114,33 @@ export const translations = pgTable('translations', {
   // Index for sorting by usage
   usageCountIdx: index('usage_count_idx')
     .on(table.userId, table.language, table.usageCount),
+
+  // Index for building the review queue
+  dueAtIdx: index('due_at_idx')
+    .on(table.userId, table.language, table.dueAt),
 }));
 
 export type Translation = typeof translations.$inferSelect;
-export type NewTranslation = typeof translations.$inferInsert;
\ No newline at end of file
+export type NewTranslation = typeof translations.$inferInsert;
+
+
+export const translationReviews = pgTable('translation_reviews', {
+  id: uuid('id').primaryKey().notNull().defaultRandom(),
+  translationId: uuid('translation_id')
+    .notNull()
+    .references(() => translations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  grade: text('grade').notNull(), // 'again' | 'hard' | 'good' | 'easy'
+  source: text('source').default('flashcard').notNull(), // 'flashcard' | 'drill'
+  score: real('score'), // pronunciation score (0-1) for drill attempts
+  transcript: text('transcript'), // what the recognizer heard for drill attempts
+  easeFactor: real('ease_factor').notNull(),
+  interval: integer('interval').notNull(),
+  reviewedAt: timestamp('reviewed_at').defaultNow().notNull(),
+}, (table) => ({
+  // Index for reading a word's review history in order
+  translationReviewedAtIdx: index('translation_reviewed_at_idx')
+    .on(table.translationId, table.reviewedAt),
+}));
+
+export type TranslationReview = typeof translationReviews.$inferSelect;
\ No newline at end of file
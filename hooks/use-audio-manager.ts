@@ -1,6 +1,15 @@
 // useAudioManager.ts
 import { useCallback, useRef, useState, useEffect } from 'react';
 import { SpeechRecognitionManager } from '../lib/audio/speech-recognition-manager';
+import { VADOptions } from '../lib/audio/vad';
+import {
+  ConversationEvent,
+  ConversationState,
+  ConversationStateMachine,
+  queueTurns,
+  syncMicrophone,
+  TurnQueue,
+} from '../lib/audio/conversation-state';
 import { toast } from 'sonner';
 
 interface UseAudioManagerReturn {
@@ -12,6 +21,13 @@ interface UseAudioManagerReturn {
   setTranscript: (transcript: string) => void;
   interimTranscript: string;
   setInterimTranscript: (interimTranscript: string) => void;
+  isUserSpeaking: boolean;
+
+  // Hands-free conversation
+  conversationState: ConversationState;
+  startConversation: () => void;
+  stopConversation: () => void;
+  sendConversationEvent: (event: ConversationEvent) => void;
   
   // TTS Playback
   synthesizeSpeech: (text: string, messageId: string) => Promise<Uint8Array>;
@@ -40,6 +56,7 @@ interface AudioManagerOptions {
 
 export function useAudioManager(options?: AudioManagerOptions) {
   const managerRef = useRef<SpeechRecognitionManager | null>(null);
+  const recognitionLanguageRef = useRef<string | null>(null);
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [isListening, setIsListening] = useState(false);
@@ -47,6 +64,13 @@ export function useAudioManager(options?: AudioManagerOptions) {
   const [currentlyPlayingMessageId, setCurrentlyPlayingMessageId] = useState<string | null>(null);
   const [transcript, setTranscript] = useState('');
   const [interimTranscript, setInterimTranscript] = useState('');
+  // Voice activity on the microphone, ahead of any transcript
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  // Hands-free mode opens and closes the microphone itself
+  const [conversation] = useState(() => new ConversationStateMachine());
+  const [conversationState, setConversationState] = useState<ConversationState>('idle');
+  // Holds what the learner says while the tutor is still thinking
+  const turnQueueRef = useRef<TurnQueue | null>(null);
 
   // Initialize manager
   useEffect(() => {
@@ -55,7 +79,8 @@ export function useAudioManager(options?: AudioManagerOptions) {
       try {
         if (!managerRef.current) {
           managerRef.current = new SpeechRecognitionManager(options);
-          await managerRef.current.initialize();
+          managerRef.current.setRequestFinishedCallback(() => conversation.send('request-finished'));
+          await managerRef.current.initialize(recognitionLanguageRef.current ?? undefined);
           setIsInitialized(true);
         }
       } catch (error: any) {
@@ -82,6 +107,7 @@ export function useAudioManager(options?: AudioManagerOptions) {
         managerRef.current.destroy();
         managerRef.current = null;
       }
+      conversation.destroy();
     };
   }, []);
 
@@ -89,6 +115,7 @@ export function useAudioManager(options?: AudioManagerOptions) {
   const handlePlaybackStateChange = useCallback((playing: boolean, messageId: string | null) => {
     setIsPlaying(playing);
     setCurrentlyPlayingMessageId(messageId);
+    if (playing) conversation.send('playback-start');
   }, []);
 
   // Enqueue ordered audio chunk
@@ -96,7 +123,8 @@ export function useAudioManager(options?: AudioManagerOptions) {
     requestId: string,
     chunkIndex: number,
     audioData: string,
-    messageId: string
+    messageId: string,
+    segmentIndex: number = 0
   ) => {
     if (!managerRef.current) return;
     await managerRef.current.processStreamedAudioChunk(
@@ -104,10 +132,43 @@ export function useAudioManager(options?: AudioManagerOptions) {
       chunkIndex,
       audioData,
       messageId,
-      handlePlaybackStateChange
+      handlePlaybackStateChange,
+      segmentIndex
     );
   }, [handlePlaybackStateChange]);
 
+  // Enqueue decoded samples from binary audio frames
+  const enqueueAudioSamples = useCallback(async (
+    requestId: string,
+    chunkIndex: number,
+    samples: Float32Array,
+    sampleRate: number,
+    messageId: string,
+    segmentIndex: number = 0
+  ) => {
+    if (!managerRef.current) return;
+    await managerRef.current.processStreamedAudioSamples(
+      requestId,
+      chunkIndex,
+      samples,
+      sampleRate,
+      messageId,
+      handlePlaybackStateChange,
+      segmentIndex
+    );
+  }, [handlePlaybackStateChange]);
+
+  // Mark one sentence's audio stream complete
+  const markSegmentComplete = useCallback((
+    requestId: string,
+    segmentIndex: number,
+    totalChunks: number,
+    messageId: string
+  ) => {
+    if (!managerRef.current) return;
+    managerRef.current.markSegmentComplete(requestId, segmentIndex, totalChunks, messageId);
+  }, []);
+
   // Mark request complete
   const markRequestComplete = useCallback((requestId: string) => {
     if (!managerRef.current) return;
@@ -162,6 +223,17 @@ export function useAudioManager(options?: AudioManagerOptions) {
     managerRef.current.stopAudio();
     setIsPlaying(false);
     setCurrentlyPlayingMessageId(null);
+    conversation.send('playback-stop');
+  }, []);
+
+  // Barge-in: stop playback and report how much of the reply was heard
+  const interruptPlayback = useCallback(() => {
+    if (!managerRef.current) return null;
+    const interruption = managerRef.current.interruptPlayback();
+    setIsPlaying(false);
+    setCurrentlyPlayingMessageId(null);
+    conversation.send('playback-stop');
+    return interruption;
   }, []);
 
   const stopRequest = useCallback((requestId: string) => {
@@ -170,15 +242,15 @@ export function useAudioManager(options?: AudioManagerOptions) {
   }, []);
 
   // Speech recognition
-  const startListening = useCallback(async () => {
+  const openMicrophone = useCallback(async () => {
     if (!managerRef.current) return;
     setIsListening(true);
 
     try {
       await managerRef.current?.startListening(
         (finalText) => {
-          setTranscript(finalText);
           setInterimTranscript('');
+          turnQueueRef.current?.push(finalText);
         },
         (interim) => {
           setInterimTranscript(interim);
@@ -186,6 +258,15 @@ export function useAudioManager(options?: AudioManagerOptions) {
         (error: any) => {
           console.error('Speech recognition error:', error);
           setIsListening(false);
+          // Chrome reports stretches of silence as errors too
+          if (error !== 'no-speech' && error !== 'aborted') conversation.send('stop');
+        },
+        {
+          onSpeechStart: () => {
+            setIsUserSpeaking(true);
+            conversation.send('speech-start');
+          },
+          onSpeechEnd: () => setIsUserSpeaking(false),
         }
       );
     } catch (error: any) {
@@ -194,10 +275,46 @@ export function useAudioManager(options?: AudioManagerOptions) {
     }
   }, []);
 
-  const stopListening = useCallback(() => {
+  const closeMicrophone = useCallback(() => {
     if (!managerRef.current) return;
     managerRef.current.stopListening();
     setIsListening(false);
+    setIsUserSpeaking(false);
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = conversation.subscribe((state) => setConversationState(state));
+    const unsync = syncMicrophone(conversation, { start: openMicrophone, stop: closeMicrophone });
+    // The tutor is already answering the previous turn, so this one waits for it
+    turnQueueRef.current = queueTurns(conversation, (text) => {
+      setTranscript(text);
+      conversation.send('turn-end');
+    });
+    return () => {
+      unsubscribe();
+      unsync();
+      turnQueueRef.current?.dispose();
+      turnQueueRef.current = null;
+    };
+  }, [conversation, openMicrophone, closeMicrophone]);
+
+  const startListening = openMicrophone;
+
+  // Stopping by hand also ends a hands-free conversation
+  const stopListening = useCallback(() => {
+    if (!conversation.send('stop')) closeMicrophone();
+  }, [closeMicrophone]);
+
+  const startConversation = useCallback(() => {
+    conversation.send('start');
+  }, []);
+
+  const stopConversation = useCallback(() => {
+    conversation.send('stop');
+  }, []);
+
+  const sendConversationEvent = useCallback((event: ConversationEvent) => {
+    conversation.send(event);
   }, []);
 
   // Transcription correction
@@ -233,6 +350,18 @@ export function useAudioManager(options?: AudioManagerOptions) {
     managerRef.current.setInterimResultDelay(delayMs);
   }, []);
 
+  // Tune voice activity detection
+  const setVADOptions = useCallback((vadOptions: VADOptions) => {
+    if (!managerRef.current) return;
+    managerRef.current.setVADOptions(vadOptions);
+  }, []);
+
+  // Set recognition locale, applied once the manager exists
+  const setRecognitionLanguage = useCallback((locale: string) => {
+    recognitionLanguageRef.current = locale;
+    managerRef.current?.setRecognitionLanguage(locale);
+  }, []);
+
   return {
     isInitialized,
     isListening,
@@ -240,10 +369,13 @@ export function useAudioManager(options?: AudioManagerOptions) {
     currentlyPlayingMessageId,
 
     enqueueAudioChunk,
+    enqueueAudioSamples,
+    markSegmentComplete,
     markRequestComplete,
     playMessageAudio,
     playAudioDirect,
     stopPlayback,
+    interruptPlayback,
     stopRequest,
 
     startListening,
@@ -253,11 +385,19 @@ export function useAudioManager(options?: AudioManagerOptions) {
     setTranscript,
     interimTranscript,
     setInterimTranscript,
+    isUserSpeaking,
+
+    conversationState,
+    startConversation,
+    stopConversation,
+    sendConversationEvent,
 
     playFallbackSpeech,
     getQueueStats,
     setAllowConcurrentRequests,
     setInterimResultDelay,
+    setVADOptions,
+    setRecognitionLanguage,
     // synthesizeSpeech,
   };
 }
\ No newline at end of file
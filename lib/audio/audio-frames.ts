@@ -0,0 +1,179 @@
+// ============================================
+// AUDIO FRAMES
+// Binary transport for streamed speech: PCM16 chunks behind a small header,
+// decoded straight into Float32 samples as the bytes arrive. Routes that
+// stream text as well send their events as JSON frames in between.
+// ============================================
+
+// Sent as the Accept header to ask a TTS route for frames instead of its default format
+export const AUDIO_FRAMES_TYPE = 'application/x-audio-frames';
+
+const FRAME_VERSION = 1;
+const END_FLAG = 1;
+const ERROR_FLAG = 2;
+const EVENT_FLAG = 4;
+
+// version u8, flags u8, segment index u16, chunk index u32, sample rate u32,
+// payload length u32, request id length u8, then the request id (UTF-8) and
+// the payload. All little-endian, like the PCM16 payload itself.
+const HEADER_BYTES = 17;
+
+export interface AudioFrameHeader {
+  requestId: string;
+  // Sentence of a longer reply, 0 for a single text
+  segmentIndex?: number;
+  // On the end frame, the number of chunks that were sent
+  chunkIndex: number;
+  sampleRate?: number;
+  // Last frame of the segment, it carries no audio
+  end?: boolean;
+  // The segment failed, ends it like an end frame
+  error?: string;
+}
+
+export interface AudioFrameEvent {
+  type: string;
+  data: any;
+}
+
+export interface AudioFrame extends Required<Omit<AudioFrameHeader, 'error'>> {
+  error?: string;
+  // An event frame's JSON payload, it carries no audio
+  event?: AudioFrameEvent;
+  // Normalized to [-1, 1]
+  samples: Float32Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeAudioFrame(header: AudioFrameHeader, pcm: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const { requestId, segmentIndex = 0, chunkIndex, sampleRate = 24000, end = false, error } = header;
+  const id = textEncoder.encode(requestId);
+  if (id.length > 255) throw new Error('Audio frame request id is longer than 255 bytes');
+  const payload = error === undefined ? pcm : textEncoder.encode(error);
+
+  const frame = new Uint8Array(HEADER_BYTES + id.length + payload.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, FRAME_VERSION);
+  view.setUint8(1, (end || error !== undefined ? END_FLAG : 0) | (error !== undefined ? ERROR_FLAG : 0));
+  view.setUint16(2, segmentIndex, true);
+  view.setUint32(4, chunkIndex, true);
+  view.setUint32(8, sampleRate, true);
+  view.setUint32(12, payload.length, true);
+  view.setUint8(16, id.length);
+  frame.set(id, HEADER_BYTES);
+  frame.set(payload, HEADER_BYTES + id.length);
+  return frame;
+}
+
+/**
+ * A JSON event in a frames stream, like an SSE `event:`/`data:` pair
+ */
+export function encodeEventFrame(requestId: string, type: string, data: object): Uint8Array {
+  const frame = encodeAudioFrame({ requestId, chunkIndex: 0 }, textEncoder.encode(JSON.stringify({ type, data })));
+  frame[1] = EVENT_FLAG;
+  return frame;
+}
+
+// Reads the samples in place, whatever the payload's alignment
+function toFloat32(view: DataView, offset: number, bytes: number): Float32Array {
+  const samples = new Float32Array(bytes >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(offset + i * 2, true) / 32768;
+  }
+  return samples;
+}
+
+// Samples of received frames back to PCM16, exactly the bytes that were sent
+export function toPCM16(samples: Float32Array[]): Uint8Array {
+  const pcm = new Int16Array(samples.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of samples) {
+    for (let i = 0; i < part.length; i++) pcm[offset++] = Math.round(part[i] * 32768);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+export interface AudioFrameDecoder {
+  // Add received bytes, returns the frames they completed
+  push(bytes: Uint8Array): AudioFrame[];
+  // End of the stream, throws if it stopped inside a frame
+  finish(): void;
+}
+
+/**
+ * Decodes frames from a byte stream cut anywhere. Only the unfinished frame
+ * at the end is kept between pushes.
+ */
+export function createAudioFrameDecoder(): AudioFrameDecoder {
+  let buffer = new Uint8Array(0);
+
+  return {
+    push(bytes) {
+      if (buffer.length > 0) {
+        const joined = new Uint8Array(buffer.length + bytes.length);
+        joined.set(buffer);
+        joined.set(bytes, buffer.length);
+        bytes = joined;
+      }
+
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const frames: AudioFrame[] = [];
+      let offset = 0;
+
+      while (bytes.length - offset >= HEADER_BYTES) {
+        const version = view.getUint8(offset);
+        if (version !== FRAME_VERSION) throw new Error(`Unsupported audio frame version ${version}`);
+        const idBytes = view.getUint8(offset + 16);
+        const payloadBytes = view.getUint32(offset + 12, true);
+        const frameBytes = HEADER_BYTES + idBytes + payloadBytes;
+        if (bytes.length - offset < frameBytes) break;
+
+        const flags = view.getUint8(offset + 1);
+        const payloadOffset = offset + HEADER_BYTES + idBytes;
+        const isError = (flags & ERROR_FLAG) !== 0;
+        const isEvent = (flags & EVENT_FLAG) !== 0;
+        frames.push({
+          requestId: textDecoder.decode(bytes.subarray(offset + HEADER_BYTES, payloadOffset)),
+          segmentIndex: view.getUint16(offset + 2, true),
+          chunkIndex: view.getUint32(offset + 4, true),
+          sampleRate: view.getUint32(offset + 8, true),
+          end: (flags & END_FLAG) !== 0,
+          error: isError ? textDecoder.decode(bytes.subarray(payloadOffset, payloadOffset + payloadBytes)) : undefined,
+          event: isEvent ? JSON.parse(textDecoder.decode(bytes.subarray(payloadOffset, payloadOffset + payloadBytes))) : undefined,
+          samples: isError || isEvent ? new Float32Array(0) : toFloat32(view, payloadOffset, payloadBytes),
+        });
+        offset += frameBytes;
+      }
+
+      // Copied, so the caller's chunk isn't held on to
+      buffer = bytes.slice(offset);
+      return frames;
+    },
+    finish() {
+      if (buffer.length > 0) throw new Error(`Audio stream ended inside a frame (${buffer.length} bytes left)`);
+    },
+  };
+}
+
+/**
+ * Frames from a fetch response body as they arrive. Stops quietly once
+ * `signal` aborts.
+ */
+export async function* readAudioFrames(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncIterable<AudioFrame> {
+  const reader = body.getReader();
+  const decoder = createAudioFrameDecoder();
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (signal?.aborted) return;
+      if (done) break;
+      yield* decoder.push(value);
+    }
+    decoder.finish();
+  } finally {
+    reader.releaseLock();
+  }
+}
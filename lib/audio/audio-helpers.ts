@@ -292,6 +292,11 @@ ${session.errors.length > 0 ? `╠═══════════════
   }
 }
 
+/**
+ * Sample encoding inside a WAV file
+ */
+export type WavEncoding = 'pcm16' | 'mulaw';
+
 /**
  * Type-safe audio conversion utilities
  */
@@ -457,6 +462,111 @@ export class AudioConverter {
       throw error;
     }
   }
+
+  /**
+   * Wrap raw PCM16 in a WAV (RIFF) header so any player can open it.
+   * 'mulaw' stores G.711 μ-law instead, half the size at telephone quality.
+   */
+  static pcm16ToWav(
+    pcm: Uint8Array,
+    sampleRate: number = 24000,
+    numberOfChannels: number = 1,
+    encoding: WavEncoding = 'pcm16'
+  ): Uint8Array {
+    const isMulaw = encoding === 'mulaw';
+    const data = isMulaw ? AudioConverter.pcm16ToMulaw(pcm) : pcm;
+    const bytesPerSample = isMulaw ? 1 : 2;
+    // Non-PCM formats carry a cbSize field and a fact chunk with the sample count
+    const fmtSize = isMulaw ? 18 : 16;
+    const factSize = isMulaw ? 12 : 0;
+    const dataOffset = 20 + fmtSize + factSize;
+    const headerSize = dataOffset + 8;
+
+    const wav = new Uint8Array(headerSize + data.length);
+    const view = new DataView(wav.buffer);
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, headerSize - 8 + data.length, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, fmtSize, true);
+    view.setUint16(20, isMulaw ? 7 : 1, true); // WAVE_FORMAT_MULAW : PCM
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numberOfChannels * bytesPerSample, true); // byte rate
+    view.setUint16(32, numberOfChannels * bytesPerSample, true); // block align
+    view.setUint16(34, bytesPerSample * 8, true);
+    if (isMulaw) {
+      view.setUint16(36, 0, true); // cbSize
+      writeString(38, 'fact');
+      view.setUint32(42, 4, true);
+      view.setUint32(46, data.length / numberOfChannels, true);
+    }
+    writeString(dataOffset, 'data');
+    view.setUint32(dataOffset + 4, data.length, true);
+    wav.set(data, headerSize);
+
+    return wav;
+  }
+
+  /**
+   * Compress PCM16 (little-endian) to 8-bit G.711 μ-law
+   */
+  static pcm16ToMulaw(pcm: Uint8Array): Uint8Array {
+    const BIAS = 0x84;
+    const CLIP = 32635;
+    const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    const mulaw = new Uint8Array(Math.floor(pcm.length / 2));
+
+    for (let i = 0; i < mulaw.length; i++) {
+      let sample = view.getInt16(i * 2, true);
+      const sign = sample < 0 ? 0x80 : 0;
+      if (sign) sample = -sample;
+      sample = Math.min(sample, CLIP) + BIAS;
+
+      let exponent = 7;
+      for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+      const mantissa = (sample >> (exponent + 3)) & 0x0f;
+
+      mulaw[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+    }
+
+    return mulaw;
+  }
+
+  /**
+   * Encode bytes as base64, in the browser or in Node.js
+   */
+  static uint8ArrayToBase64(bytes: Uint8Array): string {
+    if (typeof btoa === 'undefined') {
+      return Buffer.from(bytes).toString('base64');
+    }
+
+    let binary = '';
+    // Chunked so long clips don't overflow the argument list
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * Join base64 audio chunks into one clip. Chunks are decoded first,
+   * since base64 strings only concatenate cleanly without padding.
+   */
+  static concatBase64(chunks: string[]): string {
+    const parts = chunks.map((chunk) => AudioConverter.base64ToUint8Array(chunk));
+    const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+    return AudioConverter.uint8ArrayToBase64(joined);
+  }
 }
 
-export default AudioDebugger;
\ No newline at end of file
+export default AudioDebugger;
@@ -6,22 +6,46 @@
 import { AudioConverter, AudioDebugger, AudioFormat, TTSDebugLogger } from "@/shared/audio/audio-helpers";
 
 interface AudioChunkMetadata {
+  segmentIndex: number;
   chunkIndex: number;
   audioBuffer: AudioBuffer;
   played: boolean;
   timestamp: number;
 }
 
+// A request's audio can arrive as several independently generated segments
+// (one TTS stream per sentence). Each segment numbers its chunks from 0, so
+// playback moves to the next segment once the current one's length is known.
 interface RequestQueueState {
-  chunks: Map<number, AudioChunkMetadata>; // Use Map for O(1) lookups
+  chunks: Map<string, AudioChunkMetadata>; // Keyed by segment and chunk index for O(1) lookups
+  nextExpectedSegment: number;
   nextExpectedIndex: number;
+  playingSegment: number | null; // Segment of the chunk handed out last
+  segmentLengths: Map<number, number>; // Chunk counts of segments whose stream has finished
   messageId: string;
   isComplete: boolean;
   lastActivityTime: number;
 }
 
+export interface PlaybackProgress {
+  segmentIndex: number;
+  scheduledSeconds: number; // Audio of the segment handed to the output so far
+  receivedSeconds: number; // Audio of the segment received so far
+  complete: boolean; // Whether every chunk of the segment has been received
+}
+
+// Where a reply was cut off, for marking how much of it was heard
+export interface PlaybackInterruption {
+  requestId: string;
+  messageId: string;
+  segmentIndex: number;
+  fraction: number; // Share of the segment's audio that was heard, 0-1
+}
+
 class OrderedAudioQueueManager {
   private requestQueues: Map<string, RequestQueueState> = new Map();
+  // Chunks still in flight for a cancelled request must not start a new queue
+  private cancelledRequests: Set<string> = new Set();
   private activeRequestId: string | null = null;
   private allowConcurrentRequests: boolean = true;
   private maxQueueSize: number = 100; // Prevent memory bloat
@@ -40,26 +64,19 @@ class OrderedAudioQueueManager {
     this.startEvictionTimer();
   }
 
-  /**
-   * Add audio chunk to ordered queue. 
-   * Returns true if chunk is ready to play immediately
-   */
-  enqueueChunk(
-    requestId: string,
-    chunkIndex: number,
-    audioBuffer: AudioBuffer,
-    messageId: string
-  ): boolean {
-    if (!this.allowConcurrentRequests && this.activeRequestId && this.activeRequestId !== requestId) {
-      console.warn(`Rejecting concurrent request ${requestId}. Active: ${this.activeRequestId}`);
-      return false;
-    }
+  private chunkKey(segmentIndex: number, chunkIndex: number): string {
+    return `${segmentIndex}:${chunkIndex}`;
+  }
 
+  private getOrCreateQueue(requestId: string, messageId: string): RequestQueueState {
     let queueState = this.requestQueues.get(requestId);
     if (!queueState) {
       queueState = {
         chunks: new Map(),
+        nextExpectedSegment: 0,
         nextExpectedIndex: 0,
+        playingSegment: null,
+        segmentLengths: new Map(),
         messageId,
         isComplete: false,
         lastActivityTime: Date.now()
@@ -69,24 +86,75 @@ class OrderedAudioQueueManager {
 
     queueState.lastActivityTime = Date.now();
 
+    if (!this.activeRequestId) {
+      this.activeRequestId = requestId;
+    }
+
+    return queueState;
+  }
+
+  /**
+   * Move past segments that have been played to the end
+   */
+  private advanceSegment(queueState: RequestQueueState): void {
+    let length = queueState.segmentLengths.get(queueState.nextExpectedSegment);
+    while (length !== undefined && queueState.nextExpectedIndex >= length) {
+      queueState.nextExpectedSegment++;
+      queueState.nextExpectedIndex = 0;
+      length = queueState.segmentLengths.get(queueState.nextExpectedSegment);
+    }
+  }
+
+  /**
+   * Add audio chunk to ordered queue. 
+   * Returns true if chunk is ready to play immediately
+   */
+  enqueueChunk(
+    requestId: string,
+    chunkIndex: number,
+    audioBuffer: AudioBuffer,
+    messageId: string,
+    segmentIndex: number = 0
+  ): boolean {
+    if (this.cancelledRequests.has(requestId)) return false;
+
+    if (!this.allowConcurrentRequests && this.activeRequestId && this.activeRequestId !== requestId) {
+      console.warn(`Rejecting concurrent request ${requestId}. Active: ${this.activeRequestId}`);
+      return false;
+    }
+
+    const queueState = this.getOrCreateQueue(requestId, messageId);
+
     if (queueState.chunks.size >= this.maxQueueSize) {
       console.warn(`Queue size limit reached for ${requestId}. Evicting oldest chunks.`);
       this.evictOldestChunks(requestId, Math.floor(this.maxQueueSize * 0.3));
     }
 
-    queueState.chunks.set(chunkIndex, {
+    queueState.chunks.set(this.chunkKey(segmentIndex, chunkIndex), {
+      segmentIndex,
       chunkIndex,
       audioBuffer,
       played: false,
       timestamp: Date.now()
     });
 
-    if (!this.activeRequestId) {
-      this.activeRequestId = requestId;
-    }
+    this.advanceSegment(queueState);
 
     // Check if this chunk should play immediately
-    return chunkIndex === queueState.nextExpectedIndex && this.activeRequestId === requestId;
+    return segmentIndex === queueState.nextExpectedSegment &&
+      chunkIndex === queueState.nextExpectedIndex &&
+      this.activeRequestId === requestId;
+  }
+
+  /**
+   * Record how many chunks a segment produced, so playback can continue
+   * with the next segment once this one has been played
+   */
+  markSegmentComplete(requestId: string, segmentIndex: number, totalChunks: number, messageId: string): void {
+    if (this.cancelledRequests.has(requestId)) return;
+    const queueState = this.getOrCreateQueue(requestId, messageId);
+    queueState.segmentLengths.set(segmentIndex, totalChunks);
+    this.advanceSegment(queueState);
   }
 
   /**
@@ -97,11 +165,15 @@ class OrderedAudioQueueManager {
     const queueState = this.requestQueues.get(requestId);
     if (!queueState) return null;
 
-    const nextChunk = queueState.chunks.get(queueState.nextExpectedIndex);
+    this.advanceSegment(queueState);
+    const nextChunk = queueState.chunks.get(
+      this.chunkKey(queueState.nextExpectedSegment, queueState.nextExpectedIndex)
+    );
     if (!nextChunk || nextChunk.played) return null;
 
     // Mark as played and increment expected index
     nextChunk.played = true;
+    queueState.playingSegment = queueState.nextExpectedSegment;
     queueState.nextExpectedIndex++;
 
     return nextChunk.audioBuffer;
@@ -114,7 +186,10 @@ class OrderedAudioQueueManager {
     const queueState = this.requestQueues.get(requestId);
     if (!queueState) return false;
 
-    const nextChunk = queueState.chunks.get(queueState.nextExpectedIndex);
+    this.advanceSegment(queueState);
+    const nextChunk = queueState.chunks.get(
+      this.chunkKey(queueState.nextExpectedSegment, queueState.nextExpectedIndex)
+    );
     return nextChunk !== undefined && !nextChunk.played;
   }
 
@@ -166,6 +241,41 @@ class OrderedAudioQueueManager {
     }
   }
 
+  /**
+   * Drop a request's queue and ignore any of its audio that arrives later
+   */
+  cancelRequest(requestId: string): void {
+    this.cancelledRequests.add(requestId);
+    this.clearRequest(requestId);
+  }
+
+  isRequestCancelled(requestId: string): boolean {
+    return this.cancelledRequests.has(requestId);
+  }
+
+  /**
+   * How much of the segment being played has been handed out
+   */
+  getPlaybackProgress(requestId: string): PlaybackProgress | null {
+    const queueState = this.requestQueues.get(requestId);
+    if (!queueState || queueState.playingSegment === null) return null;
+
+    let scheduledSeconds = 0;
+    let receivedSeconds = 0;
+    for (const chunk of queueState.chunks.values()) {
+      if (chunk.segmentIndex !== queueState.playingSegment) continue;
+      receivedSeconds += chunk.audioBuffer.duration;
+      if (chunk.played) scheduledSeconds += chunk.audioBuffer.duration;
+    }
+
+    return {
+      segmentIndex: queueState.playingSegment,
+      scheduledSeconds,
+      receivedSeconds,
+      complete: queueState.segmentLengths.has(queueState.playingSegment),
+    };
+  }
+
   /**
    * Clear all queues
    */
@@ -187,6 +297,7 @@ class OrderedAudioQueueManager {
   getQueueStats(requestId: string): {
     totalChunks: number;
     playedChunks: number;
+    nextExpectedSegment: number;
     nextExpectedIndex: number;
     isComplete: boolean;
   } | null {
@@ -201,6 +312,7 @@ class OrderedAudioQueueManager {
     return {
       totalChunks: queueState.chunks.size,
       playedChunks: playedCount,
+      nextExpectedSegment: queueState.nextExpectedSegment,
       nextExpectedIndex: queueState.nextExpectedIndex,
       isComplete: queueState.isComplete
     };
@@ -219,8 +331,8 @@ class OrderedAudioQueueManager {
       .sort((a, b) => a[1].timestamp - b[1].timestamp)
       .slice(0, count);
 
-    for (const [index, _] of sortedChunks) {
-      queueState.chunks.delete(index);
+    for (const [key, _] of sortedChunks) {
+      queueState.chunks.delete(key);
     }
 
     console.log(`Evicted ${sortedChunks.length} old chunks from ${requestId}`);
@@ -269,6 +381,7 @@ class OrderedAudioQueueManager {
   destroy(): void {
     this.stopEvictionTimer();
     this.clearAll();
+    this.cancelledRequests.clear();
   }
 }
 
@@ -296,6 +409,7 @@ class AudioManager {
   protected orderedQueueManager: OrderedAudioQueueManager;
   private currentPlayingRequestId: string | null = null;
   private playbackStateCallback: ((isPlaying: boolean, messageId: string | null) => void) | null = null;
+  private requestFinishedCallback: ((requestId: string) => void) | null = null;
 
   // Counter for auto-generated request IDs
   private requestIdCounter: number = 0;
@@ -347,13 +461,15 @@ class AudioManager {
     
     if (!nextBuffer) {
       if (this.orderedQueueManager.isRequestFinished(this.currentPlayingRequestId)) {
-        console.log(`Request ${this.currentPlayingRequestId} finished`);
-        this.orderedQueueManager.clearRequest(this.currentPlayingRequestId);
+        const finishedRequestId = this.currentPlayingRequestId;
+        console.log(`Request ${finishedRequestId} finished`);
+        this.orderedQueueManager.clearRequest(finishedRequestId);
         this.currentPlayingRequestId = null;
         this.isPlaying = false;
         this.currentlyPlayingMessageId = null;
         this.reduceInputGain(false);
         this.playbackStateCallback?.(false, null);
+        this.requestFinishedCallback?.(finishedRequestId);
       }
       return;
     }
@@ -409,12 +525,11 @@ class AudioManager {
     chunkIndex: number,
     base64Audio: string,
     messageId: string,
-    onPlaybackStateChange?: (isPlaying: boolean, messageId: string | null) => void
+    onPlaybackStateChange?: (isPlaying: boolean, messageId: string | null) => void,
+    segmentIndex: number = 0
   ): Promise<void> {
-    if (!this.audioContext) await this.initializeAudioContext();
-    if (this.audioContext!.state === 'suspended') await this.audioContext!.resume();
-
     console.group(`🎵 Enqueue Audio Chunk ${chunkIndex}`);
+    let float32Data: Float32Array;
     try {
       if (!AudioDebugger.validate(base64Audio, AudioFormat.BASE64_STRING)) {
         throw new Error('Invalid base64 audio data');
@@ -422,6 +537,7 @@ class AudioManager {
       
       console.log('Input:', {
         requestId,
+        segmentIndex,
         chunkIndex,
         base64Length: base64Audio.length,
         messageId
@@ -433,21 +549,46 @@ class AudioManager {
         byteLength: uint8Array.length
       });
       
-      const float32Data = AudioConverter.int16ToFloat32(uint8Array);
-      
+      float32Data = AudioConverter.int16ToFloat32(uint8Array);
+      console.groupEnd();
+    } catch (error: any) {
+      console.error('Enqueue error:', error);
+      console.groupEnd();
+      AudioDebugger.printSummary();
+      onPlaybackStateChange?.(false, null);
+      throw error;
+    }
+
+    await this.enqueueOrderedAudioSamples(requestId, chunkIndex, float32Data, messageId, onPlaybackStateChange, segmentIndex);
+  }
+
+  /**
+   * Enqueue audio that is already decoded, e.g. from binary audio frames
+   */
+  async enqueueOrderedAudioSamples(
+    requestId: string,
+    chunkIndex: number,
+    float32Data: Float32Array,
+    messageId: string,
+    onPlaybackStateChange?: (isPlaying: boolean, messageId: string | null) => void,
+    segmentIndex: number = 0,
+    sampleRate: number = 24000
+  ): Promise<void> {
+    if (!this.audioContext) await this.initializeAudioContext();
+    if (this.audioContext!.state === 'suspended') await this.audioContext!.resume();
+
+    try {
       if (float32Data.length === 0) {
         console.warn('Empty audio data after conversion');
-        console.groupEnd();
         return;
       }
-  
-      const SAMPLE_RATE = 24000;
+
       const CHANNELS = 1;
       
       const audioBuffer = AudioConverter.createAudioBuffer(
         this.audioContext!,
         float32Data,
-        SAMPLE_RATE,
+        sampleRate,
         CHANNELS
       );
 
@@ -461,7 +602,8 @@ class AudioManager {
         requestId,
         chunkIndex,
         audioBuffer,
-        messageId
+        messageId,
+        segmentIndex
       );
 
       console.log('Enqueued:', {
@@ -480,11 +622,8 @@ class AudioManager {
           this.playNextOrderedChunk();
         }
       }
-
-      console.groupEnd();
     } catch (error: any) {
       console.error('Enqueue error:', error);
-      console.groupEnd();
       AudioDebugger.printSummary();
       onPlaybackStateChange?.(false, null);
       throw error;
@@ -525,8 +664,8 @@ class AudioManager {
   ) {
     this.clearCurrentlyPlayingAudio(onPlaybackStateChange);
     
-    // Use messageId as requestId for simplicity
-    const requestId = `message_${messageId}`;
+    // Each replay is its own request, so an interrupted replay doesn't block the next one
+    const requestId = `message_${messageId}_${++this.requestIdCounter}`;
     
     await this.enqueueOrderedAudioChunk(
       requestId,
@@ -540,6 +679,26 @@ class AudioManager {
     this.orderedQueueManager.markRequestComplete(requestId);
   }
 
+  /**
+   * Mark one segment of a request as fully received
+   */
+  markSegmentComplete(requestId: string, segmentIndex: number, totalChunks: number, messageId: string): void {
+    this.orderedQueueManager.markSegmentComplete(requestId, segmentIndex, totalChunks, messageId);
+
+    if (this.currentPlayingRequestId === requestId) {
+      // Playback may have been waiting on this segment's length to move on
+      if (!this.currentSource) this.playNextOrderedChunk();
+    } else if (
+      !this.currentPlayingRequestId &&
+      this.orderedQueueManager.getActiveRequestId() === requestId &&
+      this.orderedQueueManager.hasNextChunk(requestId)
+    ) {
+      // Later segments arrived before this one finished without audio
+      this.currentPlayingRequestId = requestId;
+      this.playNextOrderedChunk();
+    }
+  }
+
   /**
    * Mark request as complete (all chunks received)
    */
@@ -547,8 +706,12 @@ class AudioManager {
     this.orderedQueueManager.markRequestComplete(requestId);
     
     // Try to finish playback if we were waiting
-    if (this.currentPlayingRequestId === requestId && !this.isPlaying) {
-      this.playNextOrderedChunk();
+    if (this.currentPlayingRequestId === requestId) {
+      if (!this.currentSource) this.playNextOrderedChunk();
+    } else if (this.orderedQueueManager.isRequestFinished(requestId)) {
+      // Nothing was ever played, don't let the empty queue block the next request
+      this.orderedQueueManager.clearRequest(requestId);
+      this.requestFinishedCallback?.(requestId);
     }
   }
 
@@ -586,8 +749,36 @@ class AudioManager {
     this.reduceInputGain(false);
   }
 
+  /**
+   * Barge-in: stop all playback, refuse the rest of the current request's
+   * audio and report how far into it the listener got
+   */
+  interruptPlayback(): PlaybackInterruption | null {
+    const requestId = this.currentPlayingRequestId;
+    const messageId = this.currentlyPlayingMessageId;
+    const progress = requestId ? this.orderedQueueManager.getPlaybackProgress(requestId) : null;
+
+    let interruption: PlaybackInterruption | null = null;
+    if (requestId && messageId && progress) {
+      // The chunk on air has only partly been heard
+      const unheard = this.audioContext ? Math.max(0, this.nextPlayTime - this.audioContext.currentTime) : 0;
+      const heard = Math.max(0, progress.scheduledSeconds - unheard);
+      // A sentence still streaming has no known length, so none of it counts as heard
+      interruption = {
+        requestId,
+        messageId,
+        segmentIndex: progress.segmentIndex,
+        fraction: progress.complete && progress.receivedSeconds > 0 ? Math.min(1, heard / progress.receivedSeconds) : 0,
+      };
+    }
+
+    if (requestId) this.orderedQueueManager.cancelRequest(requestId);
+    this.stopAudio();
+    return interruption;
+  }
+
   stopRequest(requestId: string): void {
-    this.orderedQueueManager.clearRequest(requestId);
+    this.orderedQueueManager.cancelRequest(requestId);
     
     if (this.currentPlayingRequestId === requestId) {
       if (this.currentSource) {
@@ -626,6 +817,13 @@ class AudioManager {
     this.orderedQueueManager.setAllowConcurrentRequests(allow);
   }
 
+  /**
+   * Called when a request's audio has been played to the end
+   */
+  setRequestFinishedCallback(callback: ((requestId: string) => void) | null): void {
+    this.requestFinishedCallback = callback;
+  }
+
   getQueueStats(requestId: string) {
     return this.orderedQueueManager.getQueueStats(requestId);
   }
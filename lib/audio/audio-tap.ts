@@ -0,0 +1,36 @@
+// ============================================
+// AUDIO TAP
+// Reads raw samples off a node in the microphone graph
+// ============================================
+
+export type AudioTapListener = (samples: Float32Array, sampleRate: number) => void;
+
+/**
+ * Deliver the node's output in blocks of bufferSize samples. Returns a
+ * function that disconnects the tap again.
+ */
+export function tapAudioNode(
+  context: AudioContext,
+  source: AudioNode,
+  listener: AudioTapListener,
+  bufferSize: number = 2048
+): () => void {
+  const processor = context.createScriptProcessor(bufferSize, 1, 1);
+  processor.onaudioprocess = (event) => {
+    listener(new Float32Array(event.inputBuffer.getChannelData(0)), context.sampleRate);
+  };
+
+  // A muted sink keeps the processor running without playing the mic back
+  const sink = context.createGain();
+  sink.gain.value = 0;
+  source.connect(processor);
+  processor.connect(sink);
+  sink.connect(context.destination);
+
+  return () => {
+    processor.onaudioprocess = null;
+    source.disconnect(processor);
+    processor.disconnect();
+    sink.disconnect();
+  };
+}
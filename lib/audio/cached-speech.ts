@@ -0,0 +1,59 @@
+// ============================================
+// CACHED SPEECH
+// Synthesis through the TTS cache: text spoken before is replayed from
+// storage, anything new is synthesized and stored once it is complete
+// ============================================
+
+import type { LLMProvider } from '../llm';
+import { TTS_SAMPLE_RATE, ttsAudioUrl, ttsCache, ttsCacheKey } from './tts-cache';
+
+// Stored audio is replayed in one-second chunks
+const CACHED_CHUNK_BYTES = TTS_SAMPLE_RATE * 2;
+
+export interface CachedSpeechRequest {
+  text: string;
+  voiceName: string;
+  language?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface CachedSpeech {
+  cacheKey: string;
+  audioUrl: string;
+  cached: boolean;
+  // Raw PCM16 at 24 kHz, stops early once the signal aborts
+  chunks: AsyncIterable<Uint8Array>;
+}
+
+async function* replay(audio: Uint8Array, signal?: AbortSignal): AsyncIterable<Uint8Array> {
+  for (let offset = 0; offset < audio.length && !signal?.aborted; offset += CACHED_CHUNK_BYTES) {
+    yield audio.subarray(offset, offset + CACHED_CHUNK_BYTES);
+  }
+}
+
+async function* synthesizeAndStore(
+  llm: LLMProvider,
+  cacheKey: string,
+  { text, voiceName, signal }: CachedSpeechRequest
+): AsyncIterable<Uint8Array> {
+  const parts: Buffer[] = [];
+  for await (const chunk of llm.streamSpeech({ text, voiceName, signal })) {
+    if (signal?.aborted) break;
+    parts.push(Buffer.from(chunk));
+    yield chunk;
+  }
+
+  // Partial audio must never reach the cache
+  if (!signal?.aborted) await ttsCache.set(cacheKey, Buffer.concat(parts));
+}
+
+export async function speakWithCache(llm: LLMProvider, request: CachedSpeechRequest): Promise<CachedSpeech> {
+  const cacheKey = ttsCacheKey(request);
+  const audioUrl = ttsAudioUrl(cacheKey);
+
+  const cachedAudio = await ttsCache.get(cacheKey);
+  if (cachedAudio) {
+    return { cacheKey, audioUrl, cached: true, chunks: replay(cachedAudio, request.signal) };
+  }
+  return { cacheKey, audioUrl, cached: false, chunks: synthesizeAndStore(llm, cacheKey, request) };
+}
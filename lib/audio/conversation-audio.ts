@@ -0,0 +1,154 @@
+// ============================================
+// CONVERSATION AUDIO
+// A whole chat as one recording, with a marker per turn
+// ============================================
+
+import { escapeVTT, formatTimestamp } from '../export/transcript';
+import { LEARNER_TTS_VOICE } from '../gemini';
+import { getCachedMessageBytes, getMessageAudio } from './message-audio';
+import { TTS_SAMPLE_RATE } from './tts-cache';
+import { stripMarkdown } from './tts-text';
+
+export const TURN_GAP_MS = 700;
+
+export interface ConversationTurn {
+  role: string; // 'user' | 'assistant'
+  content: string;
+}
+
+export interface ConversationClip extends ConversationTurn {
+  pcm: Uint8Array; // PCM16 mono
+}
+
+export interface ConversationMarker {
+  turn: number; // position of the message in the chat
+  role: string;
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface ConversationAudio {
+  pcm: Uint8Array;
+  markers: ConversationMarker[];
+}
+
+export interface StitchOptions {
+  gapMs?: number;
+  sampleRate?: number;
+}
+
+/**
+ * Where each turn lands in the recording, given the size of its audio.
+ * Turns without audio get no marker.
+ */
+function layoutTurns(
+  turns: Array<ConversationTurn & { bytes: number }>,
+  { gapMs = TURN_GAP_MS, sampleRate = TTS_SAMPLE_RATE }: StitchOptions = {}
+): { markers: ConversationMarker[]; gapBytes: number; totalBytes: number } {
+  const bytesPerSecond = sampleRate * 2;
+  const gapBytes = Math.round((sampleRate * gapMs) / 1000) * 2;
+  const markers: ConversationMarker[] = [];
+  let offset = 0;
+
+  turns.forEach(({ role, content, bytes }, turn) => {
+    if (bytes === 0) return;
+    if (markers.length > 0) offset += gapBytes;
+    markers.push({
+      turn,
+      role,
+      start: offset / bytesPerSecond,
+      end: (offset + bytes) / bytesPerSecond,
+      text: stripMarkdown(content).replace(/\s+/g, ' ').trim(),
+    });
+    offset += bytes;
+  });
+
+  return { markers, gapBytes, totalBytes: offset };
+}
+
+/**
+ * Joins turn clips with a short silence between them. Turns without audio
+ * are left out of both the recording and the markers.
+ */
+export function stitchConversationAudio(clips: ConversationClip[], options: StitchOptions = {}): ConversationAudio {
+  // An odd byte would shift every later sample
+  const trimmed = clips.map((clip) => clip.pcm.subarray(0, clip.pcm.length - (clip.pcm.length % 2)));
+  const { markers, gapBytes, totalBytes } = layoutTurns(
+    clips.map((clip, turn) => ({ ...clip, bytes: trimmed[turn].length })),
+    options
+  );
+
+  const pcm = new Uint8Array(totalBytes);
+  let position = 0;
+  for (const part of trimmed.filter((part) => part.length > 0)) {
+    // The gap is left as silence
+    if (position > 0) position += gapBytes;
+    pcm.set(part, position);
+    position += part.length;
+  }
+
+  return { pcm, markers };
+}
+
+/**
+ * Chapter markers as WebVTT, one cue per turn
+ */
+export function markersToWebVTT(markers: ConversationMarker[]): string {
+  const cues = markers.map((marker, index) => {
+    const speaker = marker.role === 'user' ? 'You' : 'Tutor';
+    return `${index + 1}\n${formatTimestamp(marker.start)} --> ${formatTimestamp(marker.end)}\n${speaker}: ${escapeVTT(marker.text)}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Every assistant reply from the TTS cache, plus the learner's turns read
+ * in a second voice when `includeUserTurns` is set
+ */
+export async function getConversationAudio(
+  turns: ConversationTurn[],
+  language?: string | null,
+  { includeUserTurns = false, ...options }: StitchOptions & { includeUserTurns?: boolean } = {}
+): Promise<ConversationAudio> {
+  const clips: ConversationClip[] = [];
+
+  for (const turn of turns) {
+    let pcm: Uint8Array = new Uint8Array(0);
+    if (turn.role === 'assistant') {
+      pcm = await getMessageAudio(turn.content, language);
+    } else if (turn.role === 'user' && includeUserTurns) {
+      pcm = await getMessageAudio(turn.content, language, LEARNER_TTS_VOICE);
+    }
+    clips.push({ ...turn, pcm });
+  }
+
+  return stitchConversationAudio(clips, options);
+}
+
+/**
+ * The markers and length getConversationAudio would give, timed from the
+ * TTS cache alone. Null when a turn has no cached audio yet, since nothing
+ * is synthesized here.
+ */
+export async function getCachedConversationMarkers(
+  turns: ConversationTurn[],
+  language?: string | null,
+  { includeUserTurns = false, ...options }: StitchOptions & { includeUserTurns?: boolean } = {}
+): Promise<{ duration: number; markers: ConversationMarker[] } | null> {
+  const sized: Array<ConversationTurn & { bytes: number }> = [];
+
+  for (const turn of turns) {
+    let bytes: number | undefined = 0;
+    if (turn.role === 'assistant') {
+      bytes = await getCachedMessageBytes(turn.content, language);
+    } else if (turn.role === 'user' && includeUserTurns) {
+      bytes = await getCachedMessageBytes(turn.content, language, LEARNER_TTS_VOICE);
+    }
+    if (bytes === undefined) return null;
+    sized.push({ ...turn, bytes: bytes - (bytes % 2) });
+  }
+
+  const { markers, totalBytes } = layoutTurns(sized, options);
+  return { duration: totalBytes / ((options.sampleRate ?? TTS_SAMPLE_RATE) * 2), markers };
+}
@@ -0,0 +1,172 @@
+// ============================================
+// CONVERSATION STATE MACHINE
+// Hands-free turn taking: idle → listening → thinking → speaking → listening
+// ============================================
+
+export type ConversationState = 'idle' | 'listening' | 'thinking' | 'speaking' | 'paused';
+
+export type ConversationEvent =
+  | 'start' // hands-free turned on, or resumed after a pause
+  | 'stop'
+  | 'speech-start' // voice activity from the learner
+  | 'turn-end' // the learner's turn was transcribed and sent
+  | 'playback-start'
+  | 'playback-stop' // playback stopped before the end, e.g. by hand
+  | 'request-finished' // the audio queue played a reply to the end
+  | 'reply-failed'
+  | 'inactivity'
+  | 'thinking-timeout';
+
+export interface ConversationOptions {
+  inactivityMs?: number; // listening this long without speech pauses the conversation
+  thinkingTimeoutMs?: number; // a reply that never starts playing hands the turn back
+}
+
+export type ConversationListener = (state: ConversationState, previous: ConversationState, event: ConversationEvent) => void;
+
+const TRANSITIONS: Record<ConversationState, Partial<Record<ConversationEvent, ConversationState>>> = {
+  idle: { start: 'listening' },
+  paused: { start: 'listening', stop: 'idle' },
+  listening: {
+    stop: 'idle',
+    'speech-start': 'listening',
+    'turn-end': 'thinking',
+    // e.g. the tutor's greeting
+    'playback-start': 'speaking',
+    inactivity: 'paused',
+  },
+  thinking: {
+    stop: 'idle',
+    'playback-start': 'speaking',
+    'request-finished': 'listening',
+    'reply-failed': 'listening',
+    'thinking-timeout': 'listening',
+  },
+  speaking: {
+    stop: 'idle',
+    // Barge-in
+    'speech-start': 'listening',
+    'playback-stop': 'listening',
+    'request-finished': 'listening',
+    'reply-failed': 'listening',
+  },
+};
+
+/**
+ * The microphone stays open while the tutor thinks and speaks, so the
+ * learner can talk over a reply
+ */
+export function isMicrophoneOpen(state: ConversationState): boolean {
+  return state === 'listening' || state === 'thinking' || state === 'speaking';
+}
+
+export class ConversationStateMachine {
+  private current: ConversationState = 'idle';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<ConversationListener>();
+  private inactivityMs: number;
+  private thinkingTimeoutMs: number;
+
+  constructor(options: ConversationOptions = {}) {
+    this.inactivityMs = options.inactivityMs ?? 60000;
+    this.thinkingTimeoutMs = options.thinkingTimeoutMs ?? 20000;
+  }
+
+  get state(): ConversationState {
+    return this.current;
+  }
+
+  subscribe(listener: ConversationListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Apply an event. Returns false when the current state ignores it.
+   */
+  send(event: ConversationEvent): boolean {
+    const next = TRANSITIONS[this.current][event];
+    if (!next) return false;
+
+    const previous = this.current;
+    this.current = next;
+    this.startTimer();
+    if (next !== previous) {
+      this.listeners.forEach((listener) => listener(next, previous, event));
+    }
+    return true;
+  }
+
+  destroy() {
+    this.clearTimer();
+    this.listeners.clear();
+  }
+
+  // Each state gets a fresh timer, so speech while listening restarts the inactivity countdown
+  private startTimer() {
+    this.clearTimer();
+    if (this.current === 'listening') {
+      this.timer = setTimeout(() => this.send('inactivity'), this.inactivityMs);
+    } else if (this.current === 'thinking') {
+      this.timer = setTimeout(() => this.send('thinking-timeout'), this.thinkingTimeoutMs);
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Open and close the microphone as the conversation moves in and out of
+ * states that listen. Returns a function that stops syncing.
+ */
+export function syncMicrophone(
+  machine: ConversationStateMachine,
+  microphone: { start: () => void; stop: () => void }
+): () => void {
+  return machine.subscribe((state, previous) => {
+    const open = isMicrophoneOpen(state);
+    if (open === isMicrophoneOpen(previous)) return;
+    if (open) microphone.start();
+    else microphone.stop();
+  });
+}
+
+export interface TurnQueue {
+  // A final transcript: sent now, or held while the tutor is thinking
+  push(text: string): void;
+  // Stops queuing, anything held is dropped
+  dispose(): void;
+}
+
+/**
+ * Final transcripts that arrive while the tutor is thinking are held and
+ * sent together as the next turn once the conversation listens again.
+ * Stopping the conversation drops them.
+ */
+export function queueTurns(machine: ConversationStateMachine, submit: (text: string) => void): TurnQueue {
+  let held: string[] = [];
+
+  const unsubscribe = machine.subscribe((state) => {
+    if (state === 'idle') held = [];
+    if (state !== 'listening' || held.length === 0) return;
+
+    const text = held.join(' ');
+    held = [];
+    // Sent after this transition has reached every listener
+    queueMicrotask(() => submit(text));
+  });
+
+  return {
+    push(text) {
+      if (machine.state === 'thinking') held.push(text);
+      else submit(text);
+    },
+    dispose() {
+      held = [];
+      unsubscribe();
+    },
+  };
+}
@@ -0,0 +1,86 @@
+// ============================================
+// MESSAGE AUDIO
+// A whole assistant reply as one clip, assembled from the per-sentence TTS cache
+// ============================================
+
+import { getTTSVoice } from '../gemini';
+import { synthesizeSpeech } from '../llm';
+import { isLanguageName } from '../utils';
+import { createSentenceSegmenter, joinSentences, prepareSpeechSentences } from './tts-text';
+import { TTS_SAMPLE_RATE, ttsCache, ttsCacheKey } from './tts-cache';
+
+export interface MessageSpeechSegment {
+  text: string; // prepared text, exactly as sent to TTS
+  key: string; // TTS cache key of its audio
+}
+
+/**
+ * The sentences a reply was spoken as while it streamed. Segmentation and
+ * preparation match the chat client and the TTS route, so every segment's
+ * audio is usually already cached.
+ */
+export function messageSpeechSegments(
+  content: string,
+  language?: string | null,
+  voiceName: string = getTTSVoice(language)
+): MessageSpeechSegment[] {
+  const speechLanguage = isLanguageName(language) ? language : null;
+  const segmenter = createSentenceSegmenter(speechLanguage);
+
+  return [...segmenter.push(content), ...segmenter.flush()]
+    .map((sentence) => joinSentences(prepareSpeechSentences(sentence, speechLanguage), speechLanguage))
+    .filter(Boolean)
+    .map((text) => ({ text, key: ttsCacheKey({ text, voiceName, language }) }));
+}
+
+/**
+ * Raw PCM16 (24 kHz mono) for a reply. Segments missing from the cache are
+ * synthesized one at a time and cached for next time.
+ */
+export async function getMessageAudio(
+  content: string,
+  language?: string | null,
+  voiceName: string = getTTSVoice(language)
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+
+  for (const { text, key } of messageSpeechSegments(content, language, voiceName)) {
+    let pcm = await ttsCache.get(key);
+    if (!pcm) {
+      pcm = await synthesizeSpeech(text, language, voiceName);
+      await ttsCache.set(key, pcm);
+    }
+    parts.push(pcm);
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Size in bytes of a reply's audio, if every segment is already cached, and
+ * 0 for a reply with nothing to speak. Never synthesizes.
+ */
+export async function getCachedMessageBytes(
+  content: string,
+  language?: string | null,
+  voiceName: string = getTTSVoice(language)
+): Promise<number | undefined> {
+  let bytes = 0;
+
+  for (const { key } of messageSpeechSegments(content, language, voiceName)) {
+    const pcm = await ttsCache.get(key);
+    if (!pcm) return undefined;
+    bytes += pcm.length;
+  }
+
+  return bytes;
+}
+
+/**
+ * Length in seconds of a reply's audio, if every segment is already cached.
+ * Never synthesizes, so it's cheap enough for timing a transcript.
+ */
+export async function getCachedMessageDuration(content: string, language?: string | null): Promise<number | undefined> {
+  const bytes = await getCachedMessageBytes(content, language);
+  return bytes ? bytes / (TTS_SAMPLE_RATE * 2) : undefined;
+}
@@ -0,0 +1,220 @@
+// ============================================
+// SERVER TRANSCRIBER
+// Microphone capture for browsers without the Web Speech API: PCM16 chunks
+// are posted to /api/transcribe and come back as interim and final results
+// ============================================
+
+import { tapAudioNode } from './audio-tap';
+
+export const STT_SAMPLE_RATE = 16000;
+
+export interface TranscriberCallbacks {
+  onResult: (text: string) => void;
+  onInterimResult: (text: string) => void;
+  onError: (error: string) => void;
+}
+
+export interface ServerTranscriberOptions {
+  endpoint?: string;
+  locale?: string | null;
+  partialIntervalMs?: number; // how often the utterance so far is re-transcribed
+  silenceMs?: number; // quiet time that ends an utterance
+  silenceThreshold?: number; // RMS below which a frame counts as quiet
+  maxUtteranceMs?: number;
+  preRollMs?: number; // audio kept from before speech starts, so the first syllable isn't clipped
+  fetch?: typeof fetch;
+}
+
+/**
+ * Downsample Web Audio float samples to little-endian PCM16, averaging the
+ * input samples each output sample covers
+ */
+export function floatToPCM16(input: Float32Array, inputRate: number, outputRate: number = STT_SAMPLE_RATE): Uint8Array {
+  const ratio = inputRate / outputRate;
+  const length = Math.floor(input.length / ratio);
+  const pcm = new Uint8Array(length * 2);
+  const view = new DataView(pcm.buffer);
+
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.max(start + 1, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    const sample = Math.max(-1, Math.min(1, sum / (end - start)));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return pcm;
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+const samplesToMs = (samples: number) => (samples / STT_SAMPLE_RATE) * 1000;
+
+export class ServerTranscriber {
+  private endpoint: string;
+  private locale: string | null;
+  private partialIntervalMs: number;
+  private silenceMs: number;
+  private silenceThreshold: number;
+  private maxUtteranceMs: number;
+  private preRollMs: number;
+  private fetcher: typeof fetch;
+
+  private chunks: Uint8Array[] = [];
+  private preRoll: Uint8Array[] = [];
+  private preRollSamples = 0;
+  private inUtterance = false;
+  private utteranceId = 0;
+  private utteranceSamples = 0;
+  private silentSamples = 0;
+  private samplesSincePartial = 0;
+
+  // Partials can come back out of order, only the newest is shown
+  private partialSequence = 0;
+  private shownPartial = 0;
+  // Finals are delivered in the order the utterances ended
+  private finals: Promise<void> = Promise.resolve();
+  private pending = new Set<Promise<void>>();
+
+  private untap: (() => void) | null = null;
+
+  constructor(private callbacks: TranscriberCallbacks, options: ServerTranscriberOptions = {}) {
+    this.endpoint = options.endpoint ?? '/api/transcribe';
+    this.locale = options.locale ?? null;
+    this.partialIntervalMs = options.partialIntervalMs ?? 1500;
+    this.silenceMs = options.silenceMs ?? 1000;
+    this.silenceThreshold = options.silenceThreshold ?? 0.015;
+    this.maxUtteranceMs = options.maxUtteranceMs ?? 15000;
+    this.preRollMs = options.preRollMs ?? 300;
+    this.fetcher = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  /**
+   * Tap an audio node, usually the input gain node of the microphone graph
+   */
+  start(context: AudioContext, source: AudioNode) {
+    this.untap = tapAudioNode(context, source, (samples, sampleRate) => this.pushAudio(samples, sampleRate), 4096);
+  }
+
+  /**
+   * Stop capturing and transcribe whatever was said last
+   */
+  async stop(): Promise<void> {
+    this.untap?.();
+    this.untap = null;
+    await this.flush();
+  }
+
+  /**
+   * Feed one frame of microphone audio. Exposed so capture can be driven
+   * without Web Audio.
+   */
+  pushAudio(frame: Float32Array, sampleRate: number) {
+    const pcm = floatToPCM16(frame, sampleRate);
+    const samples = pcm.length / 2;
+    const isVoice = rms(frame) >= this.silenceThreshold;
+
+    if (!this.inUtterance) {
+      this.preRoll.push(pcm);
+      this.preRollSamples += samples;
+      // Keep up to preRollMs before the newest frame
+      while (this.preRoll.length > 1 && samplesToMs(this.preRollSamples - samples - this.preRoll[0].length / 2) >= this.preRollMs) {
+        this.preRollSamples -= this.preRoll.shift()!.length / 2;
+      }
+      if (!isVoice) return;
+
+      this.inUtterance = true;
+      this.utteranceId++;
+      this.chunks = this.preRoll;
+      this.utteranceSamples = this.preRollSamples;
+      this.samplesSincePartial = this.preRollSamples;
+      this.silentSamples = 0;
+      this.preRoll = [];
+      this.preRollSamples = 0;
+    } else {
+      this.chunks.push(pcm);
+      this.utteranceSamples += samples;
+      this.samplesSincePartial += samples;
+      this.silentSamples = isVoice ? 0 : this.silentSamples + samples;
+    }
+
+    if (samplesToMs(this.silentSamples) >= this.silenceMs || samplesToMs(this.utteranceSamples) >= this.maxUtteranceMs) {
+      this.endUtterance();
+    } else if (samplesToMs(this.samplesSincePartial) >= this.partialIntervalMs) {
+      this.samplesSincePartial = 0;
+      this.sendPartial();
+    }
+  }
+
+  /**
+   * End the current utterance now, resolves once every request has settled
+   */
+  async flush(): Promise<void> {
+    if (this.inUtterance) this.endUtterance();
+    await Promise.all([...this.pending]);
+  }
+
+  private endUtterance() {
+    const result = this.transcribe(concat(this.chunks));
+    this.inUtterance = false;
+    this.chunks = [];
+
+    this.track(this.finals = this.finals.then(() => result).then(
+      (text) => { if (text) this.callbacks.onResult(text); },
+      (error) => this.callbacks.onError(error.message || 'Transcription failed')
+    ));
+  }
+
+  private sendPartial() {
+    const utterance = this.utteranceId;
+    const sequence = ++this.partialSequence;
+
+    this.track(this.transcribe(concat(this.chunks)).then(
+      (text) => {
+        // Drop partials for an utterance that has since ended
+        if (!text || utterance !== this.utteranceId || !this.inUtterance || sequence < this.shownPartial) return;
+        this.shownPartial = sequence;
+        this.callbacks.onInterimResult(text);
+      },
+      // A lost partial is replaced by the next one
+      (error) => console.warn('Interim transcription failed:', error)
+    ));
+  }
+
+  private track(request: Promise<void>) {
+    this.pending.add(request);
+    request.finally(() => this.pending.delete(request));
+  }
+
+  private async transcribe(audio: Uint8Array): Promise<string> {
+    const params = new URLSearchParams({ sampleRate: String(STT_SAMPLE_RATE) });
+    if (this.locale) params.set('locale', this.locale);
+
+    const response = await this.fetcher(`${this.endpoint}?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: audio as BodyInit,
+    });
+    if (!response.ok) {
+      throw new Error(`Transcription failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { text } = await response.json();
+    return typeof text === 'string' ? text.trim() : '';
+  }
+}
@@ -1,4 +1,12 @@
 import { AudioManager, convertInt16ToFloat32 } from "./audio-manager";
+import { ServerTranscriber } from "./server-transcriber";
+import { tapAudioNode } from "./audio-tap";
+import { SpeechTurn, VADOptions, VoiceActivityDetector } from "./vad";
+
+export interface VoiceActivityCallbacks {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
 
 export class SpeechRecognitionManager extends AudioManager {
   private recognition: any = null;
@@ -7,22 +15,35 @@ export class SpeechRecognitionManager extends AudioManager {
   private onInterimResult: ((text: string) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
   private interimDebounceTimer: NodeJS.Timeout | null = null;
-  private interimDebounceDelay: number = 4000;
+  // Barge-in now follows voice activity, interims only need to avoid flicker
+  private interimDebounceDelay: number = 300;
   private mediaStream: MediaStream | null = null;
   private audioTracks: MediaStreamTrack[] = [];
-
-  async initialize() {
+  private recognitionLang: string = 'en-US';
+  // Browsers without the Web Speech API (Firefox, many webviews) transcribe on the server
+  private useServerTranscription: boolean = false;
+  private serverTranscriber: ServerTranscriber | null = null;
+  // Voice activity on the input gain node decides when a spoken turn starts and ends
+  private vad = new VoiceActivityDetector();
+  private untapVAD: (() => void) | null = null;
+  private voiceActivity: VoiceActivityCallbacks = {};
+  private speechTurn = new SpeechTurn((text) => this.onResult?.(text));
+
+  async initialize(locale?: string) {
+    if (locale) this.recognitionLang = locale;
     await this.initializeAudioContext();
 
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-      throw new Error('Speech recognition not supported');
+      console.log('Speech recognition not supported, using server transcription');
+      this.useServerTranscription = true;
+      return;
     }
 
     const SR = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     this.recognition = new SR();
     this.recognition.continuous = true;
     this.recognition.interimResults = true;
-    this.recognition.lang = 'en-US';
+    this.recognition.lang = this.recognitionLang;
 
     this.recognition.onresult = async (event: any) => this.handleRecognitionResult(event);
     this.recognition.onerror = (event: any) => this.onError?.(event.error);
@@ -49,27 +70,45 @@ export class SpeechRecognitionManager extends AudioManager {
       }
     }
 
-    if (finalTranscript && this.onResult) {
-      if (this.interimDebounceTimer) {
-        clearTimeout(this.interimDebounceTimer);
-        this.interimDebounceTimer = null;
-      }
-      this.onResult(finalTranscript);
+    if (finalTranscript) this.handleFinalResult(finalTranscript);
+    if (interimTranscript) this.handleInterimResult(interimTranscript);
+  };
+
+  private handleFinalResult(text: string) {
+    if (this.interimDebounceTimer) {
+      clearTimeout(this.interimDebounceTimer);
+      this.interimDebounceTimer = null;
     }
-    
-    if (interimTranscript && this.onInterimResult) {
-      if (this.interimDebounceTimer) {
-        clearTimeout(this.interimDebounceTimer);
+    this.speechTurn.addFinal(text);
+    // Still speaking: show the turn so far instead of submitting it
+    if (this.speechTurn.text) this.onInterimResult?.(this.speechTurn.text);
+  }
+
+  private handleInterimResult(text: string) {
+    this.speechTurn.setInterim(text);
+    if (this.interimDebounceTimer) {
+      clearTimeout(this.interimDebounceTimer);
+    }
+
+    this.interimDebounceTimer = setTimeout(() => {
+      this.onInterimResult?.(this.speechTurn.text);
+      this.interimDebounceTimer = null;
+    }, this.interimDebounceDelay);
+  }
+
+  private handleAudioFrame(samples: Float32Array, sampleRate: number) {
+    for (const event of this.vad.process(samples, sampleRate)) {
+      if (event.type === 'speech-start') {
+        this.speechTurn.speechStart();
+        this.voiceActivity.onSpeechStart?.();
+      } else {
+        this.speechTurn.speechEnd();
+        // Don't wait for the server's own silence timeout
+        this.serverTranscriber?.flush();
+        this.voiceActivity.onSpeechEnd?.();
       }
-      
-      this.interimDebounceTimer = setTimeout(() => {
-        if (this.onInterimResult) {
-          this.onInterimResult(interimTranscript);
-        }
-        this.interimDebounceTimer = null;
-      }, this.interimDebounceDelay);
     }
-  };
+  }
 
   /**
    * Start listening with echo cancellation
@@ -77,13 +116,15 @@ export class SpeechRecognitionManager extends AudioManager {
   async startListening(
     onResult: (text: string) => void,
     onInterimResult: (text: string) => void,
-    onError: (error: string) => void
+    onError: (error: string) => void,
+    voiceActivity: VoiceActivityCallbacks = {}
   ) {
-    if (!this.recognition) await this.initialize();
+    if (!this.recognition && !this.useServerTranscription) await this.initialize();
     
     this.onResult = onResult;
     this.onInterimResult = onInterimResult;
     this.onError = onError;
+    this.voiceActivity = voiceActivity;
 
     try {
       const constraints: MediaStreamConstraints = {
@@ -112,7 +153,27 @@ export class SpeechRecognitionManager extends AudioManager {
         console.log('\n');
       });
 
-      this.recognition.start();
+      this.vad.reset();
+      this.speechTurn.reset();
+      this.untapVAD = tapAudioNode(this.audioContext!, this.inputGainNode, (samples, sampleRate) => this.handleAudioFrame(samples, sampleRate));
+
+      if (this.useServerTranscription) {
+        // Results arrive already settled, so interims skip the debounce
+        this.serverTranscriber = new ServerTranscriber(
+          {
+            onResult: (text) => this.handleFinalResult(text),
+            onInterimResult: (text) => {
+              this.speechTurn.setInterim(text);
+              this.onInterimResult?.(this.speechTurn.text);
+            },
+            onError: (error) => this.onError?.(error),
+          },
+          { locale: this.recognitionLang }
+        );
+        this.serverTranscriber.start(this.audioContext!, this.inputGainNode);
+      } else {
+        this.recognition.start();
+      }
       this.isListening = true;
 
     } catch (error: any) {
@@ -125,6 +186,11 @@ export class SpeechRecognitionManager extends AudioManager {
 
   stopListening() {
     this.recognition?.stop();
+    this.serverTranscriber?.stop();
+    this.serverTranscriber = null;
+    this.untapVAD?.();
+    this.untapVAD = null;
+    this.speechTurn.reset();
     
     if (this.interimDebounceTimer) {
       clearTimeout(this.interimDebounceTimer);
@@ -147,14 +213,39 @@ export class SpeechRecognitionManager extends AudioManager {
     chunkIndex: number,
     audioData: string,
     messageId: string,
-    onPlaybackStateChange: (isPlaying: boolean, messageId: string | null) => void
+    onPlaybackStateChange: (isPlaying: boolean, messageId: string | null) => void,
+    segmentIndex: number = 0
   ): Promise<void> {
     await this.enqueueOrderedAudioChunk(
       requestId,
       chunkIndex,
       audioData,
       messageId,
-      onPlaybackStateChange
+      onPlaybackStateChange,
+      segmentIndex
+    );
+  }
+
+  /**
+   * Process decoded samples from binary audio frames, ordered like streamed chunks
+   */
+  async processStreamedAudioSamples(
+    requestId: string,
+    chunkIndex: number,
+    samples: Float32Array,
+    sampleRate: number,
+    messageId: string,
+    onPlaybackStateChange: (isPlaying: boolean, messageId: string | null) => void,
+    segmentIndex: number = 0
+  ): Promise<void> {
+    await this.enqueueOrderedAudioSamples(
+      requestId,
+      chunkIndex,
+      samples,
+      messageId,
+      onPlaybackStateChange,
+      segmentIndex,
+      sampleRate
     );
   }
 
@@ -318,6 +409,24 @@ export class SpeechRecognitionManager extends AudioManager {
     }
   }
   
+  /**
+   * Set the BCP-47 locale the recognizer listens for (e.g. 'de-DE').
+   * Takes effect on the next startListening call.
+   */
+  setRecognitionLanguage(locale: string) {
+    this.recognitionLang = locale;
+    if (this.recognition) {
+      this.recognition.lang = locale;
+    }
+  }
+
+  /**
+   * Tune the voice activity detector, e.g. a longer hangover for slow speakers
+   */
+  setVADOptions(options: VADOptions) {
+    this.vad.setOptions(options);
+  }
+
   setInterimResultDelay(delayMs: number) {
     this.interimDebounceDelay = delayMs;
   }
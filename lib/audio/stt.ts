@@ -0,0 +1,83 @@
+// ============================================
+// SPEECH-TO-TEXT PROVIDERS
+// Server-side transcription for browsers without the Web Speech API
+// ============================================
+
+import { getLLMProvider, LLMProvider } from '../llm';
+import { AudioConverter } from './audio-helpers';
+
+export interface TranscriptionRequest {
+  audio: Uint8Array; // PCM16 mono
+  sampleRate: number;
+  locale?: string | null; // BCP-47, e.g. 'de-DE'
+}
+
+export interface TranscriptionResult {
+  text: string;
+}
+
+export interface STTProvider {
+  name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+/**
+ * Transcribes by asking the LLM provider about a WAV of the recording, so
+ * LLM_PROVIDER=fake covers it too
+ */
+export class LLMSTTProvider implements STTProvider {
+  name = 'llm';
+
+  constructor(private llm?: LLMProvider, private model?: string) {}
+
+  async transcribe({ audio, sampleRate, locale }: TranscriptionRequest): Promise<TranscriptionResult> {
+    const text = await (this.llm ?? getLLMProvider()).transcribeAudio({
+      model: this.model,
+      audio: AudioConverter.pcm16ToWav(audio, sampleRate),
+      mimeType: 'audio/wav',
+      prompt: transcriptionPrompt(locale),
+    });
+
+    return { text };
+  }
+}
+
+function transcriptionPrompt(locale?: string | null): string {
+  return [
+    'Transcribe this recording of a language learner, word for word.',
+    locale ? `They are mostly speaking ${locale}, but may switch to English.` : '',
+    'Keep their mistakes, do not correct or translate anything.',
+    'Reply with only the transcript, or nothing if no one is speaking.',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Deterministic provider for tests and local development without an API key.
+ * Without a custom transcriber it reports how much audio it received.
+ */
+export class FakeSTTProvider implements STTProvider {
+  name = 'fake';
+  readonly requests: TranscriptionRequest[] = [];
+
+  constructor(private transcriber?: (request: TranscriptionRequest) => string) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    this.requests.push(request);
+    const seconds = request.audio.length / 2 / request.sampleRate;
+    return { text: this.transcriber?.(request) ?? `${seconds.toFixed(1)} seconds of speech` };
+  }
+}
+
+let provider: STTProvider | null = null;
+
+// STT_PROVIDER=fake swaps in the fake, the LLM provider otherwise
+export function getSTTProvider(): STTProvider {
+  if (!provider) {
+    provider = process.env.STT_PROVIDER === 'fake' ? new FakeSTTProvider() : new LLMSTTProvider();
+  }
+  return provider;
+}
+
+export function setSTTProvider(next: STTProvider | null): void {
+  provider = next;
+}
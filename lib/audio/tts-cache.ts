@@ -0,0 +1,91 @@
+// ============================================
+// TTS AUDIO CACHE
+// Content-addressed store for synthesized speech (raw PCM16, 24 kHz mono)
+// ============================================
+
+import { createHash } from 'node:crypto';
+import { createStorage, Storage } from 'unstorage';
+import fsDriver from 'unstorage/drivers/fs';
+import vercelBlobDriver from 'unstorage/drivers/vercel-blob';
+
+export const TTS_SAMPLE_RATE = 24000;
+
+export interface TTSCacheEntry {
+  text: string;
+  voiceName: string;
+  language?: string | null;
+}
+
+/**
+ * Text that only differs in Unicode composition or whitespace is the same speech
+ */
+export function normalizeTTSText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function ttsCacheKey({ text, voiceName, language }: TTSCacheEntry): string {
+  return createHash('sha256')
+    .update(JSON.stringify([normalizeTTSText(text), voiceName, language?.toLowerCase() ?? '']))
+    .digest('hex');
+}
+
+export function isTTSCacheKey(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+const AUDIO_ROUTE = '/api/tts/audio/';
+
+// Playable URL for cached audio, served as WAV by the audio route
+export function ttsAudioUrl(key: string): string {
+  return `${AUDIO_ROUTE}${key}`;
+}
+
+// Only URLs we generated, never a placeholder the model made up
+export function isTTSAudioUrl(url: string | null | undefined): url is string {
+  return !!url && url.startsWith(AUDIO_ROUTE) && isTTSCacheKey(url.slice(AUDIO_ROUTE.length));
+}
+
+export class TTSAudioCache {
+  constructor(private storage: Storage) {}
+
+  private storageKey(key: string): string {
+    return `${key}.pcm`;
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      const raw = await this.storage.getItemRaw(this.storageKey(key));
+      if (!raw) return null;
+      return raw instanceof Uint8Array ? raw : new Uint8Array(raw as ArrayBuffer);
+    } catch (error) {
+      // A broken cache only costs a fresh synthesis
+      console.warn('TTS cache read failed:', error);
+      return null;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return await this.storage.hasItem(this.storageKey(key));
+    } catch (error) {
+      console.warn('TTS cache lookup failed:', error);
+      return false;
+    }
+  }
+
+  async set(key: string, pcm: Uint8Array): Promise<void> {
+    if (pcm.length === 0) return;
+    try {
+      await this.storage.setItemRaw(this.storageKey(key), pcm, { contentType: 'audio/pcm', allowOverwrite: true });
+    } catch (error) {
+      console.warn('TTS cache write failed:', error);
+    }
+  }
+}
+
+// Blob storage on Vercel, the local filesystem in development
+export const ttsCache = new TTSAudioCache(createStorage({
+  driver: process.env.VERCEL
+    ? vercelBlobDriver({ access: 'public', base: 'tts-cache' })
+    : fsDriver({ base: process.env.TTS_CACHE_DIR ?? '.cache/tts' }),
+}));
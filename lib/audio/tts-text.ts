@@ -0,0 +1,683 @@
+// ============================================
+// TTS TEXT PREPARATION
+// Turns a tutor reply into plain, speakable sentences in the target language
+// ============================================
+
+import { LanguageName } from '../utils';
+
+// Sentence terminators, including full-width CJK punctuation
+const TERMINATORS = '.!?…。！？';
+const CJK_TERMINATORS = /[。！？]/;
+const CLOSERS = '»"\'”’」』）)\\]';
+const SENTENCE_END = new RegExp(`[${TERMINATORS}]+[${CLOSERS}]*`, 'gu');
+
+const EMOJI = /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u200D\uFE0E\uFE0F\u20E3]/gu;
+const INVISIBLE = /[\p{Cc}\p{Cf}]/gu;
+
+// ---------- Markdown ----------
+
+/**
+ * Drop markdown syntax and keep the words a listener should hear.
+ * Line structure is preserved so list items can become separate sentences.
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[^\n]*\n?([\s\S]*?)```/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*[-*_]{3,}\s*$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1')
+    .replace(/(?<![\p{L}\p{N}])_(.+?)_(?![\p{L}\p{N}])/gu, '$1')
+    .replace(/[*|]/g, ' ');
+}
+
+// ---------- Cleanup ----------
+
+/**
+ * Unicode-aware cleanup: keeps letters and punctuation from every script,
+ * removes emoji and invisible characters, and turns line breaks into
+ * sentence breaks so lines without punctuation aren't run together.
+ */
+export function cleanForSpeech(text: string, language?: LanguageName | null): string {
+  const period = language === 'japanese' ? '。' : '.';
+  const terminated = new RegExp(`[${TERMINATORS}:;,][${CLOSERS}]*$`, 'u');
+
+  return text
+    .normalize('NFC')
+    .replace(EMOJI, '')
+    .split(/\r?\n+/)
+    .map((line) => line.replace(INVISIBLE, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map((line, index, lines) =>
+      index < lines.length - 1 && !terminated.test(line) ? line + period : line
+    )
+    .join(language === 'japanese' ? '' : ' ');
+}
+
+// ---------- Abbreviations ----------
+
+// Written forms use ". " for internal periods; "z.B." and "z. B." both match
+const ABBREVIATIONS: Record<LanguageName, Record<string, string>> = {
+  german: {
+    'z. B.': 'zum Beispiel',
+    'd. h.': 'das heißt',
+    'u. a.': 'unter anderem',
+    'usw.': 'und so weiter',
+    'bzw.': 'beziehungsweise',
+    'ca.': 'circa',
+    'Nr.': 'Nummer',
+    'Dr.': 'Doktor',
+    'Hr.': 'Herr',
+    'Fr.': 'Frau',
+    '&': 'und',
+  },
+  french: {
+    'p. ex.': 'par exemple',
+    'etc.': 'et cetera',
+    'env.': 'environ',
+    'M.': 'Monsieur',
+    'Mme': 'Madame',
+    'Mlle': 'Mademoiselle',
+    'Dr.': 'Docteur',
+    'n°': 'numéro',
+    '&': 'et',
+  },
+  spanish: {
+    'p. ej.': 'por ejemplo',
+    'etc.': 'etcétera',
+    'aprox.': 'aproximadamente',
+    'núm.': 'número',
+    'Srta.': 'señorita',
+    'Sra.': 'señora',
+    'Sr.': 'señor',
+    'Dra.': 'doctora',
+    'Dr.': 'doctor',
+    'Uds.': 'ustedes',
+    'Ud.': 'usted',
+    '&': 'y',
+  },
+  italian: {
+    'p. es.': 'per esempio',
+    'ecc.': 'eccetera',
+    'Sig.ra': 'signora',
+    'Sig.': 'signor',
+    'Dott.': 'dottor',
+    '&': 'e',
+  },
+  portuguese: {
+    'p. ex.': 'por exemplo',
+    'etc.': 'et cetera',
+    'Sra.': 'senhora',
+    'Sr.': 'senhor',
+    'Dra.': 'doutora',
+    'Dr.': 'doutor',
+    'nº': 'número',
+    '&': 'e',
+  },
+  japanese: {
+    '&': 'と',
+  },
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function abbreviationRegex(written: string): RegExp {
+  const pattern = escapeRegExp(written).replace(/\\\. /g, '\\.\\s?');
+  const isWord = /^[\p{L}]/u.test(written);
+  return new RegExp(
+    `${isWord ? '(?<![\\p{L}\\p{N}])' : ''}${pattern}${/[\p{L}]$/u.test(written) ? '(?![\\p{L}])' : ''}`,
+    'gu'
+  );
+}
+
+/**
+ * Expand common written abbreviations so they are read as words.
+ * An abbreviation that ends the text keeps its period as the sentence end.
+ */
+export function expandAbbreviations(text: string, language: LanguageName): string {
+  let result = text;
+
+  for (const [written, spoken] of Object.entries(ABBREVIATIONS[language])) {
+    result = result.replace(abbreviationRegex(written), (match, offset: number, source: string) => {
+      const atEnd = source.slice(offset + match.length).trim() === '';
+      return match.endsWith('.') && atEnd ? `${spoken}.` : spoken;
+    });
+  }
+
+  return result;
+}
+
+// ---------- Numbers ----------
+
+const MAX_SPOKEN_NUMBER = 999_999;
+
+const GERMAN_ONES = ['null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn', 'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn'];
+const GERMAN_TENS = ['', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+
+function germanNumber(n: number): string {
+  // "eins" becomes "ein" inside compounds: einundzwanzig, einhundert, einundzwanzigtausend
+  const prefix = (k: number) => germanNumber(k).replace(/eins$/, 'ein');
+
+  if (n < 20) return GERMAN_ONES[n];
+  if (n < 100) {
+    const unit = n % 10;
+    return unit ? `${prefix(unit)}und${GERMAN_TENS[Math.floor(n / 10)]}` : GERMAN_TENS[n / 10];
+  }
+  if (n < 1000) {
+    const rest = n % 100;
+    return `${prefix(Math.floor(n / 100))}hundert${rest ? germanNumber(rest) : ''}`;
+  }
+  const rest = n % 1000;
+  return `${prefix(Math.floor(n / 1000))}tausend${rest ? germanNumber(rest) : ''}`;
+}
+
+const FRENCH_ONES = ['zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize'];
+const FRENCH_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+function frenchNumber(n: number): string {
+  if (n < 17) return FRENCH_ONES[n];
+  if (n < 20) return `dix-${FRENCH_ONES[n - 10]}`;
+  if (n < 70) {
+    const unit = n % 10;
+    const tens = FRENCH_TENS[Math.floor(n / 10)];
+    if (!unit) return tens;
+    return unit === 1 ? `${tens} et un` : `${tens}-${FRENCH_ONES[unit]}`;
+  }
+  if (n < 80) return n === 71 ? 'soixante et onze' : `soixante-${frenchNumber(n - 60)}`;
+  if (n < 100) return n === 80 ? 'quatre-vingts' : `quatre-vingt-${frenchNumber(n - 80)}`;
+  if (n < 1000) {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    const head = hundreds === 1 ? 'cent' : `${FRENCH_ONES[hundreds]} cent${rest ? '' : 's'}`;
+    return rest ? `${head} ${frenchNumber(rest)}` : head;
+  }
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  // "mille" never takes an s, and neither do cents/vingts before it
+  const head = thousands === 1 ? 'mille' : `${frenchNumber(thousands).replace(/(cent|vingt)s$/, '$1')} mille`;
+  return rest ? `${head} ${frenchNumber(rest)}` : head;
+}
+
+const SPANISH_ONES = ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve'];
+const SPANISH_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const SPANISH_HUNDREDS = ['', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos'];
+
+function spanishNumber(n: number): string {
+  if (n < 30) return SPANISH_ONES[n];
+  if (n < 100) {
+    const unit = n % 10;
+    const tens = SPANISH_TENS[Math.floor(n / 10)];
+    return unit ? `${tens} y ${SPANISH_ONES[unit]}` : tens;
+  }
+  if (n === 100) return 'cien';
+  if (n < 1000) {
+    const rest = n % 100;
+    const head = SPANISH_HUNDREDS[Math.floor(n / 100)];
+    return rest ? `${head} ${spanishNumber(rest)}` : head;
+  }
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  // "uno" shortens before mil: veintiún mil, treinta y un mil
+  const head = thousands === 1
+    ? 'mil'
+    : `${spanishNumber(thousands).replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un')} mil`;
+  return rest ? `${head} ${spanishNumber(rest)}` : head;
+}
+
+const ITALIAN_ONES = ['zero', 'uno', 'due', 'tre', 'quattro', 'cinque', 'sei', 'sette', 'otto', 'nove', 'dieci', 'undici', 'dodici', 'tredici', 'quattordici', 'quindici', 'sedici', 'diciassette', 'diciotto', 'diciannove'];
+const ITALIAN_TENS = ['', '', 'venti', 'trenta', 'quaranta', 'cinquanta', 'sessanta', 'settanta', 'ottanta', 'novanta'];
+
+// Tens and "cento" drop their final vowel before uno/otto: ventuno, centotto
+function joinItalian(head: string, tail: string): string {
+  return /^[uo]/.test(tail) && /[aeio]$/.test(head) ? head.slice(0, -1) + tail : head + tail;
+}
+
+function italianCompound(n: number): string {
+  if (n < 20) return ITALIAN_ONES[n];
+  if (n < 100) {
+    const unit = n % 10;
+    const tens = ITALIAN_TENS[Math.floor(n / 10)];
+    return unit ? joinItalian(tens, ITALIAN_ONES[unit]) : tens;
+  }
+  if (n < 1000) {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    const head = hundreds === 1 ? 'cento' : `${ITALIAN_ONES[hundreds]}cento`;
+    return rest ? joinItalian(head, italianCompound(rest)) : head;
+  }
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const head = thousands === 1 ? 'mille' : `${italianCompound(thousands)}mila`;
+  return rest ? head + italianCompound(rest) : head;
+}
+
+function italianNumber(n: number): string {
+  // A final "tre" in a compound takes an accent: ventitré, centotré
+  const words = italianCompound(n);
+  return n > 3 && words.endsWith('tre') ? `${words.slice(0, -3)}tré` : words;
+}
+
+const PORTUGUESE_ONES = ['zero', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez', 'onze', 'doze', 'treze', 'catorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'];
+const PORTUGUESE_TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const PORTUGUESE_HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+
+function portugueseNumber(n: number): string {
+  if (n < 20) return PORTUGUESE_ONES[n];
+  if (n < 100) {
+    const unit = n % 10;
+    const tens = PORTUGUESE_TENS[Math.floor(n / 10)];
+    return unit ? `${tens} e ${PORTUGUESE_ONES[unit]}` : tens;
+  }
+  if (n === 100) return 'cem';
+  if (n < 1000) {
+    const rest = n % 100;
+    const head = PORTUGUESE_HUNDREDS[Math.floor(n / 100)];
+    return rest ? `${head} e ${portugueseNumber(rest)}` : head;
+  }
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const head = thousands === 1 ? 'mil' : `${portugueseNumber(thousands)} mil`;
+  if (!rest) return head;
+  // "e" joins the thousands only to a round hundred or a number below 100
+  const joiner = rest < 100 || rest % 100 === 0 ? ' e ' : ' ';
+  return head + joiner + portugueseNumber(rest);
+}
+
+const JAPANESE_DIGITS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+function japaneseUnderTenThousand(n: number): string {
+  let words = '';
+  for (const [unit, kanji] of [[1000, '千'], [100, '百'], [10, '十']] as const) {
+    const digit = Math.floor(n / unit) % 10;
+    if (digit) words += (digit === 1 ? '' : JAPANESE_DIGITS[digit]) + kanji;
+  }
+  const ones = n % 10;
+  return ones ? words + JAPANESE_DIGITS[ones] : words;
+}
+
+function japaneseNumber(n: number): string {
+  if (n === 0) return JAPANESE_DIGITS[0];
+  if (n < 10_000) return japaneseUnderTenThousand(n);
+  const rest = n % 10_000;
+  return `${japaneseUnderTenThousand(Math.floor(n / 10_000))}万${rest ? japaneseUnderTenThousand(rest) : ''}`;
+}
+
+const NUMBER_WORDS: Record<LanguageName, (n: number) => string> = {
+  german: germanNumber,
+  french: frenchNumber,
+  spanish: spanishNumber,
+  italian: italianNumber,
+  portuguese: portugueseNumber,
+  japanese: japaneseNumber,
+};
+
+/**
+ * Cardinal number as words, or null when it is too large to be worth spelling out
+ */
+export function numberToWords(n: number, language: LanguageName): string | null {
+  if (!Number.isInteger(n) || n < 0 || n > MAX_SPOKEN_NUMBER) return null;
+  return NUMBER_WORDS[language](n);
+}
+
+// German and Japanese read decimals digit by digit, the Romance languages read
+// them as a number: drei Komma zwei fünf, but tres coma veinticinco
+const NUMBER_FORMAT: Record<LanguageName, { groups: string[]; decimal: string; point: string; percent: string; fraction: 'digits' | 'number' }> = {
+  german: { groups: ['.', '\u00A0', '\u202F'], decimal: ',', point: 'Komma', percent: 'Prozent', fraction: 'digits' },
+  french: { groups: ['\u00A0', '\u202F'], decimal: ',', point: 'virgule', percent: 'pour cent', fraction: 'number' },
+  spanish: { groups: ['.', '\u00A0', '\u202F'], decimal: ',', point: 'coma', percent: 'por ciento', fraction: 'number' },
+  italian: { groups: ['.', '\u00A0', '\u202F'], decimal: ',', point: 'virgola', percent: 'per cento', fraction: 'number' },
+  portuguese: { groups: ['.', '\u00A0', '\u202F'], decimal: ',', point: 'vírgula', percent: 'por cento', fraction: 'number' },
+  japanese: { groups: [','], decimal: '.', point: '点', percent: 'パーセント', fraction: 'digits' },
+};
+
+// The form of "one" used before a noun: ein Euro, veintiún años, ventun anni
+const BEFORE_NOUN: Partial<Record<LanguageName, (words: string) => string>> = {
+  german: (words) => words.replace(/eins$/, 'ein'),
+  spanish: (words) => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un'),
+  italian: (words) => words.replace(/uno$/, 'un'),
+};
+
+// Words after a number that are not the noun it counts: "uno de mayo", "veintiuno y medio"
+const SPANISH_NOT_NOUNS = new Set(['y', 'e', 'o', 'u', 'de', 'del', 'a', 'al', 'en', 'por', 'para', 'con', 'más', 'menos', 'entre']);
+
+interface CurrencyNames {
+  one: string;
+  many: string;
+  // Cents, for currencies that have them
+  cent?: string;
+  cents?: string;
+}
+
+// Euros and cents are joined by a word (un euro con cincuenta) or nothing at
+// all (ein Euro fünfzig); the cents only keep their unit in Japanese
+const CURRENCY_FORMAT: Record<LanguageName, { and: string; namedCents: boolean; units: Record<string, CurrencyNames> }> = {
+  german: {
+    and: ' ',
+    namedCents: false,
+    units: {
+      '€': { one: 'Euro', many: 'Euro', cent: 'Cent', cents: 'Cent' },
+      '$': { one: 'Dollar', many: 'Dollar', cent: 'Cent', cents: 'Cent' },
+      '¥': { one: 'Yen', many: 'Yen' },
+    },
+  },
+  french: {
+    and: ' ',
+    namedCents: false,
+    units: {
+      '€': { one: 'euro', many: 'euros', cent: 'centime', cents: 'centimes' },
+      '$': { one: 'dollar', many: 'dollars', cent: 'cent', cents: 'cents' },
+      '¥': { one: 'yen', many: 'yens' },
+    },
+  },
+  spanish: {
+    and: ' con ',
+    namedCents: false,
+    units: {
+      '€': { one: 'euro', many: 'euros', cent: 'céntimo', cents: 'céntimos' },
+      '$': { one: 'dólar', many: 'dólares', cent: 'centavo', cents: 'centavos' },
+      '¥': { one: 'yen', many: 'yenes' },
+    },
+  },
+  italian: {
+    and: ' e ',
+    namedCents: false,
+    units: {
+      '€': { one: 'euro', many: 'euro', cent: 'centesimo', cents: 'centesimi' },
+      '$': { one: 'dollaro', many: 'dollari', cent: 'centesimo', cents: 'centesimi' },
+      '¥': { one: 'yen', many: 'yen' },
+    },
+  },
+  portuguese: {
+    and: ' e ',
+    namedCents: false,
+    units: {
+      '€': { one: 'euro', many: 'euros', cent: 'cêntimo', cents: 'cêntimos' },
+      '$': { one: 'dólar', many: 'dólares', cent: 'centavo', cents: 'centavos' },
+      '¥': { one: 'iene', many: 'ienes' },
+    },
+  },
+  japanese: {
+    and: '',
+    namedCents: true,
+    units: {
+      '€': { one: 'ユーロ', many: 'ユーロ', cent: 'セント', cents: 'セント' },
+      '$': { one: 'ドル', many: 'ドル', cent: 'セント', cents: 'セント' },
+      '¥': { one: '円', many: '円' },
+    },
+  },
+};
+
+// Digits glued to Latin letters (mp3, 4er) are left alone. CJK text has no
+// spaces, so 3匹 or 1,000円 still count as numbers.
+const NUMBER = /(?<![\p{Script=Latin}\p{N}])(\d+(?:[.,\u00A0\u202F]\d+)*)(?:\s?(%))?(?![\p{Script=Latin}\p{N}]|[.,\u00A0\u202F]\d)/gu;
+
+// An amount with its currency symbol before or after it: 1,50 €, $3.50, ¥500
+const CURRENCY = /([€$¥])\s?(\d+(?:[.,\u00A0\u202F]\d+)*)(?![\p{N}]|[.,\u00A0\u202F]\d)|(?<![\p{Script=Latin}\p{N}])(\d+(?:[.,\u00A0\u202F]\d+)*)\s?([€$¥])/gu;
+
+/**
+ * Split a written number into integer and fraction digits using the
+ * language's separators. Returns null for things like dates or versions.
+ */
+function readNumber(raw: string, language: LanguageName): { integer: string; fraction?: string } | null {
+  const { groups, decimal } = NUMBER_FORMAT[language];
+  const separators = raw.match(/[.,\u00A0\u202F]/g) ?? [];
+  const parts = raw.split(/[.,\u00A0\u202F]/);
+
+  if (separators.length === 0) return { integer: raw };
+
+  const isGrouping = (index: number) => groups.includes(separators[index]) && parts[index + 1].length === 3;
+  if (separators.every((_, index) => isGrouping(index))) {
+    return { integer: parts.join('') };
+  }
+
+  // Otherwise the last separator is the decimal point (either style is accepted)
+  const last = separators.length - 1;
+  const lastIsDecimal = separators[last] === decimal || separators[last] === '.' || separators[last] === ',';
+  if (!lastIsDecimal || !separators.slice(0, last).every((_, index) => isGrouping(index))) {
+    return null;
+  }
+  return { integer: parts.slice(0, -1).join(''), fraction: parts[parts.length - 1] };
+}
+
+// Leading zeros are always read one by one, the rest as the language reads decimals
+function fractionWords(fraction: string, language: LanguageName): string[] {
+  const zeros = fraction.match(/^0*/)![0].length;
+  const rest = fraction.slice(zeros);
+  const digits = (value: string) => [...value].map((digit) => NUMBER_WORDS[language](Number(digit)));
+
+  if (NUMBER_FORMAT[language].fraction === 'digits' || rest.length > 3) return digits(fraction);
+  return rest ? [...digits(fraction.slice(0, zeros)), NUMBER_WORDS[language](Number(rest))] : digits(fraction);
+}
+
+function decimalWords(number: { integer: string; fraction?: string }, language: LanguageName): string[] | null {
+  const integer = numberToWords(Number(number.integer), language);
+  if (!integer) return null;
+  return number.fraction ? [integer, NUMBER_FORMAT[language].point, ...fractionWords(number.fraction, language)] : [integer];
+}
+
+function beforeNoun(words: string, language: LanguageName): string {
+  return BEFORE_NOUN[language]?.(words) ?? words;
+}
+
+/**
+ * An amount of money the way it is said: "ein Euro fünfzig", "cincuenta
+ * céntimos". Null when the amount can't be read.
+ */
+function currencyWords(raw: string, symbol: string, language: LanguageName): string | null {
+  const { and, namedCents, units } = CURRENCY_FORMAT[language];
+  const names = units[symbol];
+  const number = readNumber(raw, language);
+  if (!names || !number) return null;
+  const space = language === 'japanese' ? '' : ' ';
+  const count = (n: number, one: string, many: string) => {
+    const words = numberToWords(n, language);
+    return words && [beforeNoun(words, language), n === 1 ? one : many].join(space);
+  };
+
+  const major = Number(number.integer);
+  // Anything but whole cents is read as a decimal number of units
+  if (number.fraction && (number.fraction.length > 2 || !names.cent || !names.cents)) {
+    const words = decimalWords(number, language);
+    return words && [...words, names.many].join(space);
+  }
+
+  const cents = number.fraction ? Number(number.fraction.padEnd(2, '0')) : 0;
+  if (!cents) return count(major, names.one, names.many);
+  if (!major) return count(cents, names.cent!, names.cents!);
+
+  const majorWords = count(major, names.one, names.many);
+  const centWords = namedCents ? count(cents, names.cent!, names.cents!) : numberToWords(cents, language);
+  return majorWords && centWords && majorWords + and + centWords;
+}
+
+/**
+ * Spell out numbers, percentages and amounts of money in the target language.
+ * German and Japanese read decimals digit by digit after the decimal word.
+ */
+export function expandNumbers(text: string, language: LanguageName): string {
+  const { percent } = NUMBER_FORMAT[language];
+  const space = language === 'japanese' ? '' : ' ';
+
+  return text
+    .replace(CURRENCY, (match, symbolBefore?: string, rawBefore?: string, rawAfter?: string, symbolAfter?: string) =>
+      currencyWords((rawBefore ?? rawAfter)!, (symbolBefore ?? symbolAfter)!, language) ?? match
+    )
+    .replace(NUMBER, (match, raw: string, percentSign: string | undefined, offset: number, whole: string) => {
+      const number = readNumber(raw, language);
+      const words = number && decimalWords(number, language);
+      if (!number || !words) return match;
+
+      if (percentSign) return [...words, percent].join(space);
+      // Spanish shortens "uno" before the noun it counts: treinta y un años
+      const next = whole.slice(offset + match.length).match(/^\s+(\p{L}+)/u)?.[1];
+      if (language === 'spanish' && !number.fraction && next && !SPANISH_NOT_NOUNS.has(next.toLowerCase())) {
+        return beforeNoun(words[0], language);
+      }
+      return words.join(space);
+    });
+}
+
+// ---------- Sentences ----------
+
+/**
+ * Split text into sentences. Latin punctuation needs whitespace (or the end)
+ * after it, so decimals and unknown abbreviations stay intact; CJK full-width
+ * punctuation ends a sentence on its own since those scripts don't use spaces.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const next = text[end];
+    if (next === undefined || /\s/.test(next) || CJK_TERMINATORS.test(match[0])) {
+      const sentence = text.slice(start, end).trim();
+      if (sentence) sentences.push(sentence);
+      start = end;
+    }
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
+
+/**
+ * Full preparation pipeline for a tutor reply. Without a known language the
+ * text is only cleaned, since number and abbreviation rules are per language.
+ */
+export function prepareSpeechSentences(text: string, language?: LanguageName | null): string[] {
+  let speakable = cleanForSpeech(stripMarkdown(text), language);
+  if (language) {
+    speakable = expandNumbers(expandAbbreviations(speakable, language), language);
+  }
+  return splitSentences(speakable);
+}
+
+export function joinSentences(sentences: string[], language?: LanguageName | null): string {
+  return sentences.join(language === 'japanese' ? '' : ' ');
+}
+
+// ---------- Streaming ----------
+
+// Characters that must follow a sentence end before it is trusted, so an
+// abbreviation like "z. B." or "p. ex." isn't cut after its first period
+const SEGMENT_LOOKAHEAD = 8;
+
+export interface SentenceSegmenter {
+  // Add streamed text, returns the sentences it completed
+  push(delta: string): string[];
+  // End of the stream, returns whatever is left
+  flush(): string[];
+}
+
+/**
+ * Offsets just past each sentence end in raw reply text. Unlike
+ * `splitSentences` this runs before any preparation, so it skips periods
+ * inside abbreviations and after digits, and treats line breaks as ends.
+ */
+function sentenceBoundaries(text: string, abbreviations: RegExp[]): number[] {
+  const protectedSpans = abbreviations.flatMap((regex) =>
+    [...text.matchAll(regex)].map((match) => [match.index!, match.index! + match[0].length])
+  );
+  const ends = new Set<number>();
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const next = text[end];
+    if (next === undefined || !(/\s/.test(next) || CJK_TERMINATORS.test(match[0]))) continue;
+    // "am 3. Mai", "1. Schritt"
+    if (match[0] === '.' && /\p{N}$/u.test(text.slice(0, match.index))) continue;
+    if (protectedSpans.some(([start, stop]) => match.index! >= start && match.index! < stop)) continue;
+    ends.add(end);
+  }
+  for (const match of text.matchAll(/\n/g)) {
+    ends.add(match.index! + 1);
+  }
+
+  return [...ends].sort((a, b) => a - b);
+}
+
+function isSpeakable(sentence: string, language?: LanguageName | null): boolean {
+  return /[\p{L}\p{N}]/u.test(joinSentences(prepareSpeechSentences(sentence, language), language));
+}
+
+/**
+ * Cuts a streaming reply into sentences as soon as each one is finished, so
+ * speech can start before the reply is complete. Sentences are returned as
+ * written; each still goes through `prepareSpeechSentences` on its own.
+ */
+export function createSentenceSegmenter(language?: LanguageName | null): SentenceSegmenter {
+  const abbreviations = language
+    ? Object.keys(ABBREVIATIONS[language]).filter((written) => written.includes('.')).map(abbreviationRegex)
+    : [];
+  let buffer = '';
+
+  const take = (final: boolean): string[] => {
+    const sentences: string[] = [];
+    let start = 0;
+
+    for (const end of sentenceBoundaries(buffer, abbreviations)) {
+      if (!final && buffer.length - end < SEGMENT_LOOKAHEAD) break;
+      const sentence = buffer.slice(start, end).trim();
+      if (isSpeakable(sentence, language)) sentences.push(sentence);
+      start = end;
+    }
+
+    buffer = buffer.slice(start);
+    if (final) {
+      const rest = buffer.trim();
+      if (isSpeakable(rest, language)) sentences.push(rest);
+      buffer = '';
+    }
+
+    return sentences;
+  };
+
+  return {
+    push(delta) {
+      buffer += delta;
+      return take(false);
+    },
+    flush() {
+      return take(true);
+    },
+  };
+}
+
+// ---------- Interruptions ----------
+
+/**
+ * What a listener heard of a reply spoken sentence by sentence, when they
+ * cut it off `fraction` of the way into sentence `segmentIndex`. The
+ * partly heard sentence is cut back to the last whole word.
+ */
+export function heardText(
+  sentences: string[],
+  segmentIndex: number,
+  fraction: number,
+  language?: LanguageName | null
+): string {
+  const partial = sentences[segmentIndex] ?? '';
+  const cut = Math.round(partial.length * Math.min(1, Math.max(0, fraction)));
+  let heard = partial.slice(0, cut);
+
+  // Scripts written with spaces lose the word that was still being spoken
+  if (cut < partial.length && /\s/.test(partial) && !/\s/.test(partial[cut])) {
+    heard = heard.slice(0, Math.max(0, heard.search(/\S*$/)));
+  }
+
+  return joinSentences([...sentences.slice(0, segmentIndex), heard.trim()].filter(Boolean), language);
+}
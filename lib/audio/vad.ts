@@ -0,0 +1,197 @@
+// ============================================
+// VOICE ACTIVITY DETECTION
+// Energy + zero-crossing speech detector that decides when a turn starts and ends
+// ============================================
+
+export interface VADOptions {
+  frameMs?: number; // analysis window
+  energyThreshold?: number; // RMS a frame needs to count as voiced, whatever the noise
+  noiseFloorRatio?: number; // ...and how far above the running background level
+  maxZeroCrossingRate?: number; // crossings per sample; hiss and fans cross far more often than voice
+  minSpeechMs?: number; // voiced time before speech starts, so clicks and coughs don't count
+  hangoverMs?: number; // silence that ends speech, so pauses between words don't
+}
+
+export type VADEvent =
+  | { type: 'speech-start'; timeMs: number }
+  | { type: 'speech-end'; timeMs: number; durationMs: number };
+
+export const DEFAULT_VAD_OPTIONS: Required<VADOptions> = {
+  frameMs: 20,
+  energyThreshold: 0.01,
+  noiseFloorRatio: 3,
+  maxZeroCrossingRate: 0.3,
+  minSpeechMs: 200,
+  hangoverMs: 800,
+};
+
+// How quickly the background level follows quiet frames
+const NOISE_FLOOR_ADAPTATION = 0.05;
+
+export function frameEnergy(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return frame.length > 0 ? Math.sqrt(sum / frame.length) : 0;
+}
+
+export function zeroCrossingRate(frame: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return frame.length > 1 ? crossings / (frame.length - 1) : 0;
+}
+
+/**
+ * Frame-by-frame speech detector. Audio can arrive in blocks of any size;
+ * times in events are milliseconds of audio processed since the last reset.
+ */
+export class VoiceActivityDetector {
+  private options: Required<VADOptions>;
+  private remainder = new Float32Array(0);
+  private timeMs = 0;
+  private noiseFloor = 0;
+  private state: 'silence' | 'onset' | 'speech' = 'silence';
+  private onsetMs = 0;
+  private voicedMs = 0;
+  private lastVoicedMs = 0;
+
+  constructor(options: VADOptions = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  get isSpeaking(): boolean {
+    return this.state === 'speech';
+  }
+
+  setOptions(options: VADOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  reset() {
+    this.remainder = new Float32Array(0);
+    this.timeMs = 0;
+    this.noiseFloor = 0;
+    this.state = 'silence';
+  }
+
+  process(samples: Float32Array, sampleRate: number): VADEvent[] {
+    const frameLength = Math.round((sampleRate * this.options.frameMs) / 1000);
+    const buffer = new Float32Array(this.remainder.length + samples.length);
+    buffer.set(this.remainder);
+    buffer.set(samples, this.remainder.length);
+
+    const events: VADEvent[] = [];
+    let offset = 0;
+    for (; offset + frameLength <= buffer.length; offset += frameLength) {
+      const event = this.processFrame(buffer.subarray(offset, offset + frameLength), (frameLength / sampleRate) * 1000);
+      if (event) events.push(event);
+    }
+    this.remainder = buffer.slice(offset);
+
+    return events;
+  }
+
+  private processFrame(frame: Float32Array, durationMs: number): VADEvent | null {
+    const { energyThreshold, noiseFloorRatio, maxZeroCrossingRate, minSpeechMs, hangoverMs } = this.options;
+    const start = this.timeMs;
+    const end = (this.timeMs += durationMs);
+
+    const energy = frameEnergy(frame);
+    const isVoiced = energy >= Math.max(energyThreshold, this.noiseFloor * noiseFloorRatio)
+      && zeroCrossingRate(frame) <= maxZeroCrossingRate;
+
+    if (isVoiced) {
+      if (this.state === 'silence') {
+        this.state = 'onset';
+        this.onsetMs = start;
+        this.voicedMs = 0;
+      }
+      this.voicedMs += durationMs;
+      this.lastVoicedMs = end;
+
+      if (this.state === 'onset' && this.voicedMs >= minSpeechMs) {
+        this.state = 'speech';
+        return { type: 'speech-start', timeMs: this.onsetMs };
+      }
+      return null;
+    }
+
+    if (this.state === 'silence') {
+      this.noiseFloor += (energy - this.noiseFloor) * NOISE_FLOOR_ADAPTATION;
+      return null;
+    }
+
+    if (end - this.lastVoicedMs < hangoverMs) return null;
+
+    const wasSpeaking = this.state === 'speech';
+    this.state = 'silence';
+    return wasSpeaking
+      ? { type: 'speech-end', timeMs: this.lastVoicedMs, durationMs: this.lastVoicedMs - this.onsetMs }
+      : null;
+  }
+}
+
+/**
+ * Collects recognizer results into one turn that ends when the detector
+ * hears the speaker stop, instead of whenever the recognizer settles a
+ * phrase. Results that arrive outside detected speech go straight through.
+ */
+export class SpeechTurn {
+  private finals: string[] = [];
+  private interim = '';
+  private isSpeaking = false;
+  private finalTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // finalGraceMs: how long to wait after speech ends for the recognizer to settle what it heard
+  constructor(private onTurn: (text: string) => void, private finalGraceMs: number = 1500) {}
+
+  // Everything heard in this turn so far
+  get text(): string {
+    return [...this.finals, this.interim].filter(Boolean).join(' ');
+  }
+
+  speechStart() {
+    this.isSpeaking = true;
+    this.clearTimer();
+  }
+
+  speechEnd() {
+    this.isSpeaking = false;
+    if (!this.interim) {
+      this.complete();
+      return;
+    }
+    this.finalTimer = setTimeout(() => this.complete(), this.finalGraceMs);
+  }
+
+  addFinal(text: string) {
+    if (text.trim()) this.finals.push(text.trim());
+    this.interim = '';
+    if (!this.isSpeaking) this.complete();
+  }
+
+  setInterim(text: string) {
+    this.interim = text.trim();
+  }
+
+  reset() {
+    this.clearTimer();
+    this.finals = [];
+    this.interim = '';
+    this.isSpeaking = false;
+  }
+
+  private complete() {
+    const text = this.text;
+    this.clearTimer();
+    this.finals = [];
+    this.interim = '';
+    if (text) this.onTurn(text);
+  }
+
+  private clearTimer() {
+    if (this.finalTimer) clearTimeout(this.finalTimer);
+    this.finalTimer = null;
+  }
+}
@@ -0,0 +1,112 @@
+// ============================================
+// WORD AUDIO
+// Slow, clear pronunciations for saved vocabulary, generated in the background
+// ============================================
+
+import { getTTSVoice } from '../gemini';
+import { wordPattern } from '../utils';
+import { splitSentences } from './tts-text';
+import { ttsCacheKey } from './tts-cache';
+
+export interface WordAudioJob {
+  key: string; // TTS cache key of the clip
+  userId: string;
+  language: string;
+  word: string;
+  example?: string;
+}
+
+export interface WordAudioQueueOptions {
+  batchSize?: number; // TTS calls running at once
+  intervalMs?: number; // minimum time between the start of two batches
+}
+
+// The TTS model takes speaking style from the text itself
+export function wordAudioPrompt(word: string, example?: string): string {
+  const spoken = example ? `${word.toLowerCase()}. ${example}` : word.toLowerCase();
+  return `Say slowly and clearly: ${spoken}`;
+}
+
+export function wordAudioKey(word: string, language?: string | null, example?: string): string {
+  return ttsCacheKey({ text: wordAudioPrompt(word, example), voiceName: getTTSVoice(language), language });
+}
+
+/**
+ * The sentence of a tutor reply a word was taught in, read after the word itself
+ */
+export function findExampleSentence(word: string, text: string): string | undefined {
+  const pattern = wordPattern(word);
+  return splitSentences(text).find((sentence) => pattern.test(sentence));
+}
+
+/**
+ * Runs word audio jobs a few at a time with a pause between batches, so a
+ * reply that teaches ten words doesn't fire ten TTS calls at once.
+ * Jobs already queued for the same user and clip are dropped.
+ */
+export class WordAudioQueue {
+  private pending: WordAudioJob[] = [];
+  private queuedJobs = new Set<string>();
+  private running: Promise<void> | null = null;
+  private batchSize: number;
+  private intervalMs: number;
+
+  constructor(
+    private worker: (job: WordAudioJob) => Promise<void>,
+    options: WordAudioQueueOptions = {},
+    private sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  ) {
+    this.batchSize = options.batchSize ?? 3;
+    this.intervalMs = options.intervalMs ?? 1000;
+  }
+
+  /**
+   * Queue jobs, resolves once the queue has drained
+   */
+  enqueue(jobs: WordAudioJob[]): Promise<void> {
+    for (const job of jobs) {
+      const id = this.jobId(job);
+      if (this.queuedJobs.has(id)) continue;
+      this.queuedJobs.add(id);
+      this.pending.push(job);
+    }
+    return this.start();
+  }
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  private jobId(job: WordAudioJob): string {
+    return `${job.userId}:${job.key}`;
+  }
+
+  private start(): Promise<void> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = null;
+        // Jobs queued while the last batch was finishing
+        if (this.pending.length > 0) this.start();
+      });
+    }
+    return this.running;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.batchSize);
+      const startedAt = Date.now();
+
+      const results = await Promise.allSettled(batch.map((job) => this.worker(job)));
+      results.forEach((result, index) => {
+        this.queuedJobs.delete(this.jobId(batch[index]));
+        if (result.status === 'rejected') {
+          console.error(`Word audio failed for "${batch[index].word}":`, result.reason);
+        }
+      });
+
+      const wait = this.intervalMs - (Date.now() - startedAt);
+      if (this.pending.length > 0 && wait > 0) await this.sleep(wait);
+    }
+  }
+}
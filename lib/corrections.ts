@@ -0,0 +1,143 @@
+// ============================================
+// GRAMMAR CORRECTIONS
+// Tutor corrections for a user message and the inline diff used to show them
+// ============================================
+
+export type CorrectionCategory =
+  | 'grammar'
+  | 'spelling'
+  | 'vocabulary'
+  | 'word-order'
+  | 'punctuation'
+  | 'accent'
+  | 'other';
+
+export const CORRECTION_CATEGORIES: CorrectionCategory[] = [
+  'grammar',
+  'spelling',
+  'vocabulary',
+  'word-order',
+  'punctuation',
+  'accent',
+  'other',
+];
+
+export interface Correction {
+  original: string; // span exactly as the user wrote it
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+}
+
+export type DiffSegment =
+  | { type: 'same'; text: string }
+  | { type: 'removed'; text: string; correction: Correction }
+  | { type: 'added'; text: string; correction: Correction };
+
+function isCorrectionCategory(value: unknown): value is CorrectionCategory {
+  return typeof value === 'string' && CORRECTION_CATEGORIES.includes(value as CorrectionCategory);
+}
+
+/**
+ * Corrections arrive from the stream parser either parsed or as a raw JSON string.
+ * Malformed entries are dropped rather than failing the whole list.
+ */
+export function parseCorrections(value: unknown): Correction[] | undefined {
+  let corrections = value;
+
+  if (typeof corrections === 'string') {
+    if (!corrections.trim()) return undefined;
+    try {
+      corrections = JSON.parse(corrections);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!Array.isArray(corrections)) return undefined;
+
+  const valid = corrections
+    .filter((c): c is Record<string, unknown> => !!c && typeof c === 'object')
+    .filter((c) => typeof c.original === 'string' && typeof c.corrected === 'string')
+    .filter((c) => c.original !== c.corrected)
+    .map((c) => ({
+      original: c.original as string,
+      corrected: c.corrected as string,
+      category: isCorrectionCategory(c.category) ? c.category : 'other',
+      explanation: typeof c.explanation === 'string' ? c.explanation : '',
+    }));
+
+  return valid.length > 0 ? valid : undefined;
+}
+
+// Words and the whitespace after them, so joining tokens restores the text
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * Word-level diff of one corrected span: unchanged words at either end stay
+ * plain, only the middle is struck through and replaced. The comparison uses
+ * the tutor's copy of the span so its casing matches `corrected`, the output
+ * uses the user's own text.
+ */
+function diffSpan(userText: string, correction: Correction): DiffSegment[] {
+  const written = tokenize(userText);
+  const before = tokenize(correction.original);
+  const after = tokenize(correction.corrected);
+  const same = (a: string, b: string) => a.trim() === b.trim();
+
+  let start = 0;
+  while (start < before.length && start < after.length && same(before[start], after[start])) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    same(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) {
+    end++;
+  }
+
+  const segments: DiffSegment[] = [];
+  const prefix = written.slice(0, start).join('');
+  const removed = written.slice(start, written.length - end).join('');
+  const added = after.slice(start, after.length - end).join('');
+  const suffix = written.slice(written.length - end).join('');
+
+  if (prefix) segments.push({ type: 'same', text: prefix });
+  if (removed) segments.push({ type: 'removed', text: removed, correction });
+  if (added) segments.push({ type: 'added', text: added, correction });
+  if (suffix) segments.push({ type: 'same', text: suffix });
+
+  return segments;
+}
+
+/**
+ * Split a user message into plain, removed and added segments.
+ * Corrections are located in order; spans that can't be found in the text are skipped.
+ */
+export function buildCorrectionDiff(text: string, corrections: Correction[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const lower = text.toLowerCase();
+  let cursor = 0;
+
+  for (const correction of corrections) {
+    const needle = correction.original.toLowerCase();
+    if (!needle) continue;
+
+    const index = lower.indexOf(needle, cursor);
+    if (index === -1) continue;
+
+    if (index > cursor) segments.push({ type: 'same', text: text.slice(cursor, index) });
+
+    segments.push(...diffSpan(text.slice(index, index + needle.length), correction));
+    cursor = index + needle.length;
+  }
+
+  if (cursor < text.length) segments.push({ type: 'same', text: text.slice(cursor) });
+
+  return segments;
+}
@@ -0,0 +1,170 @@
+-- Every table, plus one row per chat turn instead of the "Chat"."messages"
+-- JSON blob. Tables created by `db:push` already exist, so everything here is
+-- idempotent, and columns they may be missing are added explicitly.
+CREATE TABLE IF NOT EXISTS "Chat" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"createdAt" timestamp NOT NULL,
+	"messages" json NOT NULL,
+	"userId" uuid NOT NULL,
+	"language" text,
+	"level" varchar(2)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "Message" (
+	"id" text NOT NULL,
+	"chatId" uuid NOT NULL,
+	"role" varchar(16) NOT NULL,
+	"content" text NOT NULL,
+	"createdAt" timestamp NOT NULL,
+	"isAudio" boolean DEFAULT false NOT NULL,
+	"rating" real,
+	"difficulty" real,
+	"translations" json,
+	"audioUrl" text,
+	CONSTRAINT "Message_chatId_id_pk" PRIMARY KEY("chatId","id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "Reservation" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"createdAt" timestamp NOT NULL,
+	"details" json NOT NULL,
+	"hasCompletedPayment" boolean DEFAULT false NOT NULL,
+	"userId" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "translation_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"translation_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"grade" text NOT NULL,
+	"source" text DEFAULT 'flashcard' NOT NULL,
+	"score" real,
+	"transcript" text,
+	"ease_factor" real NOT NULL,
+	"interval" integer NOT NULL,
+	"reviewed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "translations" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"language" text NOT NULL,
+	"word" text NOT NULL,
+	"english" text NOT NULL,
+	"phonetic" text NOT NULL,
+	"audio_url" text NOT NULL,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"ease_factor" real DEFAULT 2.5 NOT NULL,
+	"interval" integer DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"due_at" timestamp DEFAULT now() NOT NULL,
+	"last_reviewed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "User" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(64) NOT NULL,
+	"password" varchar(64)
+);
+--> statement-breakpoint
+-- Columns added after tables may have been pushed
+ALTER TABLE "Chat" ADD COLUMN IF NOT EXISTS "language" text;
+--> statement-breakpoint
+ALTER TABLE "Chat" ADD COLUMN IF NOT EXISTS "level" varchar(2);
+--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN IF NOT EXISTS "ease_factor" real DEFAULT 2.5 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN IF NOT EXISTS "interval" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN IF NOT EXISTS "repetitions" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN IF NOT EXISTS "due_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN IF NOT EXISTS "last_reviewed_at" timestamp;
+--> statement-breakpoint
+DO $$ BEGIN
+	ALTER TABLE "Chat" ADD CONSTRAINT "Chat_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+	ALTER TABLE "Message" ADD CONSTRAINT "Message_chatId_Chat_id_fk" FOREIGN KEY ("chatId") REFERENCES "public"."Chat"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+	ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_userId_User_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+	ALTER TABLE "translation_reviews" ADD CONSTRAINT "translation_reviews_translation_id_translations_id_fk" FOREIGN KEY ("translation_id") REFERENCES "public"."translations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_chat_created_at_idx" ON "Message" USING btree ("chatId","createdAt");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_rating_idx" ON "Message" USING btree ("rating");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "translation_reviewed_at_idx" ON "translation_reviews" USING btree ("translation_id","reviewed_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_language_word_idx" ON "translations" USING btree ("user_id","language","word");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_language_idx" ON "translations" USING btree ("user_id","language");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_count_idx" ON "translations" USING btree ("user_id","language","usage_count");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "due_at_idx" ON "translations" USING btree ("user_id","language","due_at");
+--> statement-breakpoint
+-- Explode existing blobs. Older rows were written with JSON.stringify, so the
+-- column may hold a JSON string that has to be parsed first. Turns without a
+-- timestamp are spaced a millisecond apart after the chat's creation to keep
+-- their order, and turns without an id get a fresh one.
+WITH "chats" AS (
+	SELECT
+		"id",
+		"createdAt",
+		CASE
+			WHEN json_typeof("messages") = 'string' THEN ("messages" #>> '{}')::json
+			ELSE "messages"
+		END AS "messages"
+	FROM "Chat"
+), "arrays" AS (
+	SELECT
+		"id",
+		"createdAt",
+		CASE WHEN json_typeof("messages") = 'array' THEN "messages" ELSE '[]'::json END AS "messages"
+	FROM "chats"
+)
+INSERT INTO "Message" ("id", "chatId", "role", "content", "createdAt", "isAudio", "rating", "difficulty", "translations")
+SELECT
+	COALESCE(turn.value ->> 'id', gen_random_uuid()::text),
+	"arrays"."id",
+	turn.value ->> 'role',
+	CASE
+		WHEN json_typeof(turn.value -> 'content') = 'string' THEN turn.value ->> 'content'
+		WHEN json_typeof(turn.value -> 'content') = 'array' THEN COALESCE((
+			SELECT string_agg(part ->> 'text', '')
+			FROM json_array_elements(turn.value -> 'content') AS part
+			WHERE part ->> 'type' = 'text'
+		), '')
+		ELSE ''
+	END,
+	COALESCE(
+		to_timestamp((turn.value ->> 'timestamp')::double precision / 1000) AT TIME ZONE 'UTC',
+		"arrays"."createdAt" + turn.position * interval '1 millisecond'
+	),
+	COALESCE((turn.value ->> 'isAudio')::boolean, false),
+	(turn.value ->> 'languageRating')::real,
+	(turn.value ->> 'difficulty')::real,
+	turn.value -> 'translations'
+FROM "arrays",
+	json_array_elements("arrays"."messages") WITH ORDINALITY AS turn(value, position)
+WHERE turn.value ->> 'role' IN ('user', 'assistant')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,2 @@
+-- Tutor corrections for user turns, see lib/corrections.ts
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "corrections" json;
@@ -0,0 +1,2 @@
+-- What the learner heard of a reply they interrupted, see lib/tutor-reply.ts
+ALTER TABLE "Message" ADD COLUMN IF NOT EXISTS "heardContent" text;
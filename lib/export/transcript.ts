@@ -0,0 +1,177 @@
+// ============================================
+// TRANSCRIPT EXPORT
+// Subtitles (WebVTT, SRT) and bilingual transcripts (Markdown, HTML) of a chat
+// ============================================
+
+import { splitSentences, stripMarkdown } from '../audio/tts-text';
+import { getLanguageLocale, TranslationData, UIMessage, wordPattern } from '../utils';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'md' | 'html';
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['vtt', 'srt', 'md', 'html'];
+
+export interface TranscriptGloss {
+  word: string;
+  translation: string;
+}
+
+export interface TranscriptLine {
+  text: string;
+  glosses: TranscriptGloss[]; // saved translations of words in this line
+}
+
+export interface TranscriptCue {
+  role: UIMessage['role'];
+  start: number; // seconds from the first message
+  end: number;
+  lines: TranscriptLine[];
+}
+
+export interface TranscriptOptions {
+  title?: string;
+  language?: string | null;
+}
+
+// Roughly how fast the tutor speaks when there's no audio to measure
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_SECONDS = 1.5;
+
+export function estimateSpeechSeconds(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_CUE_SECONDS, words / WORDS_PER_SECOND);
+}
+
+// 00:01:02.345, or 00:01:02,345 for SRT
+export function formatTimestamp(seconds: number, decimalSeparator: '.' | ',' = '.'): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${decimalSeparator}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Sentences of a message, each with the English glosses of the saved words it contains
+ */
+export function transcriptLines(content: string, translations?: Record<string, TranslationData>): TranscriptLine[] {
+  const entries = Object.values(translations ?? {});
+
+  return stripMarkdown(content)
+    .split('\n')
+    .flatMap((line) => splitSentences(line))
+    .map((text) => ({
+      text,
+      glosses: entries
+        .filter(({ word }) => word && wordPattern(word).test(text))
+        .map(({ word, translation }) => ({ word, translation })),
+    }));
+}
+
+/**
+ * Timed cues from message timestamps. A cue lasts as long as its audio when
+ * the duration is known, otherwise an estimate from its length, and never
+ * runs into the next message.
+ */
+export function transcriptCues(messages: UIMessage[], durations: Array<number | undefined> = []): TranscriptCue[] {
+  const origin = messages[0]?.timestamp ?? 0;
+  const starts = messages.map((message) => Math.max(0, (message.timestamp - origin) / 1000));
+
+  return messages
+    .map((message, index) => {
+      const start = starts[index];
+      const next = starts.slice(index + 1).find((value) => value > start);
+      const duration = durations[index] ?? estimateSpeechSeconds(message.content);
+      return {
+        role: message.role,
+        start,
+        end: next === undefined ? start + duration : Math.min(start + duration, next),
+        lines: transcriptLines(message.content, message.translations),
+      };
+    })
+    .filter((cue) => cue.lines.length > 0);
+}
+
+function speaker(role: UIMessage['role']): string {
+  return role === 'user' ? 'You' : 'Tutor';
+}
+
+// Cue text can't contain markup characters or an arrow
+export function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function glossText(glosses: TranscriptGloss[]): string {
+  return glosses.map(({ word, translation }) => `${word}: ${translation}`).join(' · ');
+}
+
+export function toWebVTT(cues: TranscriptCue[]): string {
+  const blocks = cues.map((cue, index) => {
+    const text = escapeVTT(cue.lines.map((line) => line.text).join(' '));
+    return `${index + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n<v ${speaker(cue.role)}>${text}`;
+  });
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function toSRT(cues: TranscriptCue[]): string {
+  return cues
+    .map((cue, index) => {
+      const text = cue.lines.map((line) => line.text).join(' ');
+      return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${speaker(cue.role)}: ${text}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Bilingual Markdown: every line followed by the glosses of its saved words
+ */
+export function toMarkdownTranscript(cues: TranscriptCue[], { title = 'Transcript' }: TranscriptOptions = {}): string {
+  const turns = cues.map((cue) => {
+    const lines = cue.lines.flatMap((line) =>
+      line.glosses.length > 0 ? [line.text, `> *${glossText(line.glosses)}*`] : [line.text]
+    );
+    return [`**${speaker(cue.role)}** [${formatTimestamp(cue.start).slice(0, 8)}]`, ...lines].join('\n\n');
+  });
+  return [`# ${title}`, ...turns].join('\n\n') + '\n';
+}
+
+/**
+ * Bilingual HTML page, printable as is
+ */
+export function toHTMLTranscript(cues: TranscriptCue[], { title = 'Transcript', language }: TranscriptOptions = {}): string {
+  const lang = getLanguageLocale(language);
+  const langAttribute = lang ? ` lang="${lang}"` : '';
+
+  const turns = cues.map((cue) => {
+    const lines = cue.lines.map((line) => [
+      `    <p${langAttribute}>${escapeHTML(line.text)}</p>`,
+      ...(line.glosses.length > 0 ? [`    <p class="gloss" lang="en">${escapeHTML(glossText(line.glosses))}</p>`] : []),
+    ].join('\n'));
+    return [
+      `  <section class="${cue.role}">`,
+      `    <h2>${speaker(cue.role)} <time>${formatTimestamp(cue.start).slice(0, 8)}</time></h2>`,
+      ...lines,
+      '  </section>',
+    ].join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHTML(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 40rem; margin: 2rem auto; line-height: 1.5; }
+    h2 { font-size: 1rem; margin-bottom: 0.25rem; }
+    time { color: #71717a; font-weight: normal; }
+    p { margin: 0.25rem 0; }
+    .gloss { color: #71717a; font-style: italic; margin-bottom: 0.75rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(title)}</h1>
+${turns.join('\n')}
+</body>
+</html>
+`;
+}
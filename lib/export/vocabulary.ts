@@ -0,0 +1,263 @@
+// ============================================
+// VOCABULARY EXPORT / IMPORT
+// Saved words as Anki-compatible TSV or CSV, and back
+// ============================================
+
+import { TranslationData } from '../utils';
+
+export type VocabularyFormat = 'tsv' | 'csv';
+export const VOCABULARY_FORMATS: VocabularyFormat[] = ['tsv', 'csv'];
+
+export const VOCABULARY_COLUMNS = ['word', 'translation', 'phonetic', 'audio', 'tags'] as const;
+export type VocabularyColumn = typeof VOCABULARY_COLUMNS[number];
+
+// Header names other deck tools use for the same fields
+const COLUMN_ALIASES: Record<string, VocabularyColumn> = {
+  word: 'word',
+  front: 'word',
+  term: 'word',
+  translation: 'translation',
+  back: 'translation',
+  english: 'translation',
+  meaning: 'translation',
+  definition: 'translation',
+  phonetic: 'phonetic',
+  pronunciation: 'phonetic',
+  ipa: 'phonetic',
+  reading: 'phonetic',
+  audio: 'audio',
+  sound: 'audio',
+  tags: 'tags',
+};
+
+const MAX_WORD_LENGTH = 100;
+const MAX_FIELD_LENGTH = 500;
+
+export interface VocabularyRow {
+  line: number; // 1-based line in the file, for error reports
+  word: string;
+  translation: string;
+  phonetic: string;
+  audio: string;
+  tags: string[];
+}
+
+export interface SkippedVocabularyRow {
+  line: number;
+  word?: string;
+  reason: string;
+}
+
+export interface VocabularyImportPlan {
+  new: VocabularyRow[];
+  updated: VocabularyRow[];
+  skipped: SkippedVocabularyRow[];
+}
+
+// Counts and skip reasons, what the import preview shows
+export interface VocabularyImportReport {
+  dryRun: boolean;
+  new: number;
+  updated: number;
+  skipped: SkippedVocabularyRow[];
+}
+
+// Anki's #separator: names, and the characters themselves
+const SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  '\t': '\t',
+  comma: ',',
+  ',': ',',
+  semicolon: ';',
+  ';': ';',
+  pipe: '|',
+  '|': '|',
+};
+
+function separatorFor(format: VocabularyFormat): string {
+  return format === 'tsv' ? '\t' : ',';
+}
+
+function quoteField(value: string, separator: string): string {
+  return /["\r\n]/.test(value) || value.includes(separator) || value.startsWith('#')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+// Anki's [sound:] tag only resolves media in its own collection, so audio is a plain URL
+export function toVocabularyFile(
+  entries: TranslationData[],
+  format: VocabularyFormat,
+  { baseUrl = '' }: { baseUrl?: string } = {}
+): string {
+  const separator = separatorFor(format);
+  const header = [
+    `#separator:${format === 'tsv' ? 'tab' : 'comma'}`,
+    '#html:false',
+    `#columns:${VOCABULARY_COLUMNS.join(separator)}`,
+    `#tags column:${VOCABULARY_COLUMNS.indexOf('tags') + 1}`,
+  ];
+
+  const rows = [...entries]
+    .sort((a, b) => a.word.localeCompare(b.word))
+    .map((entry) => [
+      entry.word,
+      entry.translation,
+      entry.phonetic,
+      entry.audioUrl ? `${entry.audioUrl.startsWith('/') ? baseUrl : ''}${entry.audioUrl}` : '',
+      ['voice-first', entry.language].filter(Boolean).join(' '),
+    ].map((value) => quoteField(value ?? '', separator)).join(separator));
+
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Split delimited text into records, honouring quoted fields with embedded
+ * separators, doubled quotes and line breaks. Each record keeps its line number.
+ */
+export function parseDelimited(
+  text: string,
+  separator: string,
+  firstLine: number = 1
+): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = firstLine;
+  let recordLine = firstLine;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((value) => value !== '')) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+function columnFor(name: string): VocabularyColumn | undefined {
+  return COLUMN_ALIASES[name.trim().toLowerCase()];
+}
+
+/**
+ * Read a vocabulary file written by us, Anki or a spreadsheet. The separator
+ * and column order come from Anki's `#separator:` / `#columns:` headers or a
+ * header row; without either, columns are taken in our export order.
+ */
+export function parseVocabularyFile(text: string): { rows: VocabularyRow[]; skipped: SkippedVocabularyRow[] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // Anki's "#key:value" headers come before the first note
+  const directives = new Map<string, string>();
+  let headerLines = 0;
+  while (lines[headerLines]?.startsWith('#')) {
+    const match = lines[headerLines].match(/^#([^:]+):(.*)$/);
+    if (match) directives.set(match[1].trim().toLowerCase(), match[2].trim());
+    headerLines++;
+  }
+  const body = lines.slice(headerLines).join('\n');
+
+  const declared = directives.get('separator')?.toLowerCase();
+  const separator = SEPARATORS[declared ?? ''] ?? (body.split('\n')[0]?.includes('\t') ? '\t' : ',');
+  const records = parseDelimited(body, separator, headerLines + 1);
+
+  let columns: Array<VocabularyColumn | undefined> = [...VOCABULARY_COLUMNS];
+  const declaredColumns = directives.get('columns');
+  if (declaredColumns) {
+    columns = declaredColumns.split(separator).map(columnFor);
+  } else if (records[0]?.fields.every((name) => columnFor(name)) && records[0].fields.some((name) => columnFor(name) === 'word')) {
+    columns = records.shift()!.fields.map(columnFor);
+  }
+
+  const tagsColumn = Number(directives.get('tags column'));
+  if (tagsColumn > 0) columns[tagsColumn - 1] = 'tags';
+
+  const rows: VocabularyRow[] = [];
+  const skipped: SkippedVocabularyRow[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, fields } of records) {
+    const value = (column: VocabularyColumn) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (fields[index] ?? '').trim() : '';
+    };
+    const word = value('word').normalize('NFC');
+    const translation = value('translation');
+
+    if (!word) {
+      skipped.push({ line, reason: 'Missing word' });
+    } else if (!translation) {
+      skipped.push({ line, word, reason: 'Missing translation' });
+    } else if (word.length > MAX_WORD_LENGTH || [translation, value('phonetic'), value('audio')].some((v) => v.length > MAX_FIELD_LENGTH)) {
+      skipped.push({ line, word, reason: 'Field too long' });
+    } else if (seen.has(word.toLowerCase())) {
+      skipped.push({ line, word, reason: 'Duplicate of an earlier row' });
+    } else {
+      seen.add(word.toLowerCase());
+      rows.push({
+        line,
+        word,
+        translation,
+        phonetic: value('phonetic'),
+        audio: value('audio'),
+        tags: value('tags').split(/\s+/).filter(Boolean),
+      });
+    }
+  }
+
+  return { rows, skipped };
+}
+
+/**
+ * Sort parsed rows against the words already saved: unknown words are new,
+ * changed translations or phonetics are updates, identical rows are skipped
+ */
+export function planVocabularyImport(rows: VocabularyRow[], existing: TranslationData[]): VocabularyImportPlan {
+  const saved = new Map(existing.map((entry) => [entry.word.toLowerCase(), entry]));
+  const plan: VocabularyImportPlan = { new: [], updated: [], skipped: [] };
+
+  for (const row of rows) {
+    const current = saved.get(row.word.toLowerCase());
+    if (!current) {
+      plan.new.push(row);
+    } else if (current.translation !== row.translation || (row.phonetic && current.phonetic !== row.phonetic)) {
+      // Keep the saved spelling, the unique index is case-sensitive
+      plan.updated.push({ ...row, word: current.word, phonetic: row.phonetic || current.phonetic });
+    } else {
+      plan.skipped.push({ line: row.line, word: row.word, reason: 'Already saved' });
+    }
+  }
+
+  return plan;
+}
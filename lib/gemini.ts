@@ -1,4 +1,5 @@
 import { GoogleGenAI } from '@google/genai';
+import { LanguageName } from './utils';
 
 export const genAI = new GoogleGenAI({
   apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
@@ -14,4 +15,23 @@ const gemini = {
   flash2TTS:"gemini-2.0-flash-live-001"
 };
 
+// Prebuilt TTS voice per target language
+export const ttsVoices: Record<LanguageName, string> = {
+  german: "Charon",
+  french: "Aoede",
+  spanish: "Puck",
+  italian: "Kore",
+  portuguese: "Fenrir",
+  japanese: "Leda",
+};
+
+export const DEFAULT_TTS_VOICE = "Charon";
+
+// Reads the learner's own turns in conversation exports, unlike every tutor voice
+export const LEARNER_TTS_VOICE = "Zephyr";
+
+export function getTTSVoice(language?: string | null): string {
+  return ttsVoices[language?.toLowerCase() as LanguageName] ?? DEFAULT_TTS_VOICE;
+}
+
 export default gemini;
\ No newline at end of file
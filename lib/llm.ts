@@ -0,0 +1,283 @@
+// ============================================
+// LLM PROVIDERS
+// Streaming text, streaming speech, structured generation and transcription
+// behind one interface, so routes can run against a scripted fake without an API key
+// ============================================
+
+import { ApiError, Modality, Schema } from '@google/genai';
+import gemini, { genAI, getTTSVoice } from './gemini';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface TextRequest {
+  model?: string;
+  history: ChatTurn[];
+  systemInstruction?: string;
+  responseMimeType?: string;
+  responseSchema?: Schema;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  model?: string;
+  text: string;
+  voiceName: string;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface StructuredRequest {
+  model?: string;
+  history: ChatTurn[];
+  systemInstruction?: string;
+  responseSchema: Schema;
+  signal?: AbortSignal;
+}
+
+export interface AudioRequest {
+  model?: string;
+  // An encoded clip, e.g. a WAV file
+  audio: Uint8Array;
+  mimeType: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  // An error message when the provider can't be used, e.g. a missing API key
+  checkConfiguration(): string | null;
+  // Text as it is generated, chunks may be empty
+  streamText(request: TextRequest): AsyncIterable<string>;
+  // Raw PCM16 mono at 24 kHz
+  streamSpeech(request: SpeechRequest): AsyncIterable<Uint8Array>;
+  // The parsed JSON response
+  generateStructured(request: StructuredRequest): Promise<unknown>;
+  // The text response to a prompt about a recording
+  transcribeAudio(request: AudioRequest): Promise<string>;
+}
+
+const SPEECH_SAMPLE_RATE = 24000;
+
+function logApiError(e: ApiError): never {
+  console.error('error name: ', e.name);
+  console.error('error message: ', e.message);
+  console.error('error status: ', e.status);
+  throw e;
+}
+
+const toContents = (history: ChatTurn[]) => history.map(({ role, text }) => ({ role, parts: [{ text }] }));
+
+export class GeminiLLMProvider implements LLMProvider {
+  name = 'gemini';
+
+  checkConfiguration(): string | null {
+    return process.env.GOOGLE_GENERATIVE_AI_API_KEY ? null : 'GOOGLE_GENERATIVE_AI_API_KEY not set';
+  }
+
+  async *streamText({ model = gemini.flash2, history, signal, ...config }: TextRequest): AsyncIterable<string> {
+    const result = await genAI.models.generateContentStream({
+      model,
+      contents: toContents(history),
+      config: { ...config, candidateCount: 1, abortSignal: signal },
+    }).catch(logApiError);
+
+    for await (const chunk of result) {
+      if (signal?.aborted) return;
+      yield chunk.text ?? '';
+    }
+  }
+
+  async *streamSpeech({ model = gemini.flash25TTS, text, voiceName, maxOutputTokens, signal }: SpeechRequest): AsyncIterable<Uint8Array> {
+    const result = await genAI.models.generateContentStream({
+      model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        candidateCount: 1,
+        maxOutputTokens,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName }
+          },
+        },
+        abortSignal: signal,
+      },
+    }).catch(logApiError);
+
+    for await (const chunk of result) {
+      if (signal?.aborted) return;
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) yield Buffer.from(part.inlineData.data, 'base64');
+      }
+    }
+  }
+
+  async generateStructured({ model = gemini.flash25, history, systemInstruction, responseSchema, signal }: StructuredRequest): Promise<unknown> {
+    const response = await genAI.models.generateContent({
+      model,
+      contents: toContents(history),
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema,
+        abortSignal: signal,
+      },
+    }).catch(logApiError);
+
+    return JSON.parse(response.text ?? 'null');
+  }
+
+  async transcribeAudio({ model = gemini.flash25Lite, audio, mimeType, prompt, signal }: AudioRequest): Promise<string> {
+    const response = await genAI.models.generateContent({
+      model,
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType, data: Buffer.from(audio).toString('base64') } },
+          { text: prompt },
+        ],
+      }],
+      config: { abortSignal: signal },
+    }).catch(logApiError);
+
+    return response.text?.trim() ?? '';
+  }
+}
+
+/**
+ * A sine tone as PCM16 mono, what the fake speaks instead of words
+ */
+export function pcmTone(durationMs: number, frequency = 440, sampleRate = SPEECH_SAMPLE_RATE): Uint8Array {
+  const samples = Math.round((sampleRate * durationMs) / 1000);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    pcm[i] = Math.round(0.2 * 32767 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+export interface FakeLLMScript {
+  // One chunk sequence per streamText call, the last one repeats
+  text?: string[][];
+  // One response per generateStructured call, the last one repeats
+  structured?: unknown[];
+  // One response per transcribeAudio call, the last one repeats
+  transcripts?: string[];
+  speechMsPerChar?: number;
+  speechChunkMs?: number;
+}
+
+// Enough to get through /api/chat-refactor in either output format
+const FAKE_REPLY = {
+  rating: 90,
+  corrections: [],
+  difficulty: 1,
+  translations: {},
+  text: 'Hallo! Wie geht es dir heute?',
+};
+
+function fakeReplyChunks(request: TextRequest): string[] {
+  const reply = request.responseMimeType === 'application/json'
+    ? JSON.stringify(FAKE_REPLY)
+    : Object.entries(FAKE_REPLY).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)};`).join(' ');
+  return reply.match(/[\s\S]{1,16}/g) ?? [];
+}
+
+/**
+ * Deterministic provider for tests and local development without an API key.
+ * Replays scripted text chunks, and speaks a tone as long as the text would take.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  name = 'fake';
+  readonly textRequests: TextRequest[] = [];
+  readonly speechRequests: SpeechRequest[] = [];
+  readonly structuredRequests: StructuredRequest[] = [];
+  readonly audioRequests: AudioRequest[] = [];
+
+  constructor(private script: FakeLLMScript = {}) {}
+
+  checkConfiguration(): string | null {
+    return null;
+  }
+
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    const scripted = this.script.text;
+    const chunks = scripted?.length
+      ? scripted[Math.min(this.textRequests.length, scripted.length - 1)]
+      : fakeReplyChunks(request);
+    this.textRequests.push(request);
+
+    for (const chunk of chunks) {
+      // Yield to the event loop between chunks, like a network stream
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (request.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+
+  async *streamSpeech(request: SpeechRequest): AsyncIterable<Uint8Array> {
+    this.speechRequests.push(request);
+    const { speechMsPerChar = 60, speechChunkMs = 250 } = this.script;
+    const tone = pcmTone(Math.max(speechChunkMs, request.text.length * speechMsPerChar));
+    const chunkBytes = Math.round((SPEECH_SAMPLE_RATE * speechChunkMs) / 1000) * 2;
+
+    for (let offset = 0; offset < tone.length; offset += chunkBytes) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (request.signal?.aborted) return;
+      yield tone.slice(offset, offset + chunkBytes);
+    }
+  }
+
+  async generateStructured(request: StructuredRequest): Promise<unknown> {
+    const scripted = this.script.structured;
+    const response = scripted?.length
+      ? scripted[Math.min(this.structuredRequests.length, scripted.length - 1)]
+      : {};
+    this.structuredRequests.push(request);
+    return response;
+  }
+
+  async transcribeAudio(request: AudioRequest): Promise<string> {
+    const scripted = this.script.transcripts;
+    const response = scripted?.length
+      ? scripted[Math.min(this.audioRequests.length, scripted.length - 1)]
+      : '';
+    this.audioRequests.push(request);
+    return response;
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+// LLM_PROVIDER=fake swaps in the fake, Gemini otherwise
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = process.env.LLM_PROVIDER === 'fake' ? new FakeLLMProvider() : new GeminiLLMProvider();
+  }
+  return provider;
+}
+
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
+
+/**
+ * One TTS call collected in full, in the language's voice unless another is given.
+ * Returns raw PCM16 at 24 kHz
+ */
+export async function synthesizeSpeech(
+  text: string,
+  language?: string | null,
+  voiceName: string = getTTSVoice(language)
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const part of getLLMProvider().streamSpeech({ text, voiceName })) {
+    parts.push(part);
+  }
+  return Buffer.concat(parts);
+}
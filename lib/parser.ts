@@ -6,6 +6,15 @@ export type ParserConfig = {
   delimiter?: string;
   terminator?: string;
   timeout?: number;
+  /**
+   * "simple" ends a value at the first terminator or the next key anywhere.
+   * "escaped" only reads keys at field boundaries, honours \; and \\ escapes
+   * and JSON strings, and tolerates keys out of order or repeated.
+   * Escaped mode expects a single-character terminator.
+   * "json" reads one JSON object (structured output) and streams the string
+   * values of stream keys, delimiter and terminator are not used.
+   */
+  mode?: "simple" | "escaped" | "json";
 };
 
 // Strict definition: JSON keys can be string/number/object/array/undefined
@@ -18,7 +27,9 @@ export type StreamUpdate =
   | { type: "meta"; data: ParsedData }
   | { type: "stream"; key: string; delta: string }
   | { type: "complete"; data: ParsedData }
-  | { type: "skip"; key: string };
+  | { type: "skip"; key: string }
+  // Escaped mode: a key that already had a value, its second value is dropped
+  | { type: "duplicate"; key: string };
 
 type ParserState = "seeking_key" | "reading_static" | "streaming";
 
@@ -31,6 +42,21 @@ export interface StreamParser {
   metaEmitted: boolean;
   keyStartTime: number;
   skippedKeys: Set<string>;
+  // Escaped mode: the field being read, null between fields
+  field: FieldScan | null;
+  // JSON mode: where the scan is in the object
+  json: JsonScan | null;
+}
+
+interface FieldScan {
+  key: string;
+  value: string; // static value read so far, escapes resolved
+  depth: number; // JSON nesting outside strings
+  inString: boolean;
+  escapeNext: boolean; // inside a JSON string, after a backslash
+  started: boolean; // leading whitespace has been skipped
+  heldWhitespace: string; // stream text whitespace, held until more text follows
+  duplicate: boolean;
 }
 
 export function createParser(config: ParserConfig): StreamParser {
@@ -48,7 +74,9 @@ export function createParser(config: ParserConfig): StreamParser {
     },
     metaEmitted: false,
     keyStartTime: Date.now(),
-    skippedKeys: new Set()
+    skippedKeys: new Set(),
+    field: null,
+    json: null
   };
 }
 
@@ -60,6 +88,44 @@ function isJsonKey(key: string, config: ParserConfig) {
   return config.jsonKeys?.includes(key) ?? false;
 }
 
+/**
+ * Emit meta once, when every static key has been parsed or skipped
+ */
+function maybeEmitMeta(parser: StreamParser, updates: StreamUpdate[]) {
+  const { keys, streamKeys } = parser.config;
+  if (!parser.metaEmitted) {
+    let allStaticDone = true;
+    for (const key of keys) {
+      if (!streamKeys.includes(key)) {
+        if (
+          !Object.prototype.hasOwnProperty.call(parser.parsed, key) &&
+          !parser.skippedKeys.has(key)
+        ) {
+          allStaticDone = false;
+          break;
+        }
+      }
+    }
+    if (allStaticDone) {
+      const metaData: ParsedData = {};
+      for (const key of keys) {
+        if (!streamKeys.includes(key)) {
+          if (
+            Object.prototype.hasOwnProperty.call(parser.parsed, key) ||
+            parser.skippedKeys.has(key)
+          ) {
+            metaData[key] = parser.parsed[key];
+          }
+        }
+      }
+      if (Object.keys(metaData).length > 0) {
+        updates.push({ type: "meta", data: metaData });
+      }
+      parser.metaEmitted = true;
+    }
+  }
+}
+
 /**
  * Parse a chunk of incoming text.
  * Emits meta update once, after all static keys are parsed/skipped.
@@ -68,6 +134,13 @@ export function parseChunk(
   parser: StreamParser,
   chunk: string
 ): { parser: StreamParser; updates: StreamUpdate[] } {
+  if (parser.config.mode === "escaped") {
+    return { parser, updates: scanEscaped(parser, chunk, false) };
+  }
+  if (parser.config.mode === "json") {
+    return { parser, updates: scanJson(parser, chunk, false) };
+  }
+
   parser.buffer += chunk;
   const updates: StreamUpdate[] = [];
 
@@ -130,40 +203,6 @@ export function parseChunk(
     }
   }
 
-  function maybeEmitMeta() {
-    if (!parser.metaEmitted) {
-      let allStaticDone = true;
-      for (const key of keys) {
-        if (!streamKeys.includes(key)) {
-          if (
-            !Object.prototype.hasOwnProperty.call(parser.parsed, key) &&
-            !parser.skippedKeys.has(key)
-          ) {
-            allStaticDone = false;
-            break;
-          }
-        }
-      }
-      if (allStaticDone) {
-        const metaData: ParsedData = {};
-        for (const key of keys) {
-          if (!streamKeys.includes(key)) {
-            if (
-              Object.prototype.hasOwnProperty.call(parser.parsed, key) ||
-              parser.skippedKeys.has(key)
-            ) {
-              metaData[key] = parser.parsed[key];
-            }
-          }
-        }
-        if (Object.keys(metaData).length > 0) {
-          updates.push({ type: "meta", data: metaData });
-        }
-        parser.metaEmitted = true;
-      }
-    }
-  }
-
   mainloop: while (parser.currentKeyIndex < keys.length) {
     // Only skip for non-jsonKey optionals
     if (!(isOptionalKey(keys[parser.currentKeyIndex], parser.config) && isJsonKey(keys[parser.currentKeyIndex], parser.config))) {
@@ -347,7 +386,7 @@ export function parseChunk(
     }
   }
 
-  maybeEmitMeta();
+  maybeEmitMeta(parser, updates);
 
   if (
     parser.currentKeyIndex >= keys.length &&
@@ -359,6 +398,502 @@ export function parseChunk(
   return { parser, updates };
 }
 
+/**
+ * Signal the end of the input. Closes a value left open (e.g. a reply
+ * missing its final terminator), marks keys that never came as skipped
+ * and emits meta and complete if they are still due.
+ */
+export function endParser(parser: StreamParser): StreamUpdate[] {
+  if (isParsingComplete(parser)) return [];
+  if (parser.config.mode === "escaped") return scanEscaped(parser, "", true);
+  if (parser.config.mode === "json") return scanJson(parser, "", true);
+
+  // A terminator closes whatever value the simple scan is still reading
+  const { updates } = parseChunk(parser, parser.config.terminator || ";");
+  finishParsing(parser, updates);
+  return updates;
+}
+
+function finishParsing(parser: StreamParser, updates: StreamUpdate[]) {
+  for (const key of parser.config.keys) {
+    if (!Object.prototype.hasOwnProperty.call(parser.parsed, key)) {
+      parser.skippedKeys.add(key);
+      parser.parsed[key] = undefined;
+      updates.push({ type: "skip", key });
+    }
+  }
+  maybeEmitMeta(parser, updates);
+  if (!updates.some((u) => u.type === "complete")) {
+    updates.push({ type: "complete", data: parser.parsed });
+  }
+  parser.currentKeyIndex = parser.config.keys.length;
+}
+
+// Optional keys still missing when a stream key starts are skipped, so meta goes out before the text
+function startStreamKey(parser: StreamParser, key: string, updates: StreamUpdate[]) {
+  const { keys, streamKeys } = parser.config;
+  for (const k of keys) {
+    if (
+      !Object.prototype.hasOwnProperty.call(parser.parsed, k) &&
+      !streamKeys.includes(k) &&
+      isOptionalKey(k, parser.config)
+    ) {
+      parser.skippedKeys.add(k);
+      parser.parsed[k] = undefined;
+      updates.push({ type: "skip", key: k });
+    }
+  }
+  maybeEmitMeta(parser, updates);
+  parser.parsed[key] = "";
+}
+
+// ============================================
+// ESCAPED MODE
+// A single pass over the buffer: everything decided is consumed, only an
+// undecided tail (a trailing escape, or a terminator whose next key has not
+// arrived yet) is kept for the next chunk.
+// ============================================
+
+const isSpace = (c: string) => c === " " || c === "\n" || c === "\t" || c === "\r";
+const isKeyChar = (c: string) => /[\w-]/.test(c);
+
+/**
+ * Does `buf` continue at `from` with a known key and the delimiter, after
+ * optional whitespace? "wait" when the buffer ends before that is decided.
+ */
+function matchKeyAt(
+  buf: string,
+  from: number,
+  keys: string[],
+  d: string
+): { key: string; end: number } | "wait" | null {
+  let i = from;
+  while (i < buf.length && isSpace(buf[i])) i++;
+  if (i === buf.length) return "wait";
+
+  let j = i;
+  while (j < buf.length && isKeyChar(buf[j])) j++;
+  const name = buf.slice(i, j);
+  if (j === buf.length) return keys.some((key) => key.startsWith(name)) ? "wait" : null;
+  if (!keys.includes(name)) return null;
+
+  let k = j;
+  while (k < buf.length && buf[k] === " ") k++;
+  const rest = buf.slice(k, k + d.length);
+  if (rest === d) return { key: name, end: k + d.length };
+  return k + d.length > buf.length && d.startsWith(rest) ? "wait" : null;
+}
+
+// \; and \\ are literal, any other backslash is kept as written
+const unescape = (c: string, t: string) => (c === t || c === "\\" ? c : "\\" + c);
+
+function toStaticValue(raw: string, json: boolean): ParsedData[string] {
+  if (json) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      // Not JSON, fall back to a number or the raw string
+    }
+  }
+  const numValue = Number(raw);
+  return raw !== "" && !isNaN(numValue) ? numValue : raw;
+}
+
+function scanEscaped(parser: StreamParser, chunk: string, final: boolean): StreamUpdate[] {
+  parser.buffer += chunk;
+  const updates: StreamUpdate[] = [];
+  const { keys, streamKeys } = parser.config;
+  const d = parser.config.delimiter || ":";
+  const t = parser.config.terminator || ";";
+  const buf = parser.buffer;
+  let pos = 0;
+  let delta = "";
+
+  const has = (key: string) => Object.prototype.hasOwnProperty.call(parser.parsed, key);
+
+  // Whether the value ends before `from`: a key follows, or the input does
+  function endsField(from: number): boolean | "wait" {
+    const next = matchKeyAt(buf, from, keys, d);
+    if (next !== "wait") return next !== null;
+    if (!final) return "wait";
+    return buf.slice(from).trim() === "";
+  }
+
+  function flushDelta() {
+    const field = parser.field;
+    if (field && delta.length > 0) {
+      updates.push({ type: "stream", key: field.key, delta });
+      parser.parsed[field.key] = (parser.parsed[field.key] || "") + delta;
+    }
+    delta = "";
+  }
+
+  function emitText(text: string) {
+    const field = parser.field!;
+    if (field.duplicate) return;
+    if (isSpace(text)) {
+      field.heldWhitespace += text;
+    } else {
+      delta += field.heldWhitespace + text;
+      field.heldWhitespace = "";
+    }
+  }
+
+  function openField(key: string) {
+    const duplicate = has(key) && !parser.skippedKeys.has(key);
+    if (duplicate) {
+      updates.push({ type: "duplicate", key });
+    } else {
+      parser.skippedKeys.delete(key);
+      if (streamKeys.includes(key)) startStreamKey(parser, key, updates);
+    }
+    parser.field = {
+      key,
+      value: "",
+      depth: 0,
+      inString: false,
+      escapeNext: false,
+      started: false,
+      heldWhitespace: "",
+      duplicate,
+    };
+    parser.keyStartTime = Date.now();
+  }
+
+  function closeField() {
+    const field = parser.field!;
+    if (!field.duplicate) {
+      if (streamKeys.includes(field.key)) {
+        flushDelta();
+      } else {
+        parser.parsed[field.key] = toStaticValue(field.value.trim(), isJsonKey(field.key, parser.config));
+      }
+    }
+    parser.field = null;
+    maybeEmitMeta(parser, updates);
+    if (keys.every(has)) {
+      updates.push({ type: "complete", data: parser.parsed });
+      parser.currentKeyIndex = keys.length;
+    }
+  }
+
+  scan: while (pos < buf.length && !isParsingComplete(parser)) {
+    const field = parser.field;
+    const c = buf[pos];
+
+    // BETWEEN FIELDS
+    if (!field) {
+      if (isSpace(c) || c === t) {
+        pos++;
+        continue;
+      }
+      const match = matchKeyAt(buf, pos, keys, d);
+      if (match === "wait" && !final) break scan;
+      if (match && match !== "wait") {
+        openField(match.key);
+        pos = match.end;
+        continue;
+      }
+      // Not a known key: skip the word and look again after it
+      while (pos < buf.length && !isSpace(buf[pos]) && buf[pos] !== t) pos++;
+      continue;
+    }
+
+    if (!field.started) {
+      if (isSpace(c)) {
+        pos++;
+        continue;
+      }
+      field.started = true;
+    }
+
+    // JSON VALUE: terminators only count outside strings and brackets
+    if (isJsonKey(field.key, parser.config)) {
+      if (c === t && !field.escapeNext) {
+        if (!field.inString && field.depth <= 0) {
+          closeField();
+          pos++;
+          continue;
+        }
+        // Unbalanced JSON: end the value anyway if the next field starts
+        const ends = endsField(pos + 1);
+        if (ends === "wait") break scan;
+        if (ends) {
+          closeField();
+          pos++;
+          continue;
+        }
+      }
+      if (field.inString) {
+        if (field.escapeNext) field.escapeNext = false;
+        else if (c === "\\") field.escapeNext = true;
+        else if (c === '"') field.inString = false;
+      } else if (c === '"') {
+        field.inString = true;
+      } else if (c === "[" || c === "{") {
+        field.depth++;
+      } else if (c === "]" || c === "}") {
+        field.depth--;
+      }
+      field.value += c;
+      pos++;
+      continue;
+    }
+
+    if (c === "\\") {
+      if (pos + 1 >= buf.length) {
+        if (!final) break scan;
+        pos++;
+        continue;
+      }
+      const literal = unescape(buf[pos + 1], t);
+      if (streamKeys.includes(field.key)) emitText(literal);
+      else field.value += literal;
+      pos += 2;
+      continue;
+    }
+
+    // STATIC VALUE: ends at a terminator, or where the next key starts
+    if (!streamKeys.includes(field.key)) {
+      if (c === t) {
+        closeField();
+        pos++;
+        continue;
+      }
+      if (isSpace(c)) {
+        const ends = endsField(pos);
+        if (ends === "wait") break scan;
+        if (ends) {
+          closeField();
+          continue;
+        }
+      }
+      field.value += c;
+      pos++;
+      continue;
+    }
+
+    // STREAMING: a terminator the model forgot to escape is kept as text
+    if (c === t) {
+      const ends = endsField(pos + 1);
+      if (ends === "wait") break scan;
+      if (ends) {
+        closeField();
+        pos++;
+        continue;
+      }
+    }
+    emitText(c);
+    pos++;
+  }
+
+  parser.buffer = buf.slice(pos);
+  flushDelta();
+
+  if (final && !isParsingComplete(parser)) {
+    if (parser.field) closeField();
+    parser.buffer = "";
+    if (!isParsingComplete(parser)) finishParsing(parser, updates);
+  }
+
+  return updates;
+}
+
+// ============================================
+// JSON MODE
+// Structured output arrives as one JSON object. Static values are kept as
+// raw JSON until they end and then parsed whole, string values of stream
+// keys are decoded and emitted as they arrive.
+// ============================================
+
+interface JsonScan {
+  state: "start" | "key" | "name" | "colon" | "value" | "raw" | "text" | "next" | "end";
+  key: string;
+  token: string; // raw JSON of the key or static value being read
+  depth: number;
+  inString: boolean;
+  escapeNext: boolean;
+  duplicate: boolean;
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+};
+
+function parseJsonToken(token: string): ParsedData[string] {
+  try {
+    return JSON.parse(token);
+  } catch {
+    return token;
+  }
+}
+
+function scanJson(parser: StreamParser, chunk: string, final: boolean): StreamUpdate[] {
+  if (isParsingComplete(parser)) return [];
+  parser.buffer += chunk;
+  const updates: StreamUpdate[] = [];
+  const { keys, streamKeys } = parser.config;
+  const buf = parser.buffer;
+  const scan: JsonScan = parser.json ??= {
+    state: "start",
+    key: "",
+    token: "",
+    depth: 0,
+    inString: false,
+    escapeNext: false,
+    duplicate: false,
+  };
+  let pos = 0;
+  let delta = "";
+
+  function flushDelta() {
+    if (delta.length > 0 && !scan.duplicate) {
+      updates.push({ type: "stream", key: scan.key, delta });
+      parser.parsed[scan.key] = (parser.parsed[scan.key] || "") + delta;
+    }
+    delta = "";
+  }
+
+  function openValue(c: string) {
+    const known = keys.includes(scan.key);
+    // Unknown keys are read like any other value and dropped
+    scan.duplicate =
+      !known ||
+      (Object.prototype.hasOwnProperty.call(parser.parsed, scan.key) && !parser.skippedKeys.has(scan.key));
+    if (known && scan.duplicate) updates.push({ type: "duplicate", key: scan.key });
+    if (!scan.duplicate) parser.skippedKeys.delete(scan.key);
+
+    if (streamKeys.includes(scan.key) && c === '"') {
+      if (!scan.duplicate) startStreamKey(parser, scan.key, updates);
+      scan.state = "text";
+      pos++;
+    } else {
+      scan.token = "";
+      scan.depth = 0;
+      scan.inString = false;
+      scan.escapeNext = false;
+      scan.state = "raw";
+    }
+    parser.keyStartTime = Date.now();
+  }
+
+  function closeValue() {
+    if (scan.state === "text") {
+      flushDelta();
+    } else if (!scan.duplicate) {
+      parser.parsed[scan.key] = parseJsonToken(scan.token.trim());
+      maybeEmitMeta(parser, updates);
+    }
+    scan.state = "next";
+  }
+
+  // Strings inside a raw value or key: only their end matters
+  function stringChar(c: string) {
+    if (scan.escapeNext) scan.escapeNext = false;
+    else if (c === "\\") scan.escapeNext = true;
+    else if (c === '"') scan.inString = false;
+  }
+
+  while (pos < buf.length && scan.state !== "end") {
+    const c = buf[pos];
+
+    switch (scan.state) {
+      // Anything before the object, e.g. a code fence, is ignored
+      case "start":
+        if (c === "{") scan.state = "key";
+        pos++;
+        continue;
+
+      case "key":
+      case "next":
+        if (c === "}") scan.state = "end";
+        else if (c === ",") scan.state = "key";
+        else if (c === '"' && scan.state === "key") {
+          scan.token = c;
+          scan.inString = true;
+          scan.escapeNext = false;
+          scan.state = "name";
+        }
+        pos++;
+        continue;
+
+      case "name":
+        scan.token += c;
+        stringChar(c);
+        if (!scan.inString) {
+          scan.key = String(parseJsonToken(scan.token));
+          scan.state = "colon";
+        }
+        pos++;
+        continue;
+
+      case "colon":
+        if (c === ":") scan.state = "value";
+        pos++;
+        continue;
+
+      case "value":
+        if (isSpace(c)) pos++;
+        else openValue(c);
+        continue;
+
+      case "raw":
+        if (scan.inString) {
+          stringChar(c);
+        } else if (c === '"') {
+          scan.inString = true;
+        } else if (c === "[" || c === "{") {
+          scan.depth++;
+        } else if (c === "]" || c === "}" || c === ",") {
+          // A comma or the object's closing brace at the top level ends the value
+          if (scan.depth === 0) {
+            closeValue();
+            continue;
+          }
+          if (c !== ",") scan.depth--;
+        }
+        scan.token += c;
+        pos++;
+        continue;
+
+      case "text":
+        if (c === '"') {
+          closeValue();
+          pos++;
+          continue;
+        }
+        if (c !== "\\") {
+          if (!scan.duplicate) delta += c;
+          pos++;
+          continue;
+        }
+        // Escapes split across chunks wait for the rest
+        if (pos + 1 >= buf.length) break;
+        if (buf[pos + 1] === "u") {
+          if (pos + 6 > buf.length) break;
+          if (!scan.duplicate) delta += String.fromCharCode(parseInt(buf.slice(pos + 2, pos + 6), 16));
+          pos += 6;
+        } else {
+          if (!scan.duplicate) delta += JSON_ESCAPES[buf[pos + 1]] ?? buf[pos + 1];
+          pos += 2;
+        }
+        continue;
+    }
+    break;
+  }
+
+  parser.buffer = buf.slice(pos);
+  if (scan.state === "text") flushDelta();
+
+  if (scan.state === "end" || final) {
+    if (scan.state === "raw" || scan.state === "text") closeValue();
+    parser.buffer = "";
+    finishParsing(parser, updates);
+  }
+
+  return updates;
+}
+
 /**
  * Utility: Check if parsing is complete
  */
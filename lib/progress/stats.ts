@@ -0,0 +1,191 @@
+// ============================================
+// LEARNER PROGRESS
+// Trends, daily totals and streaks from stored chat turns and saved words
+// ============================================
+
+export interface ProgressTurn {
+  language: string | null;
+  role: 'user' | 'assistant';
+  rating: number | null;
+  difficulty: number | null;
+  createdAt: number;
+}
+
+export interface ProgressWord {
+  language: string;
+  addedAt: number;
+}
+
+export interface RatingPoint {
+  timestamp: number;
+  rating: number;
+  average: number;
+}
+
+export interface DailyValue {
+  day: string; // YYYY-MM-DD, local time
+  value: number;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+export interface LanguageProgress {
+  language: string;
+  ratings: RatingPoint[];
+  difficulty: DailyValue[];
+  wordsPerDay: DailyValue[];
+  practiceMinutes: DailyValue[];
+  streaks: Streaks;
+  totalWords: number;
+}
+
+export const RATING_WINDOW = 5;
+
+// Turns further apart than this belong to separate practice sessions
+const SESSION_GAP_MS = 10 * 60 * 1000;
+
+// Time credited for the last turn of a session, which has no following gap
+const LAST_TURN_MS = 60 * 1000;
+
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function previousDayKey(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return dayKey(new Date(year, month - 1, date - 1).getTime());
+}
+
+/**
+ * Trailing moving average, shorter at the start of the series
+ */
+export function movingAverage(values: number[], window: number = RATING_WINDOW): number[] {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= window) sum -= values[index - window];
+    return sum / Math.min(index + 1, window);
+  });
+}
+
+export function ratingTrend(turns: ProgressTurn[], window: number = RATING_WINDOW): RatingPoint[] {
+  const rated = turns
+    .filter((t) => t.role === 'user' && typeof t.rating === 'number')
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const averages = movingAverage(rated.map((t) => t.rating as number), window);
+
+  return rated.map((t, index) => ({
+    timestamp: t.createdAt,
+    rating: t.rating as number,
+    average: averages[index],
+  }));
+}
+
+/**
+ * Average tutor difficulty per day
+ */
+export function difficultyTrajectory(turns: ProgressTurn[]): DailyValue[] {
+  const days = new Map<string, { sum: number; count: number }>();
+
+  for (const turn of turns) {
+    if (turn.role !== 'assistant' || typeof turn.difficulty !== 'number') continue;
+    const key = dayKey(turn.createdAt);
+    const entry = days.get(key) ?? { sum: 0, count: 0 };
+    entry.sum += turn.difficulty;
+    entry.count += 1;
+    days.set(key, entry);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, { sum, count }]) => ({ day, value: sum / count }));
+}
+
+export function wordsPerDay(words: ProgressWord[]): DailyValue[] {
+  const days = new Map<string, number>();
+  for (const word of words) {
+    const key = dayKey(word.addedAt);
+    days.set(key, (days.get(key) ?? 0) + 1);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, value]) => ({ day, value }));
+}
+
+/**
+ * Estimate minutes practiced per day from the gaps between turns.
+ * Long pauses end a session instead of counting as practice.
+ */
+export function practiceMinutesPerDay(turns: ProgressTurn[]): DailyValue[] {
+  const sorted = [...turns].sort((a, b) => a.createdAt - b.createdAt);
+  const days = new Map<string, number>();
+
+  sorted.forEach((turn, index) => {
+    const next = sorted[index + 1];
+    const gap = next ? next.createdAt - turn.createdAt : Infinity;
+    const credited = gap <= SESSION_GAP_MS ? gap : LAST_TURN_MS;
+    const key = dayKey(turn.createdAt);
+    days.set(key, (days.get(key) ?? 0) + credited);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, ms]) => ({ day, value: Math.round(ms / 60000) }));
+}
+
+/**
+ * Consecutive practice days. The current streak survives until the end of
+ * the day after the last practice, so it doesn't reset first thing in the morning.
+ */
+export function practiceStreaks(days: string[], now: number = Date.now()): Streaks {
+  const unique = [...new Set(days)].sort();
+  if (unique.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < unique.length; i++) {
+    run = previousDayKey(unique[i]) === unique[i - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = dayKey(now);
+  const last = unique[unique.length - 1];
+  const current = last === today || last === previousDayKey(today) ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Group turns and words by language and compute every series for the dashboard
+ */
+export function buildProgress(
+  turns: ProgressTurn[],
+  words: ProgressWord[],
+  now: number = Date.now()
+): LanguageProgress[] {
+  const languages = new Set<string>();
+  turns.forEach((t) => t.language && languages.add(t.language));
+  words.forEach((w) => languages.add(w.language));
+
+  return [...languages].sort().map((language) => {
+    const languageTurns = turns.filter((t) => t.language === language);
+    const languageWords = words.filter((w) => w.language === language);
+
+    return {
+      language,
+      ratings: ratingTrend(languageTurns),
+      difficulty: difficultyTrajectory(languageTurns),
+      wordsPerDay: wordsPerDay(languageWords),
+      practiceMinutes: practiceMinutesPerDay(languageTurns),
+      streaks: practiceStreaks(languageTurns.map((t) => dayKey(t.createdAt)), now),
+      totalWords: languageWords.length,
+    };
+  });
+}
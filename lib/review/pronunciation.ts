@@ -0,0 +1,165 @@
+// ============================================
+// PRONUNCIATION SCORING
+// Compare a recognized transcript with the expected word
+// ============================================
+
+import { ReviewGrade } from './scheduler';
+
+export interface PronunciationResult {
+  expected: string;
+  transcript: string;
+  editSimilarity: number;   // 0-1, normalized Levenshtein on spelling
+  phoneticSimilarity: number; // 0-1, normalized Levenshtein on phonetic keys
+  score: number;            // 0-1, weighted blend of the two
+  grade: ReviewGrade;
+  passed: boolean;
+}
+
+const EDIT_WEIGHT = 0.6;
+const PHONETIC_WEIGHT = 0.4;
+
+const GOOD_THRESHOLD = 0.85;
+const HARD_THRESHOLD = 0.6;
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace.
+ * Diacritics are kept: "später" and "spater" are different words.
+ */
+export function normalizeForComparison(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]+/gu, '')
+    .replace(/['-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein distance over code points
+ */
+export function levenshtein(a: string, b: string): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (s.length === 0) return t.length;
+  if (t.length === 0) return s.length;
+
+  let previous = Array.from({ length: t.length + 1 }, (_, i) => i);
+  let current = new Array<number>(t.length + 1);
+
+  for (let i = 1; i <= s.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[t.length];
+}
+
+/**
+ * 1 - distance / longest length, so identical strings score 1
+ */
+export function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(Array.from(a).length, Array.from(b).length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+// Ordered rewrite rules: spellings that sound alike across the supported languages
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/sch/g, 's'],
+  [/ph/g, 'f'],
+  [/th/g, 't'],
+  [/ck/g, 'k'],
+  [/qu/g, 'k'],
+  [/gn/g, 'n'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/x/g, 'ks'],
+  [/z/g, 's'],
+  [/w/g, 'v'],
+  [/y/g, 'i'],
+  [/ou/g, 'u'],
+  [/(ai|ei|ay|ey)/g, 'e'],
+  [/h/g, ''], // silent h in French/Spanish/Italian, vowel length in German
+  [/(.)\1+/g, '$1'],
+];
+
+/**
+ * Coarse sound-alike key for latin-script words.
+ * Non-latin scripts (e.g. Japanese) are returned normalized as-is.
+ */
+export function phoneticKey(text: string): string {
+  const normalized = normalizeForComparison(text);
+  const ascii = normalized.normalize('NFD').replace(/\p{M}+/gu, '');
+
+  if (/[^a-z0-9\s]/.test(ascii)) {
+    return normalized.replace(/\s+/g, '');
+  }
+
+  let key = ascii.replace(/\s+/g, '');
+  for (const [pattern, replacement] of PHONETIC_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+}
+
+export function phoneticSimilarity(a: string, b: string): number {
+  return editSimilarity(phoneticKey(a), phoneticKey(b));
+}
+
+function gradeFromScore(score: number): ReviewGrade {
+  if (score >= GOOD_THRESHOLD) return 'good';
+  if (score >= HARD_THRESHOLD) return 'hard';
+  return 'again';
+}
+
+// The recognizer often adds filler ("uh, bonjour"), so also try every
+// window of the transcript with the same number of words as the target
+function candidateSpans(expected: string, transcript: string): string[] {
+  const words = transcript.split(' ').filter(Boolean);
+  const span = Math.max(1, expected.split(' ').length);
+  const candidates = [transcript];
+
+  for (let i = 0; i + span <= words.length; i++) {
+    candidates.push(words.slice(i, i + span).join(' '));
+  }
+  return candidates;
+}
+
+/**
+ * Score a learner's attempt at saying a word
+ */
+export function scorePronunciation(expected: string, transcript: string): PronunciationResult {
+  const target = normalizeForComparison(expected);
+  const heard = normalizeForComparison(transcript);
+
+  let best = { edit: 0, phonetic: 0, score: 0 };
+  for (const candidate of candidateSpans(target, heard)) {
+    const edit = editSimilarity(target, candidate);
+    const phonetic = phoneticSimilarity(target, candidate);
+    const score = EDIT_WEIGHT * edit + PHONETIC_WEIGHT * phonetic;
+    if (score > best.score) {
+      best = { edit, phonetic, score };
+    }
+  }
+
+  const grade = gradeFromScore(best.score);
+
+  return {
+    expected,
+    transcript,
+    editSimilarity: best.edit,
+    phoneticSimilarity: best.phonetic,
+    score: best.score,
+    grade,
+    passed: grade !== 'again',
+  };
+}
@@ -0,0 +1,118 @@
+// ============================================
+// SPACED-REPETITION SCHEDULER
+// SM-2 style interval/ease scheduling for saved vocabulary
+// ============================================
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// Where a graded answer came from, stored with the review history
+export type ReviewSource = 'flashcard' | 'drill';
+
+export interface ReviewAttempt {
+  source?: ReviewSource;
+  score?: number;
+  transcript?: string;
+}
+
+export interface ReviewState {
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Failed words come back within the same session instead of tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+// SM-2 quality (0-5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return typeof value === 'string' && REVIEW_GRADES.includes(value as ReviewGrade);
+}
+
+/**
+ * Scheduling state for a word that has never been reviewed.
+ * New words are due immediately.
+ */
+export function createReviewState(now: number = Date.now()): ReviewState {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now,
+  };
+}
+
+/**
+ * Compute the next scheduling state after grading a word
+ */
+export function scheduleReview(
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewState {
+  const quality = GRADE_QUALITY[grade];
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+
+  let interval: number;
+  if (repetitions === 1) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    interval = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    interval = state.interval * HARD_INTERVAL_MULTIPLIER;
+  } else if (grade === 'easy') {
+    interval = state.interval * easeFactor * EASY_BONUS;
+  } else {
+    interval = state.interval * easeFactor;
+  }
+  interval = Math.max(1, Math.round(interval));
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: now + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Check whether a word should be part of the review queue
+ */
+export function isDue(state: Pick<ReviewState, 'dueAt'>, now: number = Date.now()): boolean {
+  return state.dueAt <= now;
+}
@@ -1,38 +1,103 @@
+import { AUDIO_FRAMES_TYPE, readAudioFrames, toPCM16 } from './audio/audio-frames';
+import { AudioConverter } from './audio/audio-helpers';
+
 export interface ChatMessageCallbacks {
   onStreamStart?: (message: any) => void;
   onChunk?: (requestId: string, chunk: string, chunkIndex: number) => void;
   onComplete?: (fullResponse: string, message: any) => void;
   onError?: (error: string) => void;
   onTTSStreamStart?: (message: any) => void;
-  onTTSChunk?: (parentRequestId: string, audioChunk: string, chunkIndex: number) => void;
-  onTTSComplete?: (requestId: string, fullAudio: string, totalChunks: number) => void;
+  onTTSChunk?: (parentRequestId: string, audioChunk: string, chunkIndex: number, segmentIndex: number) => void;
+  onTTSComplete?: (requestId: string, fullAudio: string, totalChunks: number, segmentIndex: number) => void;
+  // Audio of a "frames" TTS request, already decoded
+  onTTSFrame?: (parentRequestId: string, samples: Float32Array, chunkIndex: number, segmentIndex: number, sampleRate: number) => void;
 };
 
+export interface ChatRequestOptions {
+  chatId?: string;
+  // Lets the server save the reply under the same id the client renders it with
+  assistantMessageId?: string;
+  language?: string | null;
+  level?: string | null;
+  // "json" asks for structured output instead of the `key: value;` text format
+  outputFormat?: 'text' | 'json';
+}
+
+// Events of one server-orchestrated turn (/api/turn), sentences and audio chunks in order
+export interface TurnCallbacks {
+  onTextDelta?: (requestId: string, content: string, chunkIndex: number) => void;
+  // Rating, corrections and difficulty, before the reply text
+  onMeta?: (metadata: any) => void;
+  onSentenceStart?: (sentenceIndex: number, text: string) => void;
+  onAudioChunk?: (requestId: string, audioChunk: string, chunkIndex: number, sentenceIndex: number) => void;
+  // Audio of a "frames" turn, already decoded
+  onAudioFrame?: (requestId: string, samples: Float32Array, chunkIndex: number, sentenceIndex: number, sampleRate: number) => void;
+  // `message.error` is set when the sentence could not be spoken
+  onSentenceComplete?: (sentenceIndex: number, totalChunks: number, message: any) => void;
+  onTurnComplete?: (fullResponse: string, message: any) => void;
+  onError?: (error: string) => void;
+}
+
+export interface TurnRequestOptions extends ChatRequestOptions {
+  // "frames" streams binary audio frames to onAudioFrame instead of base64 chunks to onAudioChunk
+  transport?: 'sse' | 'frames';
+}
+
+export interface TTSRequestOptions {
+  language?: string | null;
+  // Text is one sentence of a streamed reply: spoken in full, audio ordered by chunkIndex
+  isSegment?: boolean;
+  // "frames" streams binary audio frames to onTTSFrame instead of base64 chunks to onTTSChunk
+  transport?: 'sse' | 'frames';
+}
+
 class SSEClient {
   private chatUrl: string;
   private ttsUrl: string;
+  private turnUrl: string;
   private pendingRequests = new Map<string, ChatMessageCallbacks>();
   private requestIdCounter = 0;
+  // Abort handles for fetches in flight, and the TTS requests started for each chat request
+  private controllers = new Map<string, AbortController>();
+  private childRequests = new Map<string, Set<string>>();
 
-  constructor(chatUrl: string, ttsUrl: string) {
+  constructor(chatUrl: string, ttsUrl: string, turnUrl = '/api/turn') {
     this.chatUrl = chatUrl;
     this.ttsUrl = ttsUrl;
+    this.turnUrl = turnUrl;
   }
 
   private generateRequestId(): string {
     return (++this.requestIdCounter).toString();
   }
 
-  sendChatMessage(messages: any[], callbacks: ChatMessageCallbacks): string {
+  private trackRequest(requestId: string, parentRequestId?: string): AbortController {
+    const controller = new AbortController();
+    this.controllers.set(requestId, controller);
+    if (parentRequestId) {
+      const children = this.childRequests.get(parentRequestId) ?? new Set();
+      this.childRequests.set(parentRequestId, children.add(requestId));
+    }
+    return controller;
+  }
+
+  private untrackRequest(requestId: string, parentRequestId?: string) {
+    this.controllers.delete(requestId);
+    if (parentRequestId) this.childRequests.get(parentRequestId)?.delete(requestId);
+  }
+
+  sendChatMessage(messages: any[], callbacks: ChatMessageCallbacks, options: ChatRequestOptions = {}): string {
     const requestId = this.generateRequestId();
     this.pendingRequests.set(requestId, callbacks);
+    const { signal } = this.trackRequest(requestId);
 
     fetch(this.chatUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ messages, requestId }),
+      body: JSON.stringify({ messages, requestId, ...options }),
+      signal,
     })
       .then(async (response) => {
         if (!response.ok) {
@@ -49,12 +114,12 @@ class SSEClient {
 
         while (true) {
           const { value, done } = await reader!.read();
-          if (done) break;
+          if (done || signal.aborted) break;
 
           buffer += decoder.decode(value, { stream: true });
 
           let eventEndIndex;
-          while ((eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
+          while (!signal.aborted && (eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
             const eventString = buffer.substring(0, eventEndIndex);
             buffer = buffer.substring(eventEndIndex + 2);
 
@@ -99,15 +164,24 @@ class SSEClient {
         }
       })
       .catch((error) => {
+        // Cancelled on purpose, nobody is waiting for an error
+        if (signal.aborted) return;
         console.error('Fetch chat stream error:', error);
         callbacks.onError?.(error.message || 'Network error');
         this.pendingRequests.delete(requestId);
-      });
+      })
+      .finally(() => this.untrackRequest(requestId));
 
     return requestId;
   }
 
-  sendTTSRequest(text: string, chunkIndex: number, parentRequestId: string, callbacks?: ChatMessageCallbacks): string {
+  sendTTSRequest(
+    text: string,
+    chunkIndex: number,
+    parentRequestId: string,
+    callbacks?: ChatMessageCallbacks,
+    options: TTSRequestOptions = {}
+  ): string {
     const requestId = this.generateRequestId();
     const currentCallbacks = callbacks || this.pendingRequests.get(parentRequestId);
 
@@ -115,13 +189,17 @@ class SSEClient {
       console.error('No callbacks found for TTS request');
       return '';
     }
+    const { signal } = this.trackRequest(requestId, parentRequestId);
+    const { transport = 'sse', ...ttsOptions } = options;
 
     fetch(this.ttsUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(transport === 'frames' && { 'Accept': AUDIO_FRAMES_TYPE }),
       },
-      body: JSON.stringify({ text, parentRequestId, requestId, chunkIndex }),
+      body: JSON.stringify({ text, parentRequestId, requestId, chunkIndex, ...ttsOptions }),
+      signal,
     })
       .then(async (response) => {
         if (!response.ok) {
@@ -130,6 +208,26 @@ class SSEClient {
           return;
         }
 
+        if (transport === 'frames') {
+          // Kept for the full clip, which the end frame doesn't carry
+          const received: Float32Array[] = [];
+          for await (const frame of readAudioFrames(response.body!, signal)) {
+            if (frame.error !== undefined) {
+              currentCallbacks.onError?.(frame.error);
+              return;
+            }
+            if (frame.end) {
+              const fullAudio = AudioConverter.uint8ArrayToBase64(toPCM16(received));
+              currentCallbacks.onTTSComplete?.(parentRequestId, fullAudio, frame.chunkIndex, frame.segmentIndex);
+              return;
+            }
+            received.push(frame.samples);
+            currentCallbacks.onTTSFrame?.(parentRequestId, frame.samples, frame.chunkIndex, frame.segmentIndex, frame.sampleRate);
+          }
+          if (!signal.aborted) currentCallbacks.onError?.('TTS stream ended before its audio was complete');
+          return;
+        }
+
         const reader = response.body?.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
@@ -137,12 +235,12 @@ class SSEClient {
 
         while (true) {
           const { value, done } = await reader!.read();
-          if (done) break;
+          if (done || signal.aborted) break;
 
           buffer += decoder.decode(value, { stream: true });
 
           let eventEndIndex;
-          while ((eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
+          while (!signal.aborted && (eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
             const eventString = buffer.substring(0, eventEndIndex);
             buffer = buffer.substring(eventEndIndex + 2);
 
@@ -165,12 +263,13 @@ class SSEClient {
                   currentCallbacks.onTTSStreamStart?.(data);
                   break;
                 case 'tts_stream_chunk':
-                  currentCallbacks.onTTSChunk?.(data.parentRequestId, data.content, data.chunkIndex);
+                  currentCallbacks.onTTSChunk?.(data.parentRequestId, data.content, data.chunkIndex, data.segmentIndex ?? chunkIndex);
                   audioChunkIndex = data.chunkIndex;
                   break;
                 case 'tts_stream_complete':
-                  currentCallbacks.onTTSComplete?.(data.parentRequestId, data.content, data.totalChunks);
+                  currentCallbacks.onTTSComplete?.(data.parentRequestId, data.content, data.totalChunks, data.segmentIndex ?? chunkIndex);
                   break;
+                case 'error':
                 case 'tts_error':
                   currentCallbacks.onError?.(data.error);
                   break;
@@ -185,13 +284,136 @@ class SSEClient {
         }
       })
       .catch((error) => {
+        if (signal.aborted) return;
         console.error('Fetch TTS stream error:', error);
         currentCallbacks.onError?.(error.message || 'Network error');
-      });
+      })
+      .finally(() => this.untrackRequest(requestId, parentRequestId));
+
+    return requestId;
+  }
+
+  /**
+   * One tutor turn on a single stream: the server generates the reply, cuts
+   * it into sentences and speaks them, so there are no TTS requests to make.
+   */
+  sendTurn(messages: any[], callbacks: TurnCallbacks, options: TurnRequestOptions = {}): string {
+    const requestId = this.generateRequestId();
+    const { signal } = this.trackRequest(requestId);
+    const { transport = 'sse', ...chatOptions } = options;
+
+    const onEvent = (eventType: string, data: any) => {
+      switch (eventType) {
+        case 'text_delta':
+          callbacks.onTextDelta?.(data.requestId, data.content, data.chunkIndex);
+          break;
+        case 'meta':
+          callbacks.onMeta?.(data.metadata);
+          break;
+        case 'sentence_start':
+          callbacks.onSentenceStart?.(data.sentenceIndex, data.text);
+          break;
+        case 'audio_chunk':
+          callbacks.onAudioChunk?.(data.requestId, data.content, data.chunkIndex, data.sentenceIndex);
+          break;
+        case 'sentence_complete':
+          callbacks.onSentenceComplete?.(data.sentenceIndex, data.totalChunks, data);
+          break;
+        case 'turn_complete':
+          callbacks.onTurnComplete?.(data.content, data);
+          break;
+        case 'error':
+          callbacks.onError?.(data.error);
+          break;
+        default:
+          console.warn('Unknown SSE turn event type:', eventType, data);
+      }
+    };
+
+    fetch(this.turnUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(transport === 'frames' && { 'Accept': AUDIO_FRAMES_TYPE }),
+      },
+      body: JSON.stringify({ messages, requestId, ...chatOptions }),
+      signal,
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const errorData = await response.json();
+          callbacks.onError?.(errorData.error || 'Failed to fetch turn stream');
+          return;
+        }
+
+        if (transport === 'frames') {
+          for await (const frame of readAudioFrames(response.body!, signal)) {
+            if (frame.event) {
+              onEvent(frame.event.type, frame.event.data);
+            } else {
+              callbacks.onAudioFrame?.(frame.requestId, frame.samples, frame.chunkIndex, frame.segmentIndex, frame.sampleRate);
+            }
+          }
+          return;
+        }
+
+        await this.readEvents(response, signal, onEvent, () => callbacks.onError?.('Error parsing SSE turn data'));
+      })
+      .catch((error) => {
+        if (signal.aborted) return;
+        console.error('Fetch turn stream error:', error);
+        callbacks.onError?.(error.message || 'Network error');
+      })
+      .finally(() => this.untrackRequest(requestId));
 
     return requestId;
   }
 
+  // Calls onEvent for each `event:`/`data:` frame until the stream ends or is aborted
+  private async readEvents(
+    response: Response,
+    signal: AbortSignal,
+    onEvent: (eventType: string, data: any) => void,
+    onParseError: () => void
+  ): Promise<void> {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader!.read();
+      if (done || signal.aborted) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let eventEndIndex;
+      while (!signal.aborted && (eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
+        const eventString = buffer.substring(0, eventEndIndex);
+        buffer = buffer.substring(eventEndIndex + 2);
+
+        let eventType = '';
+        let eventData = '';
+        for (const line of eventString.split('\n')) {
+          if (line.startsWith('event: ')) {
+            eventType = line.substring('event: '.length);
+          } else if (line.startsWith('data: ')) {
+            eventData = line.substring('data: '.length);
+          }
+        }
+
+        let data;
+        try {
+          data = JSON.parse(eventData);
+        } catch (parseError) {
+          console.error('Error parsing SSE data:', parseError, eventData);
+          onParseError();
+          continue;
+        }
+        onEvent(eventType, data);
+      }
+    }
+  }
+
   // No explicit connect/disconnect for SSE, as it's request-based
   // We'll simulate connection status for compatibility with Chat component
   get isConnected(): boolean {
@@ -199,7 +421,9 @@ class SSEClient {
   }
 
   disconnect(): void {
-    // No explicit disconnect for SSE
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.childRequests.clear();
     this.pendingRequests.clear();
   }
 
@@ -208,11 +432,20 @@ class SSEClient {
     callback(true);
   }
 
+  /**
+   * Abort a request and every TTS request started for it. Aborting closes
+   * the connection, which the server routes take as the signal to stop
+   * generating. No callbacks fire afterwards.
+   */
   cancelRequest(requestId: string): void {
-    // For SSE, cancellation is harder once a fetch has started.
-    // We can at least remove callbacks to prevent further processing.
+    this.controllers.get(requestId)?.abort();
+    this.controllers.delete(requestId);
+    this.childRequests.get(requestId)?.forEach((childId) => {
+      this.controllers.get(childId)?.abort();
+      this.controllers.delete(childId);
+    });
+    this.childRequests.delete(requestId);
     this.pendingRequests.delete(requestId);
-    console.warn(`SSE request cancellation for ${requestId} is best-effort.`);
   }
 }
 
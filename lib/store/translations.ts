@@ -4,9 +4,16 @@ import {
   saveTranslations, 
   incrementUsageCount as incrementUsageCountAction,
   getVocabularyStats,
-  clearLanguageTranslations 
+  clearLanguageTranslations,
+  recordReview,
+  recordAttempt,
+  importTranslations,
+  generateWordAudioOnDemand,
 } from '@/app/actions/translations';
 import { LanguageName, TranslationData, TranslationsByLanguage } from '../utils';
+import { createReviewState, isDue, ReviewAttempt, ReviewGrade, scheduleReview } from '../review/scheduler';
+import { PronunciationResult } from '../review/pronunciation';
+import { VocabularyImportReport } from '../export/vocabulary';
 
 interface TranslationStore {
   // State
@@ -21,7 +28,12 @@ interface TranslationStore {
   getTranslation: (language: string, word: string) => TranslationData | undefined;
   getLanguageTranslations: (language: string) => Record<string, TranslationData>;
   incrementUsageCount: (language: string, word: string) => void;
+  loadWordAudio: (language: string, word: string) => Promise<void>;
+  getDueWords: (language: string, limit?: number) => TranslationData[];
+  reviewWord: (language: string, word: string, grade: ReviewGrade, attempt?: ReviewAttempt) => Promise<void>;
+  recordDrillAttempt: (language: string, word: string, result: PronunciationResult, options?: { retry?: boolean }) => Promise<void>;
   clearLanguage: (language: string) => Promise<void>;
+  importWords: (language: string, file: string, options?: { dryRun?: boolean }) => Promise<VocabularyImportReport>;
   refreshStats: () => Promise<{ [language: string]: number }>;
 }
 
@@ -132,6 +144,90 @@ export const useTranslationStore = create<TranslationStore>((set, get) => ({
     incrementUsageCountAction(language, word).catch(console.error);
   },
 
+  loadWordAudio: async (language: string, word: string) => {
+    const key = word.toLowerCase();
+    if (!get().translations[language]?.[key] || get().translations[language][key].audioUrl) return;
+
+    // Imported words get their audio the first time they come up
+    const audioUrl = await generateWordAudioOnDemand(language, word);
+    set(state => {
+      const translation = state.translations[language]?.[key];
+      if (!translation) return state;
+
+      return {
+        translations: {
+          ...state.translations,
+          [language]: {
+            ...state.translations[language],
+            [key]: { ...translation, audioUrl }
+          }
+        }
+      };
+    });
+  },
+
+  getDueWords: (language: string, limit?: number) => {
+    const now = Date.now();
+    const due = Object.values(get().translations[language] || {})
+      .filter(t => isDue({ dueAt: t.dueAt ?? now }, now))
+      .sort((a, b) => (a.dueAt ?? 0) - (b.dueAt ?? 0));
+
+    return limit ? due.slice(0, limit) : due;
+  },
+
+  reviewWord: async (language: string, word: string, grade: ReviewGrade, attempt?: ReviewAttempt) => {
+    const key = word.toLowerCase();
+    const translation = get().translations[language]?.[key];
+    if (!translation) return;
+
+    const setTranslation = (updated: TranslationData) => set(state => ({
+      translations: {
+        ...state.translations,
+        [language]: {
+          ...state.translations[language],
+          [key]: updated
+        }
+      }
+    }));
+
+    // Reschedule in-memory immediately so the session can move on
+    const fresh = createReviewState();
+    const current = {
+      easeFactor: translation.easeFactor ?? fresh.easeFactor,
+      interval: translation.interval ?? fresh.interval,
+      repetitions: translation.repetitions ?? fresh.repetitions,
+      dueAt: translation.dueAt ?? fresh.dueAt,
+    };
+    setTranslation({ ...translation, ...scheduleReview(current, grade) });
+
+    try {
+      setTranslation(await recordReview(language, word, grade, attempt));
+    } catch (error: any) {
+      console.error(`❌ Failed to record review for ${word}:`, error);
+      // The word keeps its old schedule, and the caller gets to tell the learner
+      setTranslation(translation);
+      set({ error: error.message });
+      throw error;
+    }
+  },
+
+  recordDrillAttempt: async (language: string, word: string, result: PronunciationResult, options?: { retry?: boolean }) => {
+    const attempt: ReviewAttempt = {
+      source: 'drill',
+      score: result.score,
+      transcript: result.transcript,
+    };
+
+    // Only the first attempt at a word counts as usage and grades it,
+    // retries are kept in the review history
+    if (options?.retry) {
+      await recordAttempt(language, word, result.grade, attempt);
+      return;
+    }
+    get().incrementUsageCount(language, word);
+    await get().reviewWord(language, word, result.grade, attempt);
+  },
+
   clearLanguage: async (language: string) => {
     try {
       await clearLanguageTranslations(language);
@@ -149,6 +245,24 @@ export const useTranslationStore = create<TranslationStore>((set, get) => ({
     }
   },
 
+  importWords: async (language: string, file: string, options?: { dryRun?: boolean }) => {
+    const report = await importTranslations(language, file, options);
+
+    // Reload so imported words show up in review right away
+    if (!report.dryRun && report.new + report.updated > 0) {
+      const translations = await loadTranslations(language);
+      set(state => ({
+        translations: {
+          ...state.translations,
+          [language]: translations
+        }
+      }));
+      console.log(`✅ Imported ${report.new} new and ${report.updated} updated ${language} words`);
+    }
+
+    return report;
+  },
+
   refreshStats: async () => {
     try {
       return await getVocabularyStats();
@@ -0,0 +1,345 @@
+// ============================================
+// TUTOR REPLY
+// Prompt, output formats and storage of one tutor turn, shared by the chat
+// and turn endpoints
+// ============================================
+
+import { Schema, Type } from "@google/genai";
+import { auth } from '@/auth';
+import { saveChatMessages } from '@/db/queries';
+import { createParser, endParser, parseChunk, ParsedData, ParserConfig, StreamUpdate } from './parser';
+import { buildUIMessage, isCefrLevel, isLanguageName, parseTranslations, TranslationData, UIMessage } from './utils';
+import { parseCorrections } from './corrections';
+import { ttsAudioUrl, ttsCache } from './audio/tts-cache';
+import { findExampleSentence, wordAudioKey } from './audio/word-audio';
+import { ChatTurn, LLMProvider } from './llm';
+import gemini from './gemini';
+
+// "json" asks for structured output instead of the `key: value;` text format
+export type OutputFormat = 'text' | 'json';
+
+export interface TutorReplyRequest {
+  messages: any[];
+  language?: string | null;
+  level?: string | null;
+  outputFormat?: OutputFormat;
+  signal?: AbortSignal;
+}
+
+// Audio stays on the client, only the text and tutor metadata are stored
+export function toStoredMessage(msg: any): UIMessage {
+  const { audioData, ...stored } = buildUIMessage({
+    id: msg.id,
+    role: msg.role === "assistant" ? "assistant" : "user",
+    content: String(msg.content ?? ''),
+    isAudio: msg.isAudio,
+    languageRating: msg.languageRating,
+    difficulty: msg.difficulty,
+    translations: msg.translations,
+    corrections: msg.corrections,
+    heardContent: typeof msg.heardContent === 'string' ? msg.heardContent : undefined,
+  });
+  return { ...stored, timestamp: typeof msg.timestamp === 'number' ? msg.timestamp : stored.timestamp };
+}
+
+// Words only get an audio URL once their pronunciation is in the TTS cache,
+// whatever placeholder the model wrote. The reply sentence each word came
+// from is kept as its example for when the audio is generated.
+export async function withCachedWordAudio(
+  translations: Record<string, TranslationData> | undefined,
+  replyText: string,
+  language: string | null | undefined
+): Promise<Record<string, TranslationData> | undefined> {
+  if (!translations) return undefined;
+
+  const entries = await Promise.all(Object.entries(translations).map(async ([key, data]) => {
+    const word = data.word || key;
+    const example = findExampleSentence(word, replyText);
+    const cacheKey = wordAudioKey(word, language, example);
+    const audioUrl = await ttsCache.has(cacheKey) ? ttsAudioUrl(cacheKey) : '';
+    return [key, { ...data, example, audioUrl }] as const;
+  }));
+
+  return Object.fromEntries(entries);
+}
+
+// A reply the learner talked over is remembered as far as they heard it
+const INTERRUPTED_MARKER = '[interrupted]';
+
+function historyText(msg: any): string {
+  if (msg.role === 'assistant' && typeof msg.heardContent === 'string') {
+    return `${msg.heardContent} ${INTERRUPTED_MARKER}`.trim();
+  }
+  return msg.content;
+}
+
+export function toChatHistory(messages: any[]): ChatTurn[] {
+  return messages.map((msg: any) => ({
+    role: msg.role === "assistant" ? "model" : "user",
+    text: historyText(msg),
+  }));
+}
+
+// Structured output ("outputFormat": "json") describes each field here
+// instead of in the prompt. Gemini schemas can't have free-form keys, so
+// translations come back as a list.
+const REPLY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rating: {
+      type: Type.NUMBER,
+      nullable: true,
+      description: "0-100 score for the user's last message, null if it was not in the target language",
+    },
+    corrections: {
+      type: Type.ARRAY,
+      description: "Mistakes in the user's last message, in the order they appear, empty when there is nothing to correct",
+      maxItems: "5",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING, description: "The incorrect span, as short as possible, copied exactly from the user's message" },
+          corrected: { type: Type.STRING, description: "The corrected span" },
+          category: { type: Type.STRING, enum: ["grammar", "spelling", "vocabulary", "word-order", "punctuation", "accent", "other"] },
+          explanation: { type: Type.STRING, description: "One short sentence in English explaining the mistake" },
+        },
+        required: ["original", "corrected", "category", "explanation"],
+        propertyOrdering: ["original", "corrected", "category", "explanation"],
+      },
+    },
+    difficulty: { type: Type.INTEGER, minimum: 1, maximum: 5, description: "Difficulty of your reply, 1-5" },
+    translations: {
+      type: Type.ARRAY,
+      maxItems: "10",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: "Lowercase word in the target language" },
+          language: { type: Type.STRING, description: "The target language" },
+          translation: { type: Type.STRING, description: "Lowercase meaning in English, with context if needed" },
+          phonetic: { type: Type.STRING, description: "Simple English approximation" },
+        },
+        required: ["word", "language", "translation", "phonetic"],
+        propertyOrdering: ["word", "language", "translation", "phonetic"],
+      },
+    },
+    text: {
+      type: Type.STRING,
+      description: "Your reply in the target language, fully formed and not cut mid-sentence",
+    },
+  },
+  required: ["rating", "corrections", "difficulty", "translations", "text"],
+  // Metadata first, so it is parsed before the reply starts streaming
+  propertyOrdering: ["rating", "corrections", "difficulty", "translations", "text"],
+};
+
+// Lists of translations are keyed by word like the text format's object
+export function translationsByWord(value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+  return Object.fromEntries(value
+    .filter((item) => typeof item?.word === 'string' && item.word)
+    .map((item) => [item.word.toLowerCase(), item]));
+}
+
+function replyParserConfig(jsonOutput: boolean): ParserConfig {
+  return {
+    keys: ["rating", "corrections", "difficulty", "translations", "text"],
+    streamKeys: ["text"],
+    optionalKeys: ["rating", "corrections", "difficulty", "translations"],
+    jsonKeys: ["corrections", "translations"],
+    terminator: ';',
+    delimiter: ':',
+    mode: jsonOutput ? 'json' : 'escaped'
+  };
+}
+
+function buildSystemInstruction(config: ParserConfig, jsonOutput: boolean, language: unknown, level: unknown): string {
+  const targetLanguageInstruction = [
+    isLanguageName(language)
+      ? `The target language for this conversation is ${language}. Always reply in ${language}, even if the user writes in another language.`
+      : '',
+    isCefrLevel(level)
+      ? `The user's current CEFR level is ${level}. Start at this level instead of beginner level, and adjust from there.`
+      : '',
+  ].filter(Boolean).join('\n');
+
+  const streamParserConfigString = `
+The output must always be parsable by the following stream parser configuration:
+- keys: ${JSON.stringify(config.keys)}
+- streamKeys: ${JSON.stringify(config.streamKeys)}
+- optionalKeys: ${JSON.stringify(config.optionalKeys)}
+- jsonKeys: ${JSON.stringify(config.jsonKeys)}
+- terminator: "${config.terminator}"
+- delimiter: "${config.delimiter}"
+
+Rules:
+- All top-level keys (rating, corrections, difficulty, translations, text) must be present in the correct order, separated by terminator, and end with terminator.
+- The "corrections" field must be a JSON list of objects (with keys: original, corrected, category, explanation), using only valid JSON (double quotes).
+- The "translations" field must be JSON with a list of objects (with keys: word, translation, phonetic, audio), using only valid JSON (double quotes).
+- All keys must appear exactly as in this configuration.
+- Inside "text", write a semicolon as \\; and a backslash as \\\\ so they are not read as the terminator.
+`;
+
+  const tutorInstruction = `
+You are a foreign language tutor helping the user learn to speak the chosen language conversationally.
+Start every conversation at a beginner level. As the user's ability improves, increase the difficulty naturally and gradually. You must only ever reply using the target language.
+
+After each user message, do three things:
+1. Correct any mistakes in the user's message (if it was written in the target language). Put every correction in "corrections", never in your text response.
+2. Respond in the target language at an appropriate difficulty level.
+3. Provide key vocabulary translations and phonetic approximations for 5-10 important or challenging words from YOUR response and any corrected words from the user's message.`;
+
+  const conversationRules = `
+- Do not repeat user messages verbatim unless you are correcting them as part of your reply. Corrections are only for target language attempts.
+- Do not use markdown.
+- Include up to 5 items in "corrections". If there are more mistakes, keep the most important ones.
+- Include up to 10 translation items in "translations".
+- Each "word" in "translations" must come from your latest message or a corrected user word.
+- Do not repeat previously included words.
+- Respond in the language chosen by the user only.
+- If one of your earlier messages ends with "${INTERRUPTED_MARKER}", the user started talking over it and only heard the text before the marker. Take that into account, and never write the marker yourself.`;
+
+  const systemInstruction = jsonOutput ? `
+${tutorInstruction}
+
+Reply with one JSON object that follows the response schema.
+
+Constraints:${conversationRules}
+
+${targetLanguageInstruction}
+` : `
+${tutorInstruction}
+
+Format your output exactly as "rating: <numeric_rating>; corrections: <corrections_list>; difficulty: <numeric_difficulty>; translations: <translation_object>; text: <your_text_response>;" (do not include explanations, comments, or extra text).
+
+Constraints:
+- IMPORTANT: Use terminator to separate all top-level fields: rating, difficulty, translations, text. All top-level fields must end with a terminator.
+- The top-level fields must be presented in this strict order: rating, corrections, difficulty, translations, text.
+- <numeric_rating> must always be numeric (omit only if the user’s message was not in the target language).
+- <corrections_list> must be a JSON list ( [] when there is nothing to correct ) where each item has this format: {
+      "original": "<the incorrect span, copied exactly from the user's message>",
+      "corrected": "<the corrected span>",
+      "category": "<one of: grammar, spelling, vocabulary, word-order, punctuation, accent, other>",
+      "explanation": "<one short sentence in English explaining the mistake>"
+    }
+  Keep each span as short as possible, and list corrections in the order they appear in the user's message.
+- <numeric_difficulty> must always be numeric between 1–5.
+- <translation_object> must be a JSON object ( not a list ) with this format (always valid JSON with double quotes and proper commas): each key is a lowercase word in the target language, and each value is an object with this format: {
+      "word": "<lowercase word in target language>",
+      "language": "<the target language>",
+      "translation": "<lowercase meaning in English, with context if needed>",
+      "phonetic": "<simple English approximation>",
+      "audioUrl": "" (always empty, audio is generated server-side)
+    }
+  (e.g., {"bonjour": {...}, "merci": {...}})
+- <your_text_response> must be fully formed, ending naturally (not cut mid-sentence), and can include punctuation and multiple sentences.
+- Never include additional prose, comments, or explanations outside the required format.
+${conversationRules}
+
+${targetLanguageInstruction}
+
+${streamParserConfigString}
+
+Example output 1 (if the user spoke correctly in Spanish): 'rating: 90; corrections: []; difficulty: 2; translations: {"hablaremos": {"word": "hablaremos", "language": "Spanish", "translation": "we will talk (future tense of hablar)", "phonetic": "ah-blah-REH-mos", "audioUrl": ""}, "comida": {"word": "comida", "language": "Spanish", "translation": "food (noun)", "phonetic": "koh-MEE-dah", "audio": ""}}; text: ¡Muy bien! Hoy hablaremos sobre la comida!;',
+
+Example output 2 (if the user spoke in English and needs correction): 'rating: null; corrections: []; difficulty: 1; translations: {"aujourd'hui": {"word": "aujourd'hui", "language": "French", "translation": "today", "phonetic": "oh-zhoor-dwee", "audioUrl": ""}, "apprendre": {"word": "apprendre", "language": "French", "translation": "to learn", "phonetic": "ah-pron-druh", "audioUrl": ""}}; text: Bonjour! Aujourd'hui, nous allons apprendre quelques mots français.;'
+
+Example output 3 (if the user wrote "Je suis allé au marché hier et j'ai acheté des pomme" in French): 'rating: 75; corrections: [{"original": "des pomme", "corrected": "des pommes", "category": "grammar", "explanation": "Plural nouns take an -s after des."}]; difficulty: 2; translations: {"marché": {"word": "marché", "language": "French", "translation": "market", "phonetic": "mar-SHAY", "audioUrl": ""}}; text: Très bien! Qu'est-ce que tu vas cuisiner avec les pommes?;'
+`;
+
+  return systemInstruction;
+}
+
+/**
+ * Generate a tutor reply and parse it as it streams: meta, the reply text
+ * and complete, in the parser's order. Stops quietly once `signal` aborts.
+ */
+export async function* streamTutorReply(
+  llm: LLMProvider,
+  { messages, language, level, outputFormat, signal }: TutorReplyRequest
+): AsyncIterable<StreamUpdate> {
+  const jsonOutput = outputFormat === 'json';
+  const config = replyParserConfig(jsonOutput);
+  let parser = createParser(config);
+
+  const result = llm.streamText({
+    model: gemini.flash2,
+    history: toChatHistory(messages),
+    systemInstruction: buildSystemInstruction(config, jsonOutput, language, level),
+    responseMimeType: jsonOutput ? "application/json" : "text/plain",
+    responseSchema: jsonOutput ? REPLY_SCHEMA : undefined,
+    // Room for up to 5 corrections and 10 translations before the reply text
+    maxOutputTokens: 1200,
+    signal,
+  });
+
+  for await (let text of result) {
+    if (signal?.aborted) return;
+
+    if (!text) {
+      console.error('❌ No text chunk returned');
+      throw new Error('No text chunk response');
+    }
+
+    text = text.replace(/[\r\n]+$/, '');
+
+    const { parser: newParser, updates } = parseChunk(parser, text);
+    parser = newParser;
+    yield* updates;
+  }
+
+  // Closes a reply the model did not terminate
+  if (!signal?.aborted) yield* endParser(parser);
+}
+
+/**
+ * The metadata sent with a completed reply, translations keyed by word
+ * with their cached audio, and the user and tutor turns to store
+ */
+export async function completeTutorReply(
+  data: ParsedData,
+  { messages, assistantMessageId, language }: { messages: any[]; assistantMessageId?: unknown; language?: string | null }
+): Promise<{ metadata: ParsedData; turns: UIMessage[] }> {
+  const translations = await withCachedWordAudio(parseTranslations(translationsByWord(data.translations)), String(data.text ?? ''), language);
+  const metadata = { ...data, translations };
+
+  const { rating, corrections, difficulty, text: replyText } = data;
+  const lastUserMessage = [...messages].reverse().find((msg: any) => msg?.role === 'user');
+  const turns: UIMessage[] = [];
+  if (lastUserMessage?.id) {
+    turns.push({
+      ...toStoredMessage(lastUserMessage),
+      languageRating: typeof rating === 'number' ? rating : undefined,
+      corrections: parseCorrections(corrections),
+    });
+  }
+  if (typeof assistantMessageId === 'string') {
+    turns.push(toStoredMessage({
+      id: assistantMessageId,
+      role: 'assistant',
+      content: replyText,
+      difficulty: typeof difficulty === 'number' ? difficulty : undefined,
+      translations,
+    }));
+  }
+
+  return { metadata, turns };
+}
+
+/**
+ * Saves turns to the signed-in user's chat. Turns are merged by message id,
+ * so resending a turn never duplicates it. Signed-out users can still chat,
+ * their turns just aren't saved.
+ */
+export async function createTurnPersister(chatId: unknown): Promise<(turns: UIMessage[]) => Promise<void>> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  return async (turns: UIMessage[]) => {
+    if (!userId || typeof chatId !== 'string' || turns.length === 0) return;
+    try {
+      await saveChatMessages({ id: chatId, userId, messages: turns });
+    } catch (error) {
+      console.error('Failed to persist chat turns:', error);
+    }
+  };
+}
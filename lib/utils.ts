@@ -6,6 +6,7 @@ import {
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { Chat } from "@/db/schema";
+import { Correction } from "./corrections";
 // import { parsePgArray } from "drizzle-orm/pg-core"; // Not used, can be removed
 
 export function encode(bytes: Uint8Array) {
@@ -184,10 +185,19 @@ export function convertToUIMessages(
       }
     }
 
+    // Rows from the Message table and saved UI messages keep their ids and tutor metadata
     chatMessages.push({
-      id: generateId(),
+      id: message.id ?? generateId(),
       role: message.role,
       content: textContent,
+      timestamp: message.timestamp ?? (message.createdAt ? new Date(message.createdAt).getTime() : Date.now()),
+      isAudio: message.isAudio ?? false,
+      languageRating: message.languageRating ?? message.rating ?? undefined,
+      difficulty: message.difficulty ?? undefined,
+      translations: message.translations ?? undefined,
+      corrections: message.corrections ?? undefined,
+      audioUrl: message.audioUrl ?? undefined,
+      heardContent: message.heardContent ?? undefined,
       toolInvocations,
     });
 
@@ -204,7 +214,10 @@ interface CreateUIMessage {
   isAudio?: boolean;
   audioData?: string;
   languageRating?: number;
-  translations?: Record<string, string>;
+  difficulty?: number;
+  translations?: Record<string, TranslationData>;
+  corrections?: Correction[];
+  heardContent?: string;
 }
 
 export interface UIMessage {
@@ -215,7 +228,12 @@ export interface UIMessage {
   isAudio: boolean;
   audioData?: string;
   languageRating?: number;
+  difficulty?: number;
   translations?: Record<string, TranslationData>;
+  corrections?: Correction[];
+  audioUrl?: string;
+  // Set when the learner talked over a spoken reply: the part they heard
+  heardContent?: string;
 };
 
 export function buildUIMessage(props: CreateUIMessage): UIMessage {
@@ -226,20 +244,114 @@ export function buildUIMessage(props: CreateUIMessage): UIMessage {
     timestamp: Date.now(),
     isAudio: props.isAudio || false,
     audioData: props.audioData,
+    languageRating: props.languageRating,
+    difficulty: props.difficulty,
+    translations: props.translations,
+    corrections: props.corrections,
+    heardContent: props.heardContent,
   };
 }
 
+/**
+ * Merge messages into a stored conversation by id.
+ * Known ids are updated in place, new ids are appended in order, so saving the same turn twice is a no-op.
+ */
+export function mergeMessagesById<T extends { id: string }>(existing: T[], incoming: T[]): T[] {
+  const merged = [...existing];
+  const indexById = new Map(merged.map((message, index) => [message.id, index]));
+
+  for (const message of incoming) {
+    const defined = Object.fromEntries(
+      Object.entries(message).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+    const index = indexById.get(message.id);
+
+    if (index === undefined) {
+      indexById.set(message.id, merged.length);
+      merged.push(message);
+    } else {
+      merged[index] = { ...merged[index], ...defined };
+    }
+  }
+
+  return merged;
+}
+
+// Translations arrive from the stream parser either parsed or as a raw JSON string
+export function parseTranslations(value: unknown): Record<string, TranslationData> | undefined {
+  let translations = value;
+
+  if (typeof translations === 'string') {
+    if (!translations.trim()) return undefined;
+    try {
+      translations = JSON.parse(translations);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (
+    !translations ||
+    typeof translations !== 'object' ||
+    Array.isArray(translations) ||
+    Object.keys(translations).length === 0
+  ) {
+    return undefined;
+  }
+
+  return translations as Record<string, TranslationData>;
+}
+
 export interface TranslationData {
   word: string;
   language: string;
   translation: string;
   phonetic: string;
   audioUrl?: string;
+  example?: string; // tutor sentence the word was taught in, read after it in the word's audio
   addedAt?: number;
   usageCount?: number;
+  // Spaced-repetition scheduling, see lib/review/scheduler.ts
+  easeFactor?: number;
+  interval?: number;
+  repetitions?: number;
+  dueAt?: number;
+  lastReviewedAt?: number;
 }
 
 export type LanguageName = 'german' | 'french' | 'spanish' | 'italian' | 'portuguese' | 'japanese';
+export const LANGUAGE_NAMES: LanguageName[] = ['german', 'french', 'spanish', 'italian', 'portuguese', 'japanese'];
+
+// BCP-47 locales used for speech recognition and synthesis
+export const LANGUAGE_LOCALES: Record<LanguageName, string> = {
+  german: 'de-DE',
+  french: 'fr-FR',
+  spanish: 'es-ES',
+  italian: 'it-IT',
+  portuguese: 'pt-BR',
+  japanese: 'ja-JP',
+};
+
+export function getLanguageLocale(language?: string | null): string | undefined {
+  return LANGUAGE_LOCALES[language?.toLowerCase() as LanguageName];
+}
+
+// Matches a whole word in any script, ignoring case
+export function wordPattern(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+export function isLanguageName(value: unknown): value is LanguageName {
+  return typeof value === 'string' && LANGUAGE_NAMES.includes(value as LanguageName);
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export function isCefrLevel(value: unknown): value is CefrLevel {
+  return typeof value === 'string' && CEFR_LEVELS.includes(value as CefrLevel);
+}
 export interface TranslationsByLanguage {
   [language: string]: Record<string, TranslationData>;
 }
@@ -255,9 +367,9 @@ export function getTitleFromChat(chat: Chat) {
   return firstMessage.content;
 }
 
-export function getSSEUrls(): { chatUrl: string; ttsUrl: string } {
+export function getSSEUrls(): { chatUrl: string; ttsUrl: string; turnUrl: string } {
   if (typeof window === 'undefined') {
-    return { chatUrl: '', ttsUrl: '' }; // Server-side
+    return { chatUrl: '', ttsUrl: '', turnUrl: '' }; // Server-side
   }
 
   const isDevelopment = process.env.NODE_ENV === 'development';
@@ -266,6 +378,7 @@ export function getSSEUrls(): { chatUrl: string; ttsUrl: string } {
   return {
     chatUrl: `${baseUrl}/api/chat-refactor`,
     ttsUrl: `${baseUrl}/api/tts-refactor`,
+    turnUrl: `${baseUrl}/api/turn`,
   };
 }
 
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { AudioFrame, createAudioFrameDecoder, encodeAudioFrame, encodeEventFrame, readAudioFrames } from '@/lib/audio/audio-frames';
+import { pcmTone } from '@/lib/llm';
+
+// Three chunks of a sentence and its end marker, then a second sentence that failed.
+// A two-byte request id puts every payload at an odd offset.
+function encodeReply() {
+  const tone = pcmTone(300);
+  const chunks = [tone.subarray(0, 4800), tone.subarray(4800, 9600), tone.subarray(9600)];
+  return {
+    tone,
+    bytes: Buffer.concat([
+      ...chunks.map((pcm, chunkIndex) => encodeAudioFrame({ requestId: '12', chunkIndex }, pcm)),
+      encodeAudioFrame({ requestId: '12', chunkIndex: 3, end: true }),
+      encodeAudioFrame({ requestId: '13', segmentIndex: 1, chunkIndex: 0, error: 'Quota exceeded' }),
+    ]),
+  };
+}
+
+function decodeInPieces(bytes: Uint8Array, sizes: number[]) {
+  const decoder = createAudioFrameDecoder();
+  const frames: AudioFrame[] = [];
+  for (let offset = 0, i = 0; offset < bytes.length; offset += sizes[i++ % sizes.length]) {
+    frames.push(...decoder.push(bytes.subarray(offset, offset + sizes[i % sizes.length])));
+  }
+  decoder.finish();
+  return frames;
+}
+
+describe('binary audio frames', () => {
+  test('headers and samples survive a stream cut anywhere', () => {
+    const { tone, bytes } = encodeReply();
+    const whole = decodeInPieces(bytes, [bytes.length]);
+
+    expect(whole.map(({ samples, ...header }) => header)).toEqual([
+      { requestId: '12', segmentIndex: 0, chunkIndex: 0, sampleRate: 24000, end: false, error: undefined },
+      { requestId: '12', segmentIndex: 0, chunkIndex: 1, sampleRate: 24000, end: false, error: undefined },
+      { requestId: '12', segmentIndex: 0, chunkIndex: 2, sampleRate: 24000, end: false, error: undefined },
+      { requestId: '12', segmentIndex: 0, chunkIndex: 3, sampleRate: 24000, end: true, error: undefined },
+      { requestId: '13', segmentIndex: 1, chunkIndex: 0, sampleRate: 24000, end: true, error: 'Quota exceeded' },
+    ]);
+    // Same scaling as AudioConverter.int16ToFloat32 on the base64 path
+    const samples = Float32Array.from(whole.flatMap((frame) => [...frame.samples]));
+    expect(samples).toEqual(Float32Array.from(new Int16Array(tone.buffer), (sample) => sample / 32768));
+
+    for (const sizes of [[1], [3, 7], [16, 17, 18], [4801]]) {
+      expect(decodeInPieces(bytes, sizes)).toEqual(whole);
+    }
+  });
+
+  test('events travel between audio frames as JSON', () => {
+    const { bytes } = encodeReply();
+    const event = encodeEventFrame('12', 'sentence_start', { sentenceIndex: 1, text: 'Woher kommst du?' });
+    const frames = decodeInPieces(Buffer.concat([event, bytes, event]), [5]);
+
+    expect(frames.map((frame) => frame.event?.type ?? frame.chunkIndex)).toEqual(['sentence_start', 0, 1, 2, 3, 0, 'sentence_start']);
+    expect(frames[0]).toMatchObject({ requestId: '12', end: false, event: { data: { sentenceIndex: 1, text: 'Woher kommst du?' } } });
+    expect(frames[0].samples).toHaveLength(0);
+  });
+
+  test('a stream that stops inside a frame is an error', () => {
+    const { bytes } = encodeReply();
+    const decoder = createAudioFrameDecoder();
+
+    expect(decoder.push(bytes.subarray(0, 100))).toEqual([]);
+    expect(() => decoder.finish()).toThrow(/inside a frame/);
+    expect(() => createAudioFrameDecoder().push(new Uint8Array(20).fill(9))).toThrow(/version 9/);
+  });
+
+  test('frames are read from a fetch body as they arrive', async () => {
+    const { bytes } = encodeReply();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += 1000) controller.enqueue(bytes.subarray(offset, offset + 1000));
+        controller.close();
+      },
+    });
+
+    const frames: AudioFrame[] = [];
+    for await (const frame of readAudioFrames(body)) frames.push(frame);
+
+    expect(frames.map((frame) => frame.chunkIndex)).toEqual([0, 1, 2, 3, 0]);
+  });
+});
@@ -0,0 +1,86 @@
+// @vitest-environment node
+import { bench, describe, vi } from 'vitest';
+import { createAudioFrameDecoder, encodeAudioFrame } from '@/lib/audio/audio-frames';
+import { AudioConverter, AudioDebugger } from '@/lib/audio/audio-helpers';
+import { pcmTone } from '@/lib/llm';
+
+// Ten seconds of speech in the 250 ms chunks the provider streams, received
+// in 16 KB network reads. Run with `npm run bench`.
+const CHUNK_BYTES = 24000 / 4 * 2;
+const tone = pcmTone(10000);
+const chunks = Array.from({ length: tone.length / CHUNK_BYTES }, (_, i) => tone.subarray(i * CHUNK_BYTES, (i + 1) * CHUNK_BYTES));
+const encoder = new TextEncoder();
+
+function reads(bytes: Uint8Array, size = 16384): Uint8Array[] {
+  return Array.from({ length: Math.ceil(bytes.length / size) }, (_, i) => bytes.subarray(i * size, (i + 1) * size));
+}
+
+// What /api/turn and /api/tts-refactor send without frames, and what the client does with it
+function encodeSSE(): Uint8Array {
+  return Buffer.concat(chunks.map((pcm, chunkIndex) => {
+    const content = Buffer.from(pcm).toString('base64');
+    return encoder.encode(`event: tts_stream_chunk\ndata: ${JSON.stringify({ content, chunkIndex, segmentIndex: 0, parentRequestId: '1', finish_reason: null, requestId: '2' })}\n\n`);
+  }));
+}
+
+function decodeSSE(stream: Uint8Array[]): number {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let samples = 0;
+  for (const value of stream) {
+    buffer += decoder.decode(value, { stream: true });
+    let eventEndIndex;
+    while ((eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
+      const eventString = buffer.substring(0, eventEndIndex);
+      buffer = buffer.substring(eventEndIndex + 2);
+      const data = JSON.parse(eventString.split('\n')[1].substring('data: '.length));
+      samples += AudioConverter.int16ToFloat32(AudioConverter.base64ToUint8Array(data.content)).length;
+    }
+  }
+  AudioDebugger.clearLogs();
+  return samples;
+}
+
+function encodeFrames(): Uint8Array {
+  return Buffer.concat(chunks.map((pcm, chunkIndex) => encodeAudioFrame({ requestId: '2', chunkIndex }, pcm)));
+}
+
+function decodeFrames(stream: Uint8Array[]): number {
+  const decoder = createAudioFrameDecoder();
+  let samples = 0;
+  for (const value of stream) {
+    for (const frame of decoder.push(value)) samples += frame.samples.length;
+  }
+  decoder.finish();
+  return samples;
+}
+
+const sse = reads(encodeSSE());
+const frames = reads(encodeFrames());
+const size = (stream: Uint8Array[]) => stream.reduce((total, read) => total + read.length, 0);
+console.info(`10 s of audio: ${tone.length} bytes of PCM, ${size(sse)} as SSE, ${size(frames)} as frames`);
+
+// The audio helpers log every conversion, which is part of the current cost but not worth printing
+vi.spyOn(console, 'group').mockImplementation(() => {});
+vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('server: 10 s of PCM to the wire', () => {
+  bench('base64 in JSON SSE', () => {
+    encodeSSE();
+  });
+
+  bench('binary frames', () => {
+    encodeFrames();
+  });
+});
+
+describe('client: the wire to Float32 samples', () => {
+  bench('base64 in JSON SSE', () => {
+    decodeSSE(sse);
+  });
+
+  bench('binary frames', () => {
+    decodeFrames(frames);
+  });
+});
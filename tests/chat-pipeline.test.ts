@@ -0,0 +1,235 @@
+// @vitest-environment node
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { FakeLLMProvider, pcmTone, setLLMProvider, SpeechRequest } from '@/lib/llm';
+import { SSEClient } from '@/lib/sse-client';
+import { toPCM16 } from '@/lib/audio/audio-frames';
+import { prepareSpeechSentences } from '@/lib/audio/tts-text';
+import { POST as chat } from '@/app/(chat)/api/chat-refactor/route';
+import { POST as tts } from '@/app/(chat)/api/tts-refactor/route';
+import { POST as turn } from '@/app/(chat)/api/turn/route';
+import { POST as correctSpeech } from '@/app/(chat)/api/correct-speech/route';
+
+// Signed out, so nothing is saved, and the TTS cache lives in memory
+vi.mock('@/auth', () => ({ auth: async () => null }));
+vi.mock('@/db/queries', () => ({ saveChatMessages: vi.fn() }));
+vi.mock('@/lib/audio/tts-cache', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/audio/tts-cache')>();
+  const { createStorage } = await import('unstorage');
+  return { ...actual, ttsCache: new actual.TTSAudioCache(createStorage()) };
+});
+
+async function post(handler: (req: NextRequest) => Promise<Response>, body: object) {
+  const response = await handler(new NextRequest('http://localhost/api', { method: 'POST', body: JSON.stringify(body) }));
+  return (await response.text()).split('\n\n').filter(Boolean).map((frame) => {
+    const [event, data] = frame.split('\n');
+    return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+  });
+}
+
+const userTurn = { id: 'u1', role: 'user', content: 'Hallo, ich heiße Sam' };
+const scriptedReply = ['rating: 85; corrections: []; diffi', 'culty: 2; translations: {}; text: Hallo Sam; schön', ' dich zu sehen. Woher kommst du?;'];
+
+describe('chat to TTS pipeline with the fake provider', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('a scripted reply streams, completes, and every sentence is spoken', async () => {
+    const fake = new FakeLLMProvider({
+      text: [scriptedReply],
+    });
+    setLLMProvider(fake);
+
+    const events = await post(chat, { messages: [userTurn], requestId: '1', language: 'german' });
+
+    expect(events[0].event).toBe('stream_start');
+    const text = events.filter((e) => e.event === 'stream_chunk').map((e) => e.data.content).join('');
+    expect(text).toBe('Hallo Sam; schön dich zu sehen. Woher kommst du?');
+    expect(events.at(-1)).toMatchObject({
+      event: 'stream_complete',
+      data: { content: text, metadata: { rating: 85, difficulty: 2, text } },
+    });
+    expect(fake.textRequests[0].history).toEqual([{ role: 'user', text: userTurn.content }]);
+
+    const sentences = prepareSpeechSentences(text, 'german');
+    for (const [segmentIndex, sentence] of sentences.entries()) {
+      const audio = await post(tts, { text: sentence, parentRequestId: '1', requestId: `1.${segmentIndex}`, chunkIndex: segmentIndex, language: 'german', isSegment: true });
+      const chunks = audio.filter((e) => e.event === 'tts_stream_chunk');
+      const pcm = Buffer.concat(chunks.map((e) => Buffer.from(e.data.content, 'base64')));
+
+      expect(chunks.every((e) => e.data.segmentIndex === segmentIndex)).toBe(true);
+      expect(pcm.equals(Buffer.from(pcmTone(sentence.length * 60)))).toBe(true);
+      expect(audio.at(-1)).toMatchObject({ event: 'tts_stream_complete', data: { totalChunks: chunks.length, segmentIndex } });
+    }
+    expect(fake.speechRequests.map((request) => request.text)).toEqual(sentences);
+
+    // Spoken sentences are cached, asking again doesn't synthesize
+    const replay = await post(tts, { text: sentences[0], requestId: '2', language: 'german', isSegment: true });
+    expect(replay.at(-1)).toMatchObject({ event: 'tts_stream_complete', data: { cached: true } });
+    expect(fake.speechRequests).toHaveLength(sentences.length);
+  });
+
+  test('JSON output asks for structured output and gives the same events', async () => {
+    const fake = new FakeLLMProvider();
+    setLLMProvider(fake);
+
+    const events = await post(chat, { messages: [userTurn], requestId: '1', outputFormat: 'json' });
+
+    expect(fake.textRequests[0]).toMatchObject({ responseMimeType: 'application/json', responseSchema: { required: expect.arrayContaining(['text']) } });
+    expect(events.at(-1)).toMatchObject({
+      event: 'stream_complete',
+      data: { content: 'Hallo! Wie geht es dir heute?', metadata: { rating: 90, difficulty: 1 } },
+    });
+  });
+
+  test('one turn streams the reply, then each sentence\'s audio in order', async () => {
+    const fake = new FakeLLMProvider({ text: [scriptedReply] });
+    setLLMProvider(fake);
+
+    const events = await post(turn, { messages: [userTurn], requestId: '1', language: 'german' });
+    const names = events.map((e) => e.event);
+
+    expect(events.every((e) => e.data.requestId === '1')).toBe(true);
+    expect(names.indexOf('meta')).toBeLessThan(names.indexOf('text_delta'));
+    expect(events.find((e) => e.event === 'meta')?.data.metadata).toEqual({ rating: 85, corrections: [], difficulty: 2 });
+    const text = events.filter((e) => e.event === 'text_delta').map((e) => e.data.content).join('');
+    expect(events.at(-1)).toMatchObject({
+      event: 'turn_complete',
+      data: { content: text, totalSentences: 2, metadata: { rating: 85, difficulty: 2, text } },
+    });
+
+    // Sentence by sentence, never interleaved
+    const speech = events.filter((e) => e.event.startsWith('sentence_') || e.event === 'audio_chunk');
+    expect(speech.map((e) => e.data.sentenceIndex)).toEqual([...speech.map((e) => e.data.sentenceIndex)].sort());
+    expect(events.filter((e) => e.event === 'sentence_start').map((e) => e.data.text)).toEqual(['Hallo Sam; schön dich zu sehen.', 'Woher kommst du?']);
+    for (const [sentenceIndex, request] of fake.speechRequests.entries()) {
+      const chunks = speech.filter((e) => e.event === 'audio_chunk' && e.data.sentenceIndex === sentenceIndex);
+      const pcm = Buffer.concat(chunks.map((e) => Buffer.from(e.data.content, 'base64')));
+      expect(chunks.map((e) => e.data.chunkIndex)).toEqual(chunks.map((_, i) => i));
+      expect(pcm.equals(Buffer.from(pcmTone(request.text.length * 60)))).toBe(true);
+      expect(speech.find((e) => e.event === 'sentence_complete' && e.data.sentenceIndex === sentenceIndex)?.data)
+        .toMatchObject({ totalChunks: chunks.length, audioUrl: expect.stringMatching(/^\/api\/tts\/audio\//) });
+    }
+  });
+
+  test('a sentence that fails to synthesize is skipped, the rest is spoken', async () => {
+    class FailingSpeech extends FakeLLMProvider {
+      async *streamSpeech(request: SpeechRequest) {
+        if (request.text.startsWith('Guten')) throw new Error('Quota exceeded');
+        yield* super.streamSpeech(request);
+      }
+    }
+    setLLMProvider(new FailingSpeech({ text: [['rating: 90; text: Guten Morgen, Sam. Bis bald!;']] }));
+
+    const events = await post(turn, { messages: [userTurn], requestId: '1', language: 'german' });
+    const completed = events.filter((e) => e.event === 'sentence_complete').map((e) => e.data);
+
+    expect(completed).toMatchObject([
+      { sentenceIndex: 0, totalChunks: 0, error: 'Quota exceeded' },
+      { sentenceIndex: 1, totalChunks: expect.any(Number) },
+    ]);
+    expect(completed[1].totalChunks).toBeGreaterThan(0);
+    expect(events.at(-1)?.event).toBe('turn_complete');
+  });
+
+  test('the client\'s sendTurn reports the turn through its callbacks', async () => {
+    setLLMProvider(new FakeLLMProvider({ text: [scriptedReply] }));
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => turn(new NextRequest(`http://localhost${url}`, init as any)));
+    const calls: string[] = [];
+
+    const finished = new Promise((resolve) => {
+      new SSEClient('/api/chat-refactor', '/api/tts-refactor').sendTurn([userTurn], {
+        onTextDelta: () => calls.push('text'),
+        onMeta: () => calls.push('meta'),
+        onSentenceStart: (sentenceIndex) => calls.push(`start ${sentenceIndex}`),
+        onAudioChunk: () => calls.push('audio'),
+        onSentenceComplete: (sentenceIndex) => calls.push(`complete ${sentenceIndex}`),
+        onTurnComplete: resolve,
+        onError: resolve,
+      }, { language: 'german' });
+    });
+
+    expect(await finished).toBe('Hallo Sam; schön dich zu sehen. Woher kommst du?');
+    vi.unstubAllGlobals();
+    expect(calls.filter((call, i) => call !== calls[i - 1])).toEqual([
+      'meta', 'text', 'start 0', 'audio', 'complete 0', 'start 1', 'audio', 'complete 1',
+    ]);
+  });
+
+  test('a turn can send its audio as binary frames between its events', async () => {
+    const fake = new FakeLLMProvider({ text: [scriptedReply] });
+    setLLMProvider(fake);
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => turn(new NextRequest(`http://localhost${url}`, init as any)));
+    const calls: string[] = [];
+    const sentences: Float32Array[][] = [];
+
+    const finished = new Promise((resolve) => {
+      new SSEClient('/api/chat-refactor', '/api/tts-refactor').sendTurn([userTurn], {
+        onTextDelta: () => calls.push('text'),
+        onMeta: () => calls.push('meta'),
+        onSentenceStart: (sentenceIndex) => calls.push(`start ${sentenceIndex}`),
+        onAudioChunk: () => calls.push('base64'),
+        onAudioFrame: (requestId, samples, chunkIndex, sentenceIndex, sampleRate) => {
+          calls.push('audio');
+          expect({ requestId, sampleRate }).toEqual({ requestId: expect.any(String), sampleRate: 24000 });
+          (sentences[sentenceIndex] ??= [])[chunkIndex] = samples;
+        },
+        onSentenceComplete: (sentenceIndex) => calls.push(`complete ${sentenceIndex}`),
+        onTurnComplete: resolve,
+        onError: resolve,
+      }, { language: 'german', transport: 'frames' });
+    });
+
+    expect(await finished).toBe('Hallo Sam; schön dich zu sehen. Woher kommst du?');
+    vi.unstubAllGlobals();
+    expect(calls.filter((call, i) => call !== calls[i - 1])).toEqual([
+      'meta', 'text', 'start 0', 'audio', 'complete 0', 'start 1', 'audio', 'complete 1',
+    ]);
+    for (const [sentenceIndex, request] of fake.speechRequests.entries()) {
+      const tone = pcmTone(request.text.length * 60);
+      expect(Buffer.from(toPCM16(sentences[sentenceIndex])).equals(Buffer.from(tone))).toBe(true);
+    }
+  });
+
+  test('TTS audio can come as binary frames, decoded to the same samples', async () => {
+    setLLMProvider(new FakeLLMProvider());
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) => tts(new NextRequest(`http://localhost${url}`, init as any)));
+    const samples: Float32Array[] = [];
+
+    const [totalChunks, fullAudio] = await new Promise<[number, string]>((resolve, reject) => {
+      new SSEClient('/api/chat-refactor', '/api/tts-refactor').sendTTSRequest('Bis bald, Sam!', 2, '9', {
+        onTTSFrame: (_parentRequestId, frame, chunkIndex, segmentIndex, sampleRate) => {
+          expect({ chunkIndex, segmentIndex, sampleRate }).toEqual({ chunkIndex: samples.length, segmentIndex: 2, sampleRate: 24000 });
+          samples.push(frame);
+        },
+        onTTSComplete: (_parentRequestId, fullAudio, totalChunks) => resolve([totalChunks, fullAudio]),
+        onError: reject,
+      }, { language: 'german', isSegment: true, transport: 'frames' });
+    });
+    vi.unstubAllGlobals();
+
+    expect(totalChunks).toBe(samples.length);
+    const tone = pcmTone('Bis bald, Sam!'.length * 60);
+    expect(Float32Array.from(samples.flatMap((frame) => [...frame]))).toEqual(Float32Array.from(new Int16Array(tone.buffer), (sample) => sample / 32768));
+    // The whole clip comes back as base64 PCM16 for replay, like on the SSE path
+    expect(fullAudio).toBe(Buffer.from(tone).toString('base64'));
+  });
+
+  test('speech corrections come from structured output', async () => {
+    const fake = new FakeLLMProvider({
+      structured: [{ corrected: 'Ich heiße Sam.', confidence: 0.9, changes: ['heise → heiße'] }, { corrected: 42 }],
+    });
+    setLLMProvider(fake);
+    const correct = async (transcript: string) => (await correctSpeech(new Request('http://localhost/api', {
+      method: 'POST',
+      body: JSON.stringify({ transcript, messages: ['Wie heißt du?'] }),
+    }))).json();
+
+    expect(await correct('ich heise sam')).toEqual({ corrected: 'Ich heiße Sam.', confidence: 0.9, changes: ['heise → heiße'] });
+    expect(fake.structuredRequests[0].history[0].text).toContain('Raw transcription: "ich heise sam"');
+    expect(fake.structuredRequests[0].responseSchema.required).toEqual(['corrected', 'confidence', 'changes']);
+    // A malformed response keeps what was heard
+    expect(await correct('ich heise sam')).toEqual({ corrected: 'ich heise sam', confidence: 0, changes: [] });
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  getCachedConversationMarkers,
+  getConversationAudio,
+  markersToWebVTT,
+  stitchConversationAudio,
+} from '@/lib/audio/conversation-audio';
+import { FakeLLMProvider, setLLMProvider } from '@/lib/llm';
+import { TTS_SAMPLE_RATE } from '@/lib/audio/tts-cache';
+
+vi.mock('@/lib/audio/tts-cache', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/audio/tts-cache')>();
+  const { createStorage } = await import('unstorage');
+  return { ...actual, ttsCache: new actual.TTSAudioCache(createStorage()) };
+});
+
+// One second of 8 kHz PCM16 per clip keeps the arithmetic readable
+const SAMPLE_RATE = 8000;
+const seconds = (value: number, fill = 1) => new Uint8Array(SAMPLE_RATE * 2 * value).fill(fill);
+
+describe('conversation audio', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  test('turns are joined with silence and marked where they start', () => {
+    const { pcm, markers } = stitchConversationAudio([
+      { role: 'assistant', content: 'Hallo! Wie **geht** es dir?', pcm: seconds(1) },
+      { role: 'user', content: 'Gut, danke.', pcm: new Uint8Array(0) },
+      { role: 'assistant', content: 'Schön.', pcm: seconds(2) },
+    ], { gapMs: 500, sampleRate: SAMPLE_RATE });
+
+    expect(pcm.length).toBe(SAMPLE_RATE * 2 * 3.5);
+    // The gap is silent
+    expect(pcm.subarray(SAMPLE_RATE * 2, SAMPLE_RATE * 3).every((byte) => byte === 0)).toBe(true);
+    expect(markers).toEqual([
+      { turn: 0, role: 'assistant', start: 0, end: 1, text: 'Hallo! Wie geht es dir?' },
+      { turn: 2, role: 'assistant', start: 1.5, end: 3.5, text: 'Schön.' },
+    ]);
+  });
+
+  test('markers export as WebVTT cues', () => {
+    const vtt = markersToWebVTT([
+      { turn: 0, role: 'assistant', start: 0, end: 1.25, text: 'Was ist <b>das</b>?' },
+      { turn: 1, role: 'user', start: 3661.5, end: 3663, text: 'Ein Apfel & eine Birne.' },
+    ]);
+
+    expect(vtt).toBe([
+      'WEBVTT',
+      '1\n00:00:00.000 --> 00:00:01.250\nTutor: Was ist &lt;b&gt;das&lt;/b&gt;?',
+      '2\n01:01:01.500 --> 01:01:03.000\nYou: Ein Apfel &amp; eine Birne.',
+    ].join('\n\n') + '\n');
+  });
+
+  test('markers are timed from cached audio and never synthesize', async () => {
+    const fake = new FakeLLMProvider();
+    setLLMProvider(fake);
+    const turns = [
+      { role: 'assistant', content: 'Hallo! Wie geht es dir?' },
+      { role: 'user', content: 'Gut, danke.' },
+      { role: 'assistant', content: 'Schön.' },
+    ];
+
+    expect(await getCachedConversationMarkers(turns, 'german')).toBeNull();
+    expect(fake.speechRequests).toHaveLength(0);
+
+    const { pcm, markers } = await getConversationAudio(turns, 'german');
+    expect(await getCachedConversationMarkers(turns, 'german')).toEqual({ duration: pcm.length / (TTS_SAMPLE_RATE * 2), markers });
+    // The learner's turns need their own voice cached first
+    expect(await getCachedConversationMarkers(turns, 'german', { includeUserTurns: true })).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { ConversationState, ConversationStateMachine, queueTurns, syncMicrophone } from '@/lib/audio/conversation-state';
+
+// A microphone that only records whether it is open
+function setup() {
+  const machine = new ConversationStateMachine({ inactivityMs: 30000, thinkingTimeoutMs: 10000 });
+  const microphone = { isOpen: false, opened: 0 };
+  syncMicrophone(machine, {
+    start: () => { microphone.isOpen = true; microphone.opened++; },
+    stop: () => { microphone.isOpen = false; },
+  });
+  const states: ConversationState[] = [];
+  machine.subscribe((state) => states.push(state));
+  return { machine, microphone, states };
+}
+
+describe('hands-free conversation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('a full turn goes back to listening once the reply has been played', () => {
+    const { machine, microphone, states } = setup();
+
+    machine.send('start');
+    machine.send('speech-start');
+    machine.send('turn-end');
+    machine.send('playback-start');
+    machine.send('request-finished');
+
+    expect(states).toEqual(['listening', 'thinking', 'speaking', 'listening']);
+    // The microphone stays open across the turn, ready for barge-in
+    expect(microphone).toEqual({ isOpen: true, opened: 1 });
+  });
+
+  test('talking over the tutor hands the turn back straight away', () => {
+    const { machine, states } = setup();
+
+    machine.send('start');
+    machine.send('turn-end');
+    machine.send('playback-start');
+    machine.send('speech-start');
+    // The interrupted reply's playback stopping changes nothing
+    machine.send('playback-stop');
+
+    expect(states).toEqual(['listening', 'thinking', 'speaking', 'listening']);
+  });
+
+  test('events that do not fit the current state are ignored', () => {
+    const { machine, microphone, states } = setup();
+
+    expect(machine.send('turn-end')).toBe(false);
+    expect(machine.send('playback-start')).toBe(false);
+    machine.send('start');
+    expect(machine.send('request-finished')).toBe(false);
+    machine.send('turn-end');
+    // Speech while the tutor is thinking is not a barge-in
+    expect(machine.send('speech-start')).toBe(false);
+
+    expect(states).toEqual(['listening', 'thinking']);
+    expect(microphone.opened).toBe(1);
+  });
+
+  test('inactivity pauses and closes the microphone, speech keeps it open', () => {
+    const { machine, microphone } = setup();
+
+    machine.send('start');
+    vi.advanceTimersByTime(20000);
+    machine.send('speech-start');
+    vi.advanceTimersByTime(20000);
+    expect(machine.state).toBe('listening');
+
+    vi.advanceTimersByTime(10000);
+    expect(machine.state).toBe('paused');
+    expect(microphone.isOpen).toBe(false);
+
+    machine.send('start');
+    expect(microphone).toEqual({ isOpen: true, opened: 2 });
+  });
+
+  test('a reply that fails or never plays hands the turn back', () => {
+    const { machine } = setup();
+
+    machine.send('start');
+    machine.send('turn-end');
+    machine.send('reply-failed');
+    expect(machine.state).toBe('listening');
+
+    machine.send('turn-end');
+    vi.advanceTimersByTime(10000);
+    expect(machine.state).toBe('listening');
+
+    machine.send('stop');
+    expect(machine.state).toBe('idle');
+    // No timers outlive the conversation
+    vi.advanceTimersByTime(60000);
+    expect(machine.state).toBe('idle');
+  });
+
+  test('what the learner says while the tutor thinks becomes the next turn', async () => {
+    const { machine } = setup();
+    const sent: string[] = [];
+    const turns = queueTurns(machine, (text) => {
+      sent.push(text);
+      machine.send('turn-end');
+    });
+
+    machine.send('start');
+    turns.push('Ich heiße Sam.');
+    expect(sent).toEqual(['Ich heiße Sam.']);
+
+    turns.push('Und du?');
+    turns.push('Woher kommst du?');
+    expect(sent).toHaveLength(1);
+
+    machine.send('playback-start');
+    machine.send('request-finished');
+    await Promise.resolve();
+    expect(sent).toEqual(['Ich heiße Sam.', 'Und du? Woher kommst du?']);
+    expect(machine.state).toBe('thinking');
+
+    // Stopping the conversation drops whatever was held
+    turns.push('Egal.');
+    machine.send('stop');
+    machine.send('start');
+    await Promise.resolve();
+    expect(sent).toHaveLength(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import { createParser, parseChunk, StreamUpdate } from '@/lib/parser';
+import { buildCorrectionDiff, Correction, parseCorrections } from '@/lib/corrections';
+
+const correction = (overrides: Partial<Correction>): Correction => ({
+  original: '',
+  corrected: '',
+  category: 'grammar',
+  explanation: '',
+  ...overrides,
+});
+
+describe('grammar corrections', () => {
+  test('the stream parser reads corrections as JSON before the reply', () => {
+    let parser = createParser({
+      keys: ['rating', 'corrections', 'difficulty', 'translations', 'text'],
+      streamKeys: ['text'],
+      optionalKeys: ['rating', 'corrections', 'difficulty', 'translations'],
+      jsonKeys: ['corrections', 'translations'],
+    });
+    const updates: StreamUpdate[] = [];
+    const chunks = [
+      'rating: 75; corrections: [{"original": "des pomme", "corr',
+      'ected": "des pommes", "category": "grammar", "explanation": "Plural after des."}]; ',
+      'difficulty: 2; translations: {}; text: Très bien!;',
+    ];
+    for (const chunk of chunks) {
+      const result = parseChunk(parser, chunk);
+      parser = result.parser;
+      updates.push(...result.updates);
+    }
+
+    const complete = updates.find((u) => u.type === 'complete');
+    expect(complete?.type === 'complete' && parseCorrections(complete.data.corrections)).toEqual([
+      correction({ original: 'des pomme', corrected: 'des pommes', explanation: 'Plural after des.' }),
+    ]);
+  });
+
+  test('malformed entries are dropped and unknown categories become "other"', () => {
+    expect(parseCorrections('[]')).toBeUndefined();
+    expect(parseCorrections('not json')).toBeUndefined();
+    expect(parseCorrections([
+      { original: 'ich habe gegangen', corrected: 'ich bin gegangen', category: 'tense' },
+      { original: 'same', corrected: 'same', category: 'grammar' },
+      { corrected: 'missing original' },
+      null,
+    ])).toEqual([
+      correction({ original: 'ich habe gegangen', corrected: 'ich bin gegangen', category: 'other' }),
+    ]);
+  });
+
+  test('only the changed words of a span are struck through', () => {
+    const fix = correction({ original: 'ich habe gegangen', corrected: 'ich bin gegangen' });
+    const segments = buildCorrectionDiff('Gestern ich habe gegangen nach Hause.', [fix]);
+
+    expect(segments.map(({ type, text }) => [type, text])).toEqual([
+      ['same', 'Gestern '],
+      ['same', 'ich '],
+      ['removed', 'habe '],
+      ['added', 'bin '],
+      ['same', 'gegangen'],
+      ['same', ' nach Hause.'],
+    ]);
+  });
+
+  test('spans are matched case-insensitively and in order, missing spans are skipped', () => {
+    const segments = buildCorrectionDiff('Je suis allé. Je suis allé.', [
+      correction({ original: 'je suis allé', corrected: 'je suis allée' }),
+      correction({ original: 'not in the text', corrected: 'x' }),
+      correction({ original: 'je suis allé', corrected: 'nous sommes allés' }),
+    ]);
+
+    const text = (type: string) => segments.filter((s) => s.type === type).map((s) => s.text);
+    expect(text('removed')).toEqual(['allé', 'Je suis allé']);
+    expect(text('added')).toEqual(['allée', 'nous sommes allés']);
+    expect(segments.map((s) => (s.type === 'added' ? '' : s.text)).join('')).toBe('Je suis allé. Je suis allé.');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest';
+import { AudioConverter } from '@/lib/audio/audio-helpers';
+import { messageSpeechSegments } from '@/lib/audio/message-audio';
+import { ttsCacheKey } from '@/lib/audio/tts-cache';
+import { getTTSVoice } from '@/lib/gemini';
+
+const pcm16 = (...samples: number[]) => {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+  return bytes;
+};
+
+describe('message audio', () => {
+  test('μ-law WAV halves the data and declares its format', () => {
+    const wav = AudioConverter.pcm16ToWav(pcm16(0, -1, 32767, -32768), 24000, 1, 'mulaw');
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+
+    expect(wav.length).toBe(58 + 4);
+    expect([text(0), text(8), text(12), text(38), text(50)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'fact', 'data']);
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(view.getUint16(20, true)).toBe(7);
+    expect(view.getUint16(34, true)).toBe(8);
+    expect(view.getUint32(28, true)).toBe(24000);
+    expect(view.getUint32(46, true)).toBe(4);
+    expect(Array.from(wav.subarray(58))).toEqual([0xff, 0x7f, 0x80, 0x00]);
+  });
+
+  test('streamed chunks join into one clip', () => {
+    const chunks = [pcm16(1, 2), pcm16(3), pcm16(4, 5, 6)].map((chunk) => AudioConverter.uint8ArrayToBase64(chunk));
+    const joined = AudioConverter.base64ToUint8Array(AudioConverter.concatBase64(chunks));
+
+    expect(Array.from(joined)).toEqual(Array.from(pcm16(1, 2, 3, 4, 5, 6)));
+  });
+
+  test('a reply is looked up as the sentences it was spoken as', () => {
+    const segments = messageSpeechSegments('Guten Tag! Wir treffen uns z. B. am 3. Mai.\n**Bis dann**', 'german');
+    const voiceName = getTTSVoice('german');
+
+    expect(segments.map(({ text }) => text)).toEqual([
+      'Guten Tag!',
+      'Wir treffen uns zum Beispiel am drei. Mai.',
+      'Bis dann',
+    ]);
+    expect(segments[0].key).toBe(ttsCacheKey({ text: 'Guten Tag!', voiceName, language: 'german' }));
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test, vi } from 'vitest';
+import { toMessageRow } from '@/db/queries';
+import { toChatHistory } from '@/lib/tutor-reply';
+import { buildUIMessage, convertToUIMessages, mergeMessagesById, parseTranslations, UIMessage } from '@/lib/utils';
+
+// Rows are only mapped here, nothing connects
+vi.mock('server-only', () => ({}));
+vi.mock('postgres', () => ({ default: () => ({}) }));
+vi.mock('@/auth', () => ({ auth: async () => null }));
+
+describe('chat message persistence', () => {
+  const user = buildUIMessage({ id: 'u1', role: 'user', content: 'Hola' });
+  const reply = buildUIMessage({ id: 'a1', role: 'assistant', content: '¡Hola! ¿Qué tal?' });
+
+  test('saving the same turn twice does not duplicate it', () => {
+    const once = mergeMessagesById([], [user, reply]);
+    const twice = mergeMessagesById(once, [user, reply]);
+
+    expect(twice).toHaveLength(2);
+    expect(twice.map((m) => m.id)).toEqual(['u1', 'a1']);
+  });
+
+  test('later saves add metadata without dropping stored fields', () => {
+    const stored = mergeMessagesById<UIMessage>([], [{ ...user, languageRating: 80 }]);
+    const merged = mergeMessagesById(stored, [
+      { ...user, languageRating: undefined },
+      { ...reply, difficulty: 2 },
+    ]);
+
+    expect(merged[0].languageRating).toBe(80);
+    expect(merged[1].difficulty).toBe(2);
+  });
+
+  test('translations are accepted parsed or as a JSON string', () => {
+    const entry = { word: 'hola', language: 'Spanish', translation: 'hello', phonetic: 'OH-lah' };
+
+    expect(parseTranslations({ hola: entry })).toEqual({ hola: entry });
+    expect(parseTranslations(JSON.stringify({ hola: entry }))).toEqual({ hola: entry });
+    expect(parseTranslations('{not json')).toBeUndefined();
+    expect(parseTranslations([entry])).toBeUndefined();
+    expect(parseTranslations({})).toBeUndefined();
+  });
+
+  test('an interrupted reply is still marked after a reload', () => {
+    const interrupted = { ...reply, content: '¡Hola! ¿Qué tal? Cuéntame de tu día.', heardContent: '¡Hola!' };
+    const reloaded: UIMessage[] = convertToUIMessages([user, interrupted].map((m) => toMessageRow('c1', m)));
+
+    expect(reloaded[1].heardContent).toBe('¡Hola!');
+    expect(toChatHistory(reloaded)).toEqual([
+      { role: 'user', text: 'Hola' },
+      { role: 'model', text: '¡Hola! [interrupted]' },
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, test } from 'vitest';
+import { createParser, endParser, parseChunk, ParserConfig, StreamUpdate } from '@/lib/parser';
+
+const config: ParserConfig = {
+  keys: ['rating', 'corrections', 'difficulty', 'translations', 'text'],
+  streamKeys: ['text'],
+  optionalKeys: ['rating', 'corrections', 'difficulty', 'translations'],
+  jsonKeys: ['corrections', 'translations'],
+  mode: 'escaped',
+};
+
+// Seeded so a failing split can be reproduced
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+}
+
+function split(reply: string, next: () => number) {
+  const chunks: string[] = [];
+  for (let offset = 0; offset < reply.length;) {
+    const size = 1 + Math.floor(next() * 12);
+    chunks.push(reply.slice(offset, offset + size));
+    offset += size;
+  }
+  return chunks;
+}
+
+function parse(chunks: string[], options: Partial<ParserConfig> = {}) {
+  let parser = createParser({ ...config, ...options });
+  const updates: StreamUpdate[] = [];
+  let longestBuffer = 0;
+  for (const chunk of chunks) {
+    const result = parseChunk(parser, chunk);
+    parser = result.parser;
+    updates.push(...result.updates);
+    longestBuffer = Math.max(longestBuffer, parser.buffer.length);
+  }
+  updates.push(...endParser(parser));
+
+  const complete = updates.filter((u) => u.type === 'complete');
+  const streamed = updates.map((u) => (u.type === 'stream' ? u.delta : '')).join('');
+  return { updates, complete, streamed, longestBuffer };
+}
+
+const escape = (text: string) => text.replace(/[\\;]/g, (c) => '\\' + c);
+
+describe('escaped stream parser', () => {
+  test('terminators and keys inside the reply do not cut it off', () => {
+    const { complete, streamed } = parse([
+      'rating: 80; corrections: [{"original": "a; b", "corrected": "a, b"}]; difficulty: 2; ',
+      'translations: {}; text: Note: la comida; es buena. Un \\; y un \\\\. rating: 5;',
+    ]);
+
+    expect(streamed).toBe('Note: la comida; es buena. Un ; y un \\. rating: 5');
+    expect(complete).toEqual([{
+      type: 'complete',
+      data: {
+        rating: 80,
+        corrections: [{ original: 'a; b', corrected: 'a, b' }],
+        difficulty: 2,
+        translations: {},
+        text: 'Note: la comida; es buena. Un ; y un \\. rating: 5',
+      },
+    }]);
+  });
+
+  test('keys out of order, repeated or missing are recovered', () => {
+    const { updates, complete } = parse([
+      'Sure! difficulty: 3; rating: 70 difficulty: 4; translations: {"a": {"word": "a"}; ',
+      'text: Hola;',
+    ]);
+
+    expect(updates.filter((u) => u.type === 'duplicate')).toEqual([{ type: 'duplicate', key: 'difficulty' }]);
+    expect(updates.filter((u) => u.type === 'skip')).toEqual([{ type: 'skip', key: 'corrections' }]);
+    // Meta goes out before the first words of the reply
+    expect(updates.findIndex((u) => u.type === 'meta')).toBeLessThan(updates.findIndex((u) => u.type === 'stream'));
+    expect(complete[0]).toMatchObject({
+      data: { rating: 70, difficulty: 3, translations: '{"a": {"word": "a"}', text: 'Hola' },
+    });
+  });
+
+  test('a reply without its final terminator completes at the end of the input', () => {
+    const { complete, streamed } = parse(['rating: 90; text: Bis morgen; ', ' danke  ']);
+
+    expect(streamed).toBe('Bis morgen;  danke');
+    expect(complete).toHaveLength(1);
+    expect(complete[0]).toMatchObject({ data: { rating: 90, corrections: undefined, text: 'Bis morgen;  danke' } });
+  });
+
+  test('random chunk boundaries give the same result as the whole reply', () => {
+    const replies = [
+      'rating: 75; corrections: [{"original": "des pomme", "corrected": "des pommes", "explanation": "Say \\"des pommes\\"; plural."}]; difficulty: 2; translations: {"marché": {"word": "marché"}}; text: Très bien; text: ou pas\\; Qu\'est-ce que tu vas cuisiner?;',
+      'text: Note: la comida; es buena; rating: 90; translations: [1, 2;',
+      'rating: null; difficulty: 1; difficulty: 2; text:   Hallo  \\\\ Welt \\n;; ',
+    ];
+    const next = random(7);
+
+    for (const reply of replies) {
+      const whole = parse([reply]);
+      for (let trial = 0; trial < 200; trial++) {
+        const { complete, streamed } = parse(split(reply, next));
+        expect(complete).toEqual(whole.complete);
+        expect(streamed).toBe(whole.streamed);
+      }
+    }
+  });
+
+  test('any escaped text round-trips and only an undecided tail is buffered', () => {
+    const next = random(11);
+    const pieces = ['a', 'é', ' ', ';', '\\', ':', 'te', 'text', 'rating', 'text:', '; text:', '"', '[', '\n'];
+
+    for (let trial = 0; trial < 300; trial++) {
+      const words = Array.from({ length: 1 + Math.floor(next() * 40) }, () => pieces[Math.floor(next() * pieces.length)]);
+      const text = words.join('').trim();
+      const { complete, streamed, longestBuffer } = parse(split(`rating: 1; text: ${escape(text)};`, next));
+
+      expect(streamed).toBe(text);
+      expect(complete).toHaveLength(1);
+      expect(complete[0]).toMatchObject({ data: { rating: 1, text } });
+      // Never more than a pending terminator and the key that may follow it
+      expect(longestBuffer).toBeLessThanOrEqual(24);
+    }
+  });
+
+  test('simple mode is still the default', () => {
+    const { streamed } = parse(['text: Note: la comida; es buena;'], { mode: undefined });
+
+    expect(streamed).toBe('Note: la comida');
+  });
+});
+
+describe('JSON stream parser', () => {
+  const json = { ...config, mode: 'json' as const };
+  const reply = JSON.stringify({
+    rating: 80,
+    corrections: [{ original: 'a; b', corrected: 'a, b', category: 'punctuation', explanation: 'Use "a comma", not }.' }],
+    difficulty: 2,
+    translations: [{ word: 'café', language: 'French', translation: 'coffee', phonetic: 'ka-FAY' }],
+    text: 'Un "café"\\\n crème? Très bien é 😀, {merci}',
+  }, null, 1);
+
+  test('metadata is parsed before the text streams, and the text is decoded', () => {
+    const { updates, complete, streamed } = parse(['```json\n', reply], json);
+
+    expect(updates.map((u) => u.type).filter((type, i, all) => type !== all[i - 1])).toEqual(['meta', 'stream', 'complete']);
+    expect(streamed).toBe(JSON.parse(reply).text);
+    expect(complete).toEqual([{ type: 'complete', data: JSON.parse(reply) }]);
+  });
+
+  test('random chunk boundaries give the same updates as the whole object', () => {
+    const next = random(3);
+    const whole = parse([reply], json);
+
+    for (let trial = 0; trial < 200; trial++) {
+      const { complete, streamed, longestBuffer } = parse(split(reply, next), json);
+      expect(complete).toEqual(whole.complete);
+      expect(streamed).toBe(whole.streamed);
+      // Only an escape split across chunks is held back
+      expect(longestBuffer).toBeLessThan(6);
+    }
+  });
+
+  test('unknown and repeated keys are dropped, late ones still count', () => {
+    const { updates, complete } = parse(['{"note": {"text": "x"}, "text": "Hola", "text": "again", "rating": null}'], json);
+
+    expect(updates.filter((u) => u.type === 'duplicate' || u.type === 'skip')).toEqual([
+      { type: 'skip', key: 'rating' },
+      { type: 'skip', key: 'corrections' },
+      { type: 'skip', key: 'difficulty' },
+      { type: 'skip', key: 'translations' },
+      { type: 'duplicate', key: 'text' },
+    ]);
+    expect(complete[0]).toMatchObject({ data: { rating: null, text: 'Hola' } });
+  });
+
+  test('a truncated object still completes at the end of the input', () => {
+    const { complete, streamed } = parse(['{"rating": 50, "text": "Bis mor'], json);
+
+    expect(streamed).toBe('Bis mor');
+    expect(complete[0]).toMatchObject({ data: { rating: 50, corrections: undefined, text: 'Bis mor' } });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest';
+import {
+  buildProgress,
+  dayKey,
+  movingAverage,
+  practiceMinutesPerDay,
+  practiceStreaks,
+  ProgressTurn,
+} from '@/lib/progress/stats';
+
+const at = (day: number, hour = 12, minute = 0) => new Date(2026, 0, day, hour, minute).getTime();
+
+const turn = (overrides: Partial<ProgressTurn>): ProgressTurn => ({
+  language: 'spanish',
+  role: 'user',
+  rating: null,
+  difficulty: null,
+  createdAt: at(1),
+  ...overrides,
+});
+
+describe('learner progress', () => {
+  test('moving average uses a trailing window', () => {
+    expect(movingAverage([10, 20, 30, 40], 2)).toEqual([10, 15, 25, 35]);
+  });
+
+  test('streaks count consecutive days and survive until the next day ends', () => {
+    const days = [at(1), at(2), at(3), at(5), at(6)].map(dayKey);
+
+    expect(practiceStreaks(days, at(6, 20))).toEqual({ current: 2, longest: 3 });
+    expect(practiceStreaks(days, at(7, 8))).toEqual({ current: 2, longest: 3 });
+    expect(practiceStreaks(days, at(8))).toEqual({ current: 0, longest: 3 });
+    expect(practiceStreaks([], at(8))).toEqual({ current: 0, longest: 0 });
+  });
+
+  test('practice time stops counting across long pauses', () => {
+    const minutes = practiceMinutesPerDay([
+      turn({ createdAt: at(1, 9, 0) }),
+      turn({ createdAt: at(1, 9, 4) }),
+      turn({ createdAt: at(1, 15, 0) }),
+    ]);
+
+    // 4 minutes between the first two turns, plus a minute for each session's last turn
+    expect(minutes).toEqual([{ day: dayKey(at(1)), value: 6 }]);
+  });
+
+  test('progress is grouped per language', () => {
+    const progress = buildProgress(
+      [
+        turn({ rating: 40, createdAt: at(1) }),
+        turn({ role: 'assistant', difficulty: 2, createdAt: at(1) }),
+        turn({ rating: 80, createdAt: at(2) }),
+        turn({ language: 'french', rating: 90, createdAt: at(2) }),
+        turn({ language: null, rating: 10, createdAt: at(2) }),
+      ],
+      [{ language: 'spanish', addedAt: at(1) }, { language: 'spanish', addedAt: at(1, 18) }],
+      at(2)
+    );
+
+    expect(progress.map((p) => p.language)).toEqual(['french', 'spanish']);
+
+    const spanish = progress[1];
+    expect(spanish.ratings.map((r) => r.average)).toEqual([40, 60]);
+    expect(spanish.difficulty).toEqual([{ day: dayKey(at(1)), value: 2 }]);
+    expect(spanish.wordsPerDay).toEqual([{ day: dayKey(at(1)), value: 2 }]);
+    expect(spanish.streaks).toEqual({ current: 2, longest: 2 });
+  });
+});
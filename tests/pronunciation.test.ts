@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest';
+import {
+  editSimilarity,
+  levenshtein,
+  normalizeForComparison,
+  phoneticKey,
+  scorePronunciation,
+} from '@/lib/review/pronunciation';
+
+describe('pronunciation scoring', () => {
+  test('levenshtein counts code points, not UTF-16 units', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('später', 'spater')).toBe(1);
+    expect(levenshtein('ありがとう', 'ありがと')).toBe(1);
+    expect(editSimilarity('', '')).toBe(1);
+  });
+
+  test('normalization drops punctuation and case but keeps accents', () => {
+    expect(normalizeForComparison('  ¡Buenos   Días! ')).toBe('buenos días');
+    expect(normalizeForComparison("Aujourd'hui.")).toBe('aujourdhui');
+  });
+
+  test('sound-alike spellings share a phonetic key', () => {
+    expect(phoneticKey('photo')).toBe(phoneticKey('foto'));
+    expect(phoneticKey('Schule')).toBe(phoneticKey('sule'));
+    expect(phoneticKey('hola')).toBe(phoneticKey('ola'));
+  });
+
+  test('exact attempts pass with a good grade', () => {
+    const result = scorePronunciation('Bonjour', 'bonjour');
+    expect(result.score).toBe(1);
+    expect(result.grade).toBe('good');
+    expect(result.passed).toBe(true);
+  });
+
+  test('filler words around the target are ignored', () => {
+    const result = scorePronunciation('comida', 'uh comida');
+    expect(result.score).toBe(1);
+  });
+
+  test('near misses are graded hard, unrelated words fail', () => {
+    expect(scorePronunciation('vorbereiten', 'vorbereitung').grade).toBe('hard');
+
+    const miss = scorePronunciation('merci', 'thank you');
+    expect(miss.grade).toBe('again');
+    expect(miss.passed).toBe(false);
+  });
+});
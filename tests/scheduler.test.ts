@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest';
+import {
+  createReviewState,
+  DEFAULT_EASE_FACTOR,
+  isDue,
+  MIN_EASE_FACTOR,
+  scheduleReview,
+} from '@/lib/review/scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 0, 1);
+
+describe('scheduleReview', () => {
+  test('new words are due immediately', () => {
+    const state = createReviewState(now);
+    expect(state.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+    expect(isDue(state, now)).toBe(true);
+  });
+
+  test('good answers grow the interval 1 → 6 → interval * ease', () => {
+    let state = createReviewState(now);
+
+    state = scheduleReview(state, 'good', now);
+    expect(state.repetitions).toBe(1);
+    expect(state.interval).toBe(1);
+    expect(state.dueAt).toBe(now + DAY_MS);
+
+    state = scheduleReview(state, 'good', state.dueAt);
+    expect(state.interval).toBe(6);
+
+    const previous = state;
+    state = scheduleReview(state, 'good', state.dueAt);
+    expect(state.interval).toBe(Math.round(previous.interval * state.easeFactor));
+    expect(state.lastReviewedAt).toBe(previous.dueAt);
+  });
+
+  test('again resets repetitions and brings the word back the same session', () => {
+    let state = createReviewState(now);
+    state = scheduleReview(state, 'good', now);
+    state = scheduleReview(state, 'good', now);
+
+    const failed = scheduleReview(state, 'again', now);
+    expect(failed.repetitions).toBe(0);
+    expect(failed.interval).toBe(0);
+    expect(failed.dueAt).toBeGreaterThan(now);
+    expect(failed.dueAt).toBeLessThan(now + DAY_MS);
+    expect(failed.easeFactor).toBeLessThan(state.easeFactor);
+  });
+
+  test('easy schedules further out than good, hard closer', () => {
+    const state = scheduleReview(scheduleReview(createReviewState(now), 'good', now), 'good', now);
+
+    const hard = scheduleReview(state, 'hard', now);
+    const good = scheduleReview(state, 'good', now);
+    const easy = scheduleReview(state, 'easy', now);
+
+    expect(hard.interval).toBeLessThan(good.interval);
+    expect(easy.interval).toBeGreaterThan(good.interval);
+  });
+
+  test('ease factor never drops below the SM-2 floor', () => {
+    let state = createReviewState(now);
+    for (let i = 0; i < 20; i++) {
+      state = scheduleReview(state, 'again', now);
+    }
+    expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, test, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { floatToPCM16, ServerTranscriber, STT_SAMPLE_RATE } from '@/lib/audio/server-transcriber';
+import { FakeSTTProvider, LLMSTTProvider } from '@/lib/audio/stt';
+import { FakeLLMProvider, setLLMProvider } from '@/lib/llm';
+import { POST as transcribe } from '@/app/(chat)/api/transcribe/route';
+
+vi.mock('@/auth', () => ({ auth: async () => ({ user: { id: 'u1' } }) }));
+
+// 100 ms frames at the playback context's rate
+const INPUT_RATE = 24000;
+const FRAME = INPUT_RATE / 10;
+
+const tone = () => Float32Array.from({ length: FRAME }, (_, i) => 0.3 * Math.sin((2 * Math.PI * 220 * i) / INPUT_RATE));
+const silence = () => new Float32Array(FRAME);
+
+// Routes the transcriber's requests straight to a provider, like /api/transcribe does
+function providerFetch(provider: FakeSTTProvider): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const params = new URL(String(input), 'http://localhost').searchParams;
+    const { text } = await provider.transcribe({
+      audio: init!.body as Uint8Array,
+      sampleRate: Number(params.get('sampleRate')),
+      locale: params.get('locale'),
+    });
+    return Response.json({ text });
+  }) as typeof fetch;
+}
+
+function setup(options = {}) {
+  const provider = new FakeSTTProvider();
+  const results: string[] = [];
+  const interims: string[] = [];
+  const transcriber = new ServerTranscriber(
+    { onResult: (text) => results.push(text), onInterimResult: (text) => interims.push(text), onError: (error) => { throw new Error(error); } },
+    { locale: 'de-DE', fetch: providerFetch(provider), ...options }
+  );
+  // Frames arrive in real time, so responses can land in between
+  const feed = async (frame: () => Float32Array, count: number) => {
+    for (let i = 0; i < count; i++) {
+      transcriber.pushAudio(frame(), INPUT_RATE);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  };
+  return { provider, results, interims, transcriber, feed };
+}
+
+describe('server transcriber', () => {
+  test('downsamples float audio to PCM16', () => {
+    const pcm = floatToPCM16(Float32Array.from([0.5, 0.5, 0.5, -1, -1, -1]), 48000);
+    const view = new DataView(pcm.buffer);
+
+    expect(pcm.length).toBe(4);
+    expect(view.getInt16(0, true)).toBe(Math.trunc(0.5 * 0x7fff));
+    expect(view.getInt16(2, true)).toBe(-0x8000);
+  });
+
+  test('an utterance gets interim results and ends on silence with a final one', async () => {
+    const { provider, results, interims, transcriber, feed } = setup({ partialIntervalMs: 1000, silenceMs: 500, preRollMs: 200 });
+
+    await feed(silence, 10);
+    await feed(tone, 20);
+    await feed(silence, 5);
+    await transcriber.flush();
+
+    expect(provider.requests.map((request) => request.audio.length / 2 / STT_SAMPLE_RATE)).toEqual([1, 2, 2.7]);
+    expect(provider.requests.every((request) => request.locale === 'de-DE' && request.sampleRate === STT_SAMPLE_RATE)).toBe(true);
+    expect(interims).toEqual(['1.0 seconds of speech', '2.0 seconds of speech']);
+    // Pre-roll, speech and the silence that ended it
+    expect(results).toEqual(['2.7 seconds of speech']);
+  });
+
+  test('quiet input is never sent and stopping sends what was said so far', async () => {
+    const { provider, results, transcriber, feed } = setup();
+
+    await feed(silence, 30);
+    await transcriber.flush();
+    expect(provider.requests).toHaveLength(0);
+
+    await feed(tone, 3);
+    await transcriber.stop();
+    expect(results).toEqual(['0.6 seconds of speech']);
+  });
+
+  test('transcription goes through the LLM provider as a WAV clip', async () => {
+    const llm = new FakeLLMProvider({ transcripts: ['Ich heiße Sam'] });
+    const audio = floatToPCM16(tone(), INPUT_RATE);
+
+    const { text } = await new LLMSTTProvider(llm).transcribe({ audio, sampleRate: STT_SAMPLE_RATE, locale: 'de-DE' });
+
+    expect(text).toBe('Ich heiße Sam');
+    const [request] = llm.audioRequests;
+    expect(request.mimeType).toBe('audio/wav');
+    expect(new TextDecoder().decode(request.audio.subarray(0, 4))).toBe('RIFF');
+    expect(request.audio.length).toBe(44 + audio.length);
+    expect(request.prompt).toContain('de-DE');
+  });
+
+  test('an upload longer than the limit is refused before it is buffered', async () => {
+    const llm = new FakeLLMProvider();
+    setLLMProvider(llm);
+    // Endless silence at 8 kHz, streamed without a Content-Length
+    const second = new Uint8Array(8000 * 2);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent++;
+        controller.enqueue(second);
+      },
+    });
+
+    const response = await transcribe(new NextRequest('http://localhost/api/transcribe?sampleRate=8000', { method: 'POST', body, duplex: 'half' } as ConstructorParameters<typeof NextRequest>[1]));
+    const declared = await transcribe(new NextRequest('http://localhost/api/transcribe?sampleRate=8000', { method: 'POST', headers: { 'content-length': String(31 * second.length) } }));
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThanOrEqual(32);
+    expect(declared.status).toBe(413);
+    expect(llm.audioRequests).toHaveLength(0);
+    setLLMProvider(null);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { SSEClient } from '@/lib/sse-client';
+import { encodeAudioFrame } from '@/lib/audio/audio-frames';
+
+// Streams that stay open until their request is aborted, like a reply still being generated
+function openStreamFetch(signals: AbortSignal[]): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const signal = init!.signal!;
+    const event = String(input) === '/tts' ? 'tts_stream_start' : 'stream_start';
+    signals.push(signal);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`event: ${event}\ndata: {}\n\n`));
+        signal.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+      },
+    });
+    return new Response(body);
+  }) as typeof fetch;
+}
+
+describe('sse client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('cancelling a chat request aborts it and its TTS requests without errors', async () => {
+    const signals: AbortSignal[] = [];
+    vi.stubGlobal('fetch', openStreamFetch(signals));
+    const client = new SSEClient('/chat', '/tts');
+    const onError = vi.fn();
+    const onStreamStart = vi.fn();
+
+    const chatRequestId = client.sendChatMessage([], { onError, onStreamStart });
+    client.sendTTSRequest('Hallo!', 0, chatRequestId, { onError });
+    const unrelated = client.sendChatMessage([], { onError });
+    await vi.waitFor(() => expect(onStreamStart).toHaveBeenCalled());
+
+    client.cancelRequest(chatRequestId);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true, false]);
+    expect(onError).not.toHaveBeenCalled();
+
+    client.cancelRequest(unrelated);
+  });
+
+  test('a frames stream that stops before its end frame is an error', async () => {
+    const pcm = new Uint8Array(4800);
+    vi.stubGlobal('fetch', async () => new Response(new Uint8Array(encodeAudioFrame({ requestId: '2', chunkIndex: 0 }, pcm))));
+    const onTTSFrame = vi.fn();
+    const onTTSComplete = vi.fn();
+
+    const error = await new Promise((resolve) => {
+      new SSEClient('/chat', '/tts').sendTTSRequest('Hallo!', 0, '1', { onTTSFrame, onTTSComplete, onError: resolve }, { transport: 'frames' });
+    });
+
+    expect(error).toMatch(/before its audio was complete/);
+    expect(onTTSFrame).toHaveBeenCalledTimes(1);
+    expect(onTTSComplete).not.toHaveBeenCalled();
+  });
+});
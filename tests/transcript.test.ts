@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import {
+  formatTimestamp,
+  toHTMLTranscript,
+  toMarkdownTranscript,
+  toSRT,
+  toWebVTT,
+  transcriptCues,
+} from '@/lib/export/transcript';
+import { buildUIMessage, TranslationData, UIMessage } from '@/lib/utils';
+
+const gloss = (word: string, translation: string): TranslationData => ({
+  word,
+  translation,
+  language: 'french',
+  phonetic: '',
+});
+
+const at = (seconds: number, message: UIMessage): UIMessage => ({ ...message, timestamp: 1_700_000_000_000 + seconds * 1000 });
+
+const messages = [
+  at(0, buildUIMessage({ role: 'user', content: 'Bonjour !' })),
+  at(2, buildUIMessage({
+    role: 'assistant',
+    content: 'Bonjour ! Tu vas au **marché** ?\nOn achète des pommes.',
+    translations: { marché: gloss('marché', 'market'), pommes: gloss('pommes', 'apples') },
+  })),
+  at(30, buildUIMessage({ role: 'user', content: 'Oui & à demain <3' })),
+];
+
+describe('transcript export', () => {
+  test('cues follow message timestamps and audio length', () => {
+    const cues = transcriptCues(messages, [undefined, 4.2]);
+
+    expect(cues.map(({ start, end }) => [start, end])).toEqual([
+      [0, 1.5], // estimated, the shortest cue
+      [2, 6.2], // measured audio
+      [30, 32], // estimated, five words
+    ]);
+    // Long audio stops where the next message starts
+    expect(transcriptCues(messages, [60])[0].end).toBe(2);
+  });
+
+  test('every line carries the glosses of its saved words', () => {
+    const [, reply] = transcriptCues(messages);
+
+    expect(reply.lines).toEqual([
+      { text: 'Bonjour !', glosses: [] },
+      { text: 'Tu vas au marché ?', glosses: [{ word: 'marché', translation: 'market' }] },
+      { text: 'On achète des pommes.', glosses: [{ word: 'pommes', translation: 'apples' }] },
+    ]);
+  });
+
+  test('subtitles come out as WebVTT and SRT', () => {
+    const cues = transcriptCues(messages, [undefined, 4.2]);
+
+    expect(formatTimestamp(3723.0456, ',')).toBe('01:02:03,046');
+    expect(toWebVTT(cues).split('\n\n')).toEqual([
+      'WEBVTT',
+      '1\n00:00:00.000 --> 00:00:01.500\n<v You>Bonjour !',
+      '2\n00:00:02.000 --> 00:00:06.200\n<v Tutor>Bonjour ! Tu vas au marché ? On achète des pommes.',
+      '3\n00:00:30.000 --> 00:00:32.000\n<v You>Oui &amp; à demain &lt;3\n',
+    ]);
+    expect(toSRT(cues).split('\n\n')[1]).toBe('2\n00:00:02,000 --> 00:00:06,200\nTutor: Bonjour ! Tu vas au marché ? On achète des pommes.');
+  });
+
+  test('bilingual transcripts put the gloss under each line', () => {
+    const cues = transcriptCues(messages);
+
+    expect(toMarkdownTranscript(cues, { title: 'Session' })).toContain(
+      '**Tutor** [00:00:02]\n\nBonjour !\n\nTu vas au marché ?\n\n> *marché: market*\n\nOn achète des pommes.\n\n> *pommes: apples*'
+    );
+
+    const html = toHTMLTranscript(cues, { title: 'Session', language: 'french' });
+    expect(html).toContain('<p lang="fr-FR">Tu vas au marché ?</p>\n    <p class="gloss" lang="en">marché: market</p>');
+    expect(html).toContain('<p lang="fr-FR">Oui &amp; à demain &lt;3</p>');
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { useTranslationStore } from '@/lib/store/translations';
+import { generateWordAudioOnDemand, recordAttempt, recordReview } from '@/app/actions/translations';
+import { scorePronunciation } from '@/lib/review/pronunciation';
+
+vi.mock('@/app/actions/translations', () => ({
+  incrementUsageCount: vi.fn(async () => {}),
+  recordReview: vi.fn(async (language: string, word: string) => useTranslationStore.getState().translations[language][word]),
+  recordAttempt: vi.fn(async () => {}),
+  generateWordAudioOnDemand: vi.fn(async () => '/api/tts/audio/abc'),
+}));
+
+const word = { word: 'hola', language: 'spanish', translation: 'hello', phonetic: 'OH-lah', audioUrl: '', usageCount: 0 };
+
+describe('translation store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useTranslationStore.setState({ translations: { spanish: { hola: { ...word } } }, error: null });
+  });
+
+  test('a drilled word is graded once, retries only join its history', async () => {
+    const { recordDrillAttempt } = useTranslationStore.getState();
+
+    await recordDrillAttempt('spanish', 'hola', scorePronunciation('hola', 'ola'));
+    const graded = useTranslationStore.getState().translations.spanish.hola;
+    await recordDrillAttempt('spanish', 'hola', scorePronunciation('hola', 'hola'), { retry: true });
+    await recordDrillAttempt('spanish', 'hola', scorePronunciation('hola', 'hola'), { retry: true });
+
+    expect(recordReview).toHaveBeenCalledTimes(1);
+    expect(recordAttempt).toHaveBeenCalledTimes(2);
+    expect(recordAttempt).toHaveBeenCalledWith('spanish', 'hola', 'good', expect.objectContaining({ source: 'drill', transcript: 'hola' }));
+    expect(useTranslationStore.getState().translations.spanish.hola).toEqual(graded);
+    expect(graded.usageCount).toBe(1);
+  });
+
+  test('a word without audio gets it when it first comes up', async () => {
+    const { loadWordAudio } = useTranslationStore.getState();
+
+    await loadWordAudio('spanish', 'Hola');
+    await loadWordAudio('spanish', 'hola');
+
+    expect(generateWordAudioOnDemand).toHaveBeenCalledTimes(1);
+    expect(useTranslationStore.getState().translations.spanish.hola.audioUrl).toBe('/api/tts/audio/abc');
+  });
+
+  test('a review that fails to save is undone and rethrown', async () => {
+    vi.mocked(recordReview).mockRejectedValueOnce(new Error('Translation not found: hola'));
+    const { reviewWord } = useTranslationStore.getState();
+
+    await expect(reviewWord('spanish', 'hola', 'good')).rejects.toThrow('Translation not found');
+    expect(useTranslationStore.getState().translations.spanish.hola).toEqual(word);
+    expect(useTranslationStore.getState().error).toBe('Translation not found: hola');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+import { createStorage } from 'unstorage';
+import memoryDriver from 'unstorage/drivers/memory';
+import { AudioConverter } from '@/lib/audio/audio-helpers';
+import { isTTSCacheKey, TTSAudioCache, ttsCacheKey } from '@/lib/audio/tts-cache';
+
+describe('tts audio cache', () => {
+  test('keys ignore composition and whitespace but not voice or language', () => {
+    const key = ttsCacheKey({ text: 'Ça  va ?\n', voiceName: 'Aoede', language: 'french' });
+
+    expect(isTTSCacheKey(key)).toBe(true);
+    expect(ttsCacheKey({ text: 'Ça va ?', voiceName: 'Aoede', language: 'French' })).toBe(key);
+    expect(ttsCacheKey({ text: 'Ça va ?', voiceName: 'Charon', language: 'french' })).not.toBe(key);
+    expect(ttsCacheKey({ text: 'Ça va ?', voiceName: 'Aoede', language: 'italian' })).not.toBe(key);
+  });
+
+  test('audio round-trips through the storage backend', async () => {
+    const cache = new TTSAudioCache(createStorage({ driver: memoryDriver() }));
+    const key = ttsCacheKey({ text: 'Hallo', voiceName: 'Charon', language: 'german' });
+    const pcm = new Uint8Array([1, 2, 3, 4]);
+
+    expect(await cache.get(key)).toBeNull();
+    await cache.set(key, pcm);
+    expect(await cache.has(key)).toBe(true);
+    expect(Array.from((await cache.get(key))!)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('cached PCM is served behind a WAV header', () => {
+    const wav = AudioConverter.pcm16ToWav(new Uint8Array(480), 24000);
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+
+    expect(wav.length).toBe(44 + 480);
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(480);
+  });
+});
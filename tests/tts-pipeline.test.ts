@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { createSentenceSegmenter } from '@/lib/audio/tts-text';
+import { OrderedAudioQueueManager } from '@/lib/audio/audio-manager';
+
+// The queue only stores buffers, so a labelled object stands in for real audio
+const buffer = (label: string) => ({ label }) as unknown as AudioBuffer;
+
+function stream(text: string, size: number, language: Parameters<typeof createSentenceSegmenter>[0]) {
+  const segmenter = createSentenceSegmenter(language);
+  const emitted: { sentence: string; afterChars: number }[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    for (const sentence of segmenter.push(text.slice(i, i + size))) {
+      emitted.push({ sentence, afterChars: i + size });
+    }
+  }
+  for (const sentence of segmenter.flush()) {
+    emitted.push({ sentence, afterChars: text.length });
+  }
+  return emitted;
+}
+
+describe('sentence-pipelined tts', () => {
+  let queue: OrderedAudioQueueManager | null = null;
+  afterEach(() => queue?.destroy());
+
+  test('sentences are released while the reply is still streaming', () => {
+    const reply = 'Sehr gut! Ich kaufe z. B. 2 Äpfel am 3. Mai. Und du?';
+    const emitted = stream(reply, 3, 'german');
+
+    expect(emitted.map((e) => e.sentence)).toEqual([
+      'Sehr gut!',
+      'Ich kaufe z. B. 2 Äpfel am 3. Mai.',
+      'Und du?',
+    ]);
+    // The first sentence doesn't wait for the end of the reply
+    expect(emitted[0].afterChars).toBeLessThan(reply.indexOf('Mai'));
+  });
+
+  test('line breaks and CJK punctuation end sentences, unspeakable lines are dropped', () => {
+    expect(stream('**Bravo**\n\n---\n- Bien joué 😊\n', 4, 'french').map((e) => e.sentence))
+      .toEqual(['**Bravo**', '- Bien joué 😊']);
+    expect(stream('今日は晴れです。散歩しましょう！', 2, 'japanese').map((e) => e.sentence))
+      .toEqual(['今日は晴れです。', '散歩しましょう！']);
+  });
+
+  test('audio plays in sentence order whichever sentence finishes first', () => {
+    queue = new OrderedAudioQueueManager();
+    const played: string[] = [];
+    const drain = () => {
+      let next;
+      while ((next = queue!.getNextChunk('reply'))) played.push((next as any).label);
+    };
+
+    // Sentence 1 is synthesized before sentence 0
+    queue.enqueueChunk('reply', 0, buffer('1.0'), 'message', 1);
+    queue.markSegmentComplete('reply', 1, 1, 'message');
+    drain();
+    expect(played).toEqual([]);
+
+    expect(queue.enqueueChunk('reply', 0, buffer('0.0'), 'message', 0)).toBe(true);
+    queue.enqueueChunk('reply', 1, buffer('0.1'), 'message', 0);
+    drain();
+    // Sentence 0's length isn't known yet, so playback waits for more of it
+    expect(played).toEqual(['0.0', '0.1']);
+
+    queue.markSegmentComplete('reply', 0, 2, 'message');
+    queue.markRequestComplete('reply');
+    drain();
+    expect(played).toEqual(['0.0', '0.1', '1.0']);
+    expect(queue.isRequestFinished('reply')).toBe(true);
+  });
+
+  test('a sentence without audio is skipped', () => {
+    queue = new OrderedAudioQueueManager();
+    queue.enqueueChunk('reply', 0, buffer('1.0'), 'message', 1);
+    expect(queue.hasNextChunk('reply')).toBe(false);
+
+    queue.markSegmentComplete('reply', 0, 0, 'message');
+    expect(queue.hasNextChunk('reply')).toBe(true);
+    expect(queue.getQueueStats('reply')).toMatchObject({ nextExpectedSegment: 1, nextExpectedIndex: 0 });
+  });
+
+  test('a cancelled request ignores audio that arrives afterwards', () => {
+    queue = new OrderedAudioQueueManager();
+    queue.enqueueChunk('reply', 0, buffer('0.0'), 'message', 0);
+    queue.cancelRequest('reply');
+
+    expect(queue.enqueueChunk('reply', 1, buffer('0.1'), 'message', 0)).toBe(false);
+    queue.markSegmentComplete('reply', 1, 3, 'message');
+    expect(queue.getQueueStats('reply')).toBeNull();
+    expect(queue.hasNextChunk('reply')).toBe(false);
+  });
+
+  test('playback progress covers the sentence being played', () => {
+    queue = new OrderedAudioQueueManager();
+    const timed = (seconds: number) => ({ duration: seconds }) as unknown as AudioBuffer;
+
+    expect(queue.getPlaybackProgress('reply')).toBeNull();
+    queue.enqueueChunk('reply', 0, timed(1), 'message', 0);
+    queue.markSegmentComplete('reply', 0, 1, 'message');
+    queue.enqueueChunk('reply', 0, timed(0.5), 'message', 1);
+    queue.enqueueChunk('reply', 1, timed(1.5), 'message', 1);
+
+    queue.getNextChunk('reply');
+    expect(queue.getPlaybackProgress('reply')).toEqual({ segmentIndex: 0, scheduledSeconds: 1, receivedSeconds: 1, complete: true });
+    queue.getNextChunk('reply');
+    expect(queue.getPlaybackProgress('reply')).toEqual({ segmentIndex: 1, scheduledSeconds: 0.5, receivedSeconds: 2, complete: false });
+    queue.markSegmentComplete('reply', 1, 2, 'message');
+    expect(queue.getPlaybackProgress('reply')).toMatchObject({ segmentIndex: 1, complete: true });
+  });
+});
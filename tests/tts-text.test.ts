@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'vitest';
+import {
+  cleanForSpeech,
+  expandNumbers,
+  heardText,
+  joinSentences,
+  numberToWords,
+  prepareSpeechSentences,
+  splitSentences,
+  stripMarkdown,
+} from '@/lib/audio/tts-text';
+import { LANGUAGE_NAMES, LanguageName } from '@/lib/utils';
+
+describe('tts text preparation', () => {
+  test('markdown is stripped down to the spoken words', () => {
+    expect(stripMarkdown('**Sehr gut!** Das ist _richtig_, siehe [hier](https://example.com).'))
+      .toBe('Sehr gut! Das ist richtig, siehe hier.');
+    expect(stripMarkdown('- erste Zeile\n- zweite Zeile')).toBe('erste Zeile\nzweite Zeile');
+    expect(stripMarkdown('`le_mot` et mot_composé')).toBe('le_mot et mot_composé');
+  });
+
+  test('cleanup keeps accents and other scripts but drops emoji and invisible characters', () => {
+    expect(cleanForSpeech('Schön, dass du da bist! 😀👍🏽')).toBe('Schön, dass du da bist!');
+    expect(cleanForSpeech('Ça va ?​')).toBe('Ça va ?');
+    // Decomposed accents are recomposed
+    expect(cleanForSpeech('Mañana')).toBe('Mañana');
+    expect(cleanForSpeech('こんにちは\n元気です', 'japanese')).toBe('こんにちは。元気です');
+  });
+
+  test('sentences split on CJK punctuation without spaces', () => {
+    expect(splitSentences('今日は晴れです。散歩しましょう！どこに行きますか？')).toEqual([
+      '今日は晴れです。',
+      '散歩しましょう！',
+      'どこに行きますか？',
+    ]);
+    expect(splitSentences('«Bonjour !» dit-il. Il fait 3.5 degrés… Non?')).toEqual([
+      '«Bonjour !»',
+      'dit-il.',
+      'Il fait 3.5 degrés…',
+      'Non?',
+    ]);
+  });
+
+  test('number words follow each language\'s rules', () => {
+    expect(numberToWords(21, 'german')).toBe('einundzwanzig');
+    expect(numberToWords(101_000, 'german')).toBe('einhunderteintausend');
+    expect(numberToWords(71, 'french')).toBe('soixante et onze');
+    expect(numberToWords(80_000, 'french')).toBe('quatre-vingt mille');
+    expect(numberToWords(200, 'french')).toBe('deux cents');
+    expect(numberToWords(21_000, 'spanish')).toBe('veintiún mil');
+    expect(numberToWords(100, 'spanish')).toBe('cien');
+    expect(numberToWords(23, 'italian')).toBe('ventitré');
+    expect(numberToWords(188, 'italian')).toBe('centottantotto');
+    expect(numberToWords(1_100, 'portuguese')).toBe('mil e cem');
+    expect(numberToWords(1_250, 'portuguese')).toBe('mil duzentos e cinquenta');
+    expect(numberToWords(12_345, 'japanese')).toBe('一万二千三百四十五');
+    expect(numberToWords(1_000_000, 'german')).toBeNull();
+  });
+
+  test('grouping and decimal separators are read per language', () => {
+    expect(expandNumbers('1.000 Euro', 'german')).toBe('eintausend Euro');
+    expect(expandNumbers('3,5 Liter', 'german')).toBe('drei Komma fünf Liter');
+    expect(expandNumbers('am 12.05.2024', 'german')).toBe('am 12.05.2024');
+    expect(expandNumbers('1,000円', 'japanese')).toBe('千円');
+    expect(expandNumbers('50 %', 'french')).toBe('cinquante pour cent');
+    expect(expandNumbers('mp3', 'italian')).toBe('mp3');
+  });
+
+  test('decimals are read digit by digit or as a number, per language', () => {
+    expect(expandNumbers('3,25 Meter', 'german')).toBe('drei Komma zwei fünf Meter');
+    expect(expandNumbers('3,25 metros', 'spanish')).toBe('tres coma veinticinco metros');
+    expect(expandNumbers('0,05', 'french')).toBe('zéro virgule zéro cinq');
+    expect(expandNumbers('1.5キロ', 'japanese')).toBe('一点五キロ');
+  });
+
+  test('amounts of money are said with their currency', () => {
+    expect(expandNumbers('1,50 €', 'german')).toBe('ein Euro fünfzig');
+    expect(expandNumbers('0,50 €', 'german')).toBe('fünfzig Cent');
+    expect(expandNumbers('21 €', 'spanish')).toBe('veintiún euros');
+    expect(expandNumbers('€2,05', 'spanish')).toBe('dos euros con cinco');
+    expect(expandNumbers('1,00 €', 'french')).toBe('un euro');
+    expect(expandNumbers('$3.50', 'italian')).toBe('tre dollari e cinquanta');
+    expect(expandNumbers('2,5€', 'portuguese')).toBe('dois euros e cinquenta');
+    expect(expandNumbers('¥1,000', 'japanese')).toBe('千円');
+    expect(expandNumbers('€1.50', 'japanese')).toBe('一ユーロ五十セント');
+  });
+
+  test('Spanish shortens "uno" before the noun it counts', () => {
+    expect(expandNumbers('Tengo 21 años y 1 perro.', 'spanish')).toBe('Tengo veintiún años y un perro.');
+    expect(expandNumbers('el 1 de mayo', 'spanish')).toBe('el uno de mayo');
+    expect(expandNumbers('Son 31.', 'spanish')).toBe('Son treinta y uno.');
+  });
+
+  const samples: Record<LanguageName, { input: string; expected: string[] }> = {
+    german: {
+      input: 'Ich kaufe z. B. 2 Äpfel für 1,50 €. Das ist **günstig**!',
+      expected: ['Ich kaufe zum Beispiel zwei Äpfel für ein Euro fünfzig.', 'Das ist günstig!'],
+    },
+    french: {
+      input: "M. Dupont a 80 ans. Il habite à Besançon, c'est très joli 😊",
+      expected: ['Monsieur Dupont a quatre-vingts ans.', "Il habite à Besançon, c'est très joli"],
+    },
+    spanish: {
+      input: '¿Cuántos años tienes? Tengo 31 años, etc.',
+      expected: ['¿Cuántos años tienes?', 'Tengo treinta y un años, etcétera.'],
+    },
+    italian: {
+      input: 'Il Sig. Rossi ha 23 gatti.\nChe bello!',
+      expected: ['Il signor Rossi ha ventitré gatti.', 'Che bello!'],
+    },
+    portuguese: {
+      input: 'Você gosta de pão de queijo? Eu comi 15 ontem.',
+      expected: ['Você gosta de pão de queijo?', 'Eu comi quinze ontem.'],
+    },
+    japanese: {
+      input: '私は**3**匹の猫を飼っています。とても可愛いです！',
+      expected: ['私は三匹の猫を飼っています。', 'とても可愛いです！'],
+    },
+  };
+
+  test.each(LANGUAGE_NAMES)('prepares a %s reply', (language) => {
+    const { input, expected } = samples[language];
+    const sentences = prepareSpeechSentences(input, language);
+
+    expect(sentences).toEqual(expected);
+    // Nothing outside ASCII is dropped any more
+    expect(joinSentences(sentences, language)).not.toBe('');
+  });
+
+  test('without a language the text is only cleaned', () => {
+    expect(prepareSpeechSentences('Tengo 31 años. *Muy* bien.')).toEqual(['Tengo 31 años.', 'Muy bien.']);
+  });
+
+  test('an interrupted reply keeps the sentences and whole words that were heard', () => {
+    const sentences = ['Sehr gut!', 'Was möchtest du heute essen?', 'Ich koche gern.'];
+
+    expect(heardText(sentences, 1, 0.5)).toBe('Sehr gut! Was möchtest');
+    expect(heardText(sentences, 1, 0.53)).toBe('Sehr gut! Was möchtest du');
+    expect(heardText(sentences, 0, 0.1)).toBe('');
+    expect(heardText(sentences, 2, 1)).toBe('Sehr gut! Was möchtest du heute essen? Ich koche gern.');
+    // Without spaces every character counts
+    expect(heardText(['今日は晴れです。', '散歩しましょう！'], 1, 0.5, 'japanese')).toBe('今日は晴れです。散歩しま');
+  });
+});
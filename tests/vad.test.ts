@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { SpeechTurn, VADEvent, VoiceActivityDetector } from '@/lib/audio/vad';
+
+const RATE = 16000;
+const samples = (ms: number) => (RATE * ms) / 1000;
+
+// A voiced vowel is loud with few zero crossings
+const voice = (ms: number) => Float32Array.from({ length: samples(ms) }, (_, i) => 0.3 * Math.sin((2 * Math.PI * 180 * i) / RATE));
+const silence = (ms: number) => new Float32Array(samples(ms));
+// Broadband noise just as loud, crossing zero every other sample
+function hiss(ms: number) {
+  let seed = 42;
+  return Float32Array.from({ length: samples(ms) }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return 0.3 * (seed / 2 ** 30 - 1);
+  });
+}
+
+function concat(...parts: Float32Array[]) {
+  const joined = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+function detect(audio: Float32Array, blockSize = audio.length, options = {}) {
+  const vad = new VoiceActivityDetector(options);
+  const events: VADEvent[] = [];
+  for (let offset = 0; offset < audio.length; offset += blockSize) {
+    events.push(...vad.process(audio.subarray(offset, offset + blockSize), RATE));
+  }
+  return events;
+}
+
+describe('voice activity detector', () => {
+  test('speech starts at its onset and ends after the hangover', () => {
+    const events = detect(concat(silence(500), voice(1000), silence(1000)));
+
+    expect(events).toEqual([
+      { type: 'speech-start', timeMs: 500 },
+      { type: 'speech-end', timeMs: 1500, durationMs: 1000 },
+    ]);
+  });
+
+  test('pauses shorter than the hangover stay in one utterance', () => {
+    const audio = concat(voice(600), silence(400), voice(600), silence(1200), voice(400), silence(1000));
+
+    expect(detect(audio, samples(1000), { hangoverMs: 800 }).map((event) => event.type)).toEqual([
+      'speech-start', 'speech-end', 'speech-start', 'speech-end',
+    ]);
+    expect(detect(audio, samples(1000), { hangoverMs: 300 })).toHaveLength(6);
+  });
+
+  test('clicks below the minimum length and loud hiss are not speech', () => {
+    expect(detect(concat(silence(200), voice(100), silence(1000)))).toEqual([]);
+    expect(detect(concat(silence(200), hiss(1000), silence(1000)))).toEqual([]);
+    expect(detect(concat(voice(100), silence(1000)), undefined, { minSpeechMs: 60 })).toHaveLength(2);
+  });
+
+  test('block size does not change the result', () => {
+    const audio = concat(silence(300), voice(700), silence(300), voice(500), silence(900));
+
+    // ScriptProcessor blocks never line up with the 20 ms frames
+    expect(detect(audio, 333)).toEqual(detect(audio));
+    expect(detect(audio, 4096)).toEqual(detect(audio));
+  });
+});
+
+describe('speech turn', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup() {
+    const turns: string[] = [];
+    return { turns, turn: new SpeechTurn((text) => turns.push(text), 1000) };
+  }
+
+  test('results while speaking are submitted together when speech ends', () => {
+    const { turns, turn } = setup();
+
+    turn.speechStart();
+    turn.addFinal('Ich möchte ');
+    turn.addFinal(' einen Kaffee');
+    expect(turns).toEqual([]);
+    expect(turn.text).toBe('Ich möchte einen Kaffee');
+
+    turn.speechEnd();
+    expect(turns).toEqual(['Ich möchte einen Kaffee']);
+  });
+
+  test('waits briefly for the recognizer to settle, then uses the interim', () => {
+    vi.useFakeTimers();
+    const { turns, turn } = setup();
+
+    turn.speechStart();
+    turn.addFinal('Guten Tag');
+    turn.setInterim('wie geht');
+    turn.speechEnd();
+    turn.addFinal('wie geht es');
+    expect(turns).toEqual(['Guten Tag wie geht es']);
+
+    turn.speechStart();
+    turn.setInterim('danke');
+    turn.speechEnd();
+    vi.advanceTimersByTime(999);
+    expect(turns).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(turns).toEqual(['Guten Tag wie geht es', 'danke']);
+  });
+
+  test('speaking again before the grace period keeps the turn open', () => {
+    vi.useFakeTimers();
+    const { turns, turn } = setup();
+
+    turn.speechStart();
+    turn.setInterim('also');
+    turn.speechEnd();
+    turn.speechStart();
+    vi.advanceTimersByTime(2000);
+    expect(turns).toEqual([]);
+
+    turn.addFinal('also ich komme morgen');
+    turn.speechEnd();
+    expect(turns).toEqual(['also ich komme morgen']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest';
+import { parseVocabularyFile, planVocabularyImport, toVocabularyFile } from '@/lib/export/vocabulary';
+import { TranslationData } from '@/lib/utils';
+
+const saved = (word: string, translation: string, phonetic = ''): TranslationData => ({
+  word,
+  translation,
+  phonetic,
+  language: 'german',
+});
+
+describe('vocabulary export and import', () => {
+  test('exports Anki headers and quotes fields that need it', () => {
+    const file = toVocabularyFile(
+      [
+        { ...saved('Straße', 'street, road', 'ˈʃtʁaːsə'), audioUrl: `/api/tts/audio/${'a'.repeat(64)}` },
+        saved('Apfel', 'apple "fruit"'),
+      ],
+      'csv',
+      { baseUrl: 'https://example.com' }
+    );
+
+    expect(file.split('\n')).toEqual([
+      '#separator:comma',
+      '#html:false',
+      '#columns:word,translation,phonetic,audio,tags',
+      '#tags column:5',
+      'Apfel,"apple ""fruit""",,,voice-first german',
+      `Straße,"street, road",ˈʃtʁaːsə,https://example.com/api/tts/audio/${'a'.repeat(64)},voice-first german`,
+      '',
+    ]);
+  });
+
+  test('an export reads back unchanged', () => {
+    const words = [saved('Straße', 'street\tor road'), saved('Brot', 'bread', 'bʁoːt')];
+
+    for (const format of ['tsv', 'csv'] as const) {
+      const { rows, skipped } = parseVocabularyFile(toVocabularyFile(words, format));
+      expect(skipped).toEqual([]);
+      expect(rows.map(({ word, translation, phonetic, tags }) => [word, translation, phonetic, tags])).toEqual([
+        ['Brot', 'bread', 'bʁoːt', ['voice-first', 'german']],
+        ['Straße', 'street\tor road', '', ['voice-first', 'german']],
+      ]);
+    }
+  });
+
+  test('header rows pick the columns and bad rows are reported by line', () => {
+    const { rows, skipped } = parseVocabularyFile([
+      'Back\tFront',
+      'house\tHaus',
+      '\tKatze',
+      'dog\tHund',
+      'also a house\thaus',
+      '',
+      '"a ""quoted""\nnote"\tMaus',
+    ].join('\r\n'));
+
+    expect(rows.map(({ line, word, translation }) => [line, word, translation])).toEqual([
+      [2, 'Haus', 'house'],
+      [4, 'Hund', 'dog'],
+      [7, 'Maus', 'a "quoted"\nnote'],
+    ]);
+    expect(skipped).toEqual([
+      { line: 3, word: 'Katze', reason: 'Missing translation' },
+      { line: 5, word: 'haus', reason: 'Duplicate of an earlier row' },
+    ]);
+  });
+
+  test('the dry-run plan splits new, updated and unchanged words', () => {
+    const { rows } = parseVocabularyFile('Brot\tbread\nHaus\tbuilding\nhund\tdog\tdog-phonetic\nKatze\tcat\n');
+    const plan = planVocabularyImport(rows, [saved('Brot', 'bread'), saved('Haus', 'house'), saved('Hund', 'dog')]);
+
+    expect(plan.new.map((row) => row.word)).toEqual(['Katze']);
+    // Updates keep the saved spelling so they hit the same row
+    expect(plan.updated.map(({ word, translation, phonetic }) => [word, translation, phonetic])).toEqual([
+      ['Haus', 'building', ''],
+      ['Hund', 'dog', 'dog-phonetic'],
+    ]);
+    expect(plan.skipped).toEqual([{ line: 1, word: 'Brot', reason: 'Already saved' }]);
+  });
+});
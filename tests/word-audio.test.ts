@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'vitest';
+import { findExampleSentence, WordAudioJob, WordAudioQueue, wordAudioKey } from '@/lib/audio/word-audio';
+import { isTTSAudioUrl, ttsAudioUrl } from '@/lib/audio/tts-cache';
+
+const job = (word: string, userId = 'user'): WordAudioJob => ({
+  key: wordAudioKey(word, 'french'),
+  userId,
+  language: 'french',
+  word,
+});
+
+describe('word audio', () => {
+  test('a ten-word reply is synthesized a few words at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const done: string[] = [];
+    const sleeps: number[] = [];
+
+    const queue = new WordAudioQueue(
+      async ({ word }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await Promise.resolve();
+        running--;
+        done.push(word);
+      },
+      { batchSize: 3, intervalMs: 1000 },
+      async (ms) => { sleeps.push(ms); }
+    );
+
+    const words = ['un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix'];
+    await queue.enqueue(words.map((word) => job(word)));
+
+    expect(done).toEqual(words);
+    expect(maxRunning).toBe(3);
+    // A pause after every batch but the last
+    expect(sleeps).toHaveLength(3);
+    expect(queue.size).toBe(0);
+  });
+
+  test('queued duplicates are dropped and failures don\'t stop the queue', async () => {
+    const done: string[] = [];
+    const queue = new WordAudioQueue(
+      async ({ word, userId }) => {
+        if (word === 'mauvais') throw new Error('TTS down');
+        done.push(`${userId}:${word}`);
+      },
+      { batchSize: 2, intervalMs: 0 }
+    );
+
+    await queue.enqueue([job('marché'), job('marché'), job('mauvais'), job('marché', 'other'), job('pomme')]);
+    expect(done).toEqual(['user:marché', 'other:marché', 'user:pomme']);
+  });
+
+  test('the example sentence is the one the word was taught in', () => {
+    const reply = "Très bien! Qu'est-ce que tu vas cuisiner avec les pommes? On va au marché.";
+
+    expect(findExampleSentence('pommes', reply)).toBe("Qu'est-ce que tu vas cuisiner avec les pommes?");
+    expect(findExampleSentence('Marché', reply)).toBe('On va au marché.');
+    expect(findExampleSentence('pomme', reply)).toBeUndefined();
+    expect(wordAudioKey('marché', 'french', 'On va au marché.')).not.toBe(wordAudioKey('marché', 'french'));
+  });
+
+  test('only generated audio URLs are kept', () => {
+    expect(isTTSAudioUrl(ttsAudioUrl(wordAudioKey('marché', 'french')))).toBe(true);
+    expect(isTTSAudioUrl('https://dictionary.audio/marche_fr.mp3')).toBe(false);
+    expect(isTTSAudioUrl('')).toBe(false);
+  });
+});